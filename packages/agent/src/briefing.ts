@@ -0,0 +1,263 @@
+/**
+ * Proactive morning briefing.
+ * Once it's past BRIEFING_TIME in the user's timezone, the scheduler polls the
+ * morning report until last night's main sleep has synced, has the coach write
+ * a short briefing and delivers it. Missing sleep data is retried with
+ * exponential backoff until BRIEFING_MAX_ATTEMPTS.
+ */
+import { fetchFromFitbitApi, fetchUserTimeZone } from "./tools.js";
+import { Briefing, DeliveryResult, createChannels, deliver } from "./delivery.js";
+
+const TICK_MS = 60 * 1000;
+const TIMEZONE_REFRESH_MS = 60 * 60 * 1000;
+
+export interface MorningReport {
+  date: string;
+  last_night_sleep: unknown | null;
+  data_summary?: { timezone?: string };
+  [key: string]: unknown;
+}
+
+export type BriefingStatus = "scheduled" | "waiting_for_sleep" | "delivered" | "failed" | "gave_up";
+
+export interface BriefingRun {
+  user_id: string;
+  date: string;
+  status: BriefingStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  briefing: string | null;
+  deliveries: DeliveryResult[];
+  error?: string;
+}
+
+export interface BriefingSchedulerOptions {
+  userIds: string[];
+  // The coach's briefing for a report
+  write(userId: string, report: MorningReport): Promise<string>;
+  sendAfter?: string; // HH:MM in the user's timezone
+  maxAttempts?: number;
+  retryBaseMinutes?: number;
+  retryMaxMinutes?: number;
+}
+
+/**
+ * Local date (YYYY-MM-DD) and time (HH:MM) in a timezone
+ */
+function localDateTime(timeZone: string, now = new Date()): { date: string; time: string } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(now)
+      .map((part) => [part.type, part.value])
+  );
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, time: `${parts.hour}:${parts.minute}` };
+}
+
+/**
+ * HH:MM with a leading zero, so times compare as strings ("7:00" becomes "07:00")
+ */
+function normalizeTime(value: string): string {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    throw new Error(`Invalid briefing time "${value}", expected HH:MM`);
+  }
+  return `${match[1].padStart(2, "0")}:${match[2]}`;
+}
+
+export class BriefingScheduler {
+  private runs = new Map<string, BriefingRun>();
+  private timeZones = new Map<string, { timeZone: string; fetchedAt: number }>();
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private inFlight = new Map<string, Promise<void>>(); // Attempt in progress per user
+  private sendAfter: string;
+
+  constructor(private options: BriefingSchedulerOptions) {
+    this.sendAfter = normalizeTime(options.sendAfter || "07:00");
+  }
+
+  private get maxAttempts(): number {
+    return this.options.maxAttempts ?? 8;
+  }
+
+  // 15, 30, 60, 120, 120... minutes with the defaults
+  retryDelayMs(attempts: number): number {
+    const base = this.options.retryBaseMinutes ?? 15;
+    const max = this.options.retryMaxMinutes ?? 120;
+    return Math.min(base * 2 ** (attempts - 1), max) * 60 * 1000;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    console.log(`Morning briefings scheduled after ${this.sendAfter} for ${this.options.userIds.join(", ")}`);
+    this.timer = setInterval(() => this.tick(), TICK_MS);
+    this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Today's run per user
+   */
+  status(): BriefingRun[] {
+    return [...this.runs.values()];
+  }
+
+  private async timeZoneOf(userId: string): Promise<string> {
+    const cached = this.timeZones.get(userId);
+    if (cached && Date.now() - cached.fetchedAt < TIMEZONE_REFRESH_MS) return cached.timeZone;
+
+    // The API resolves the user's timezone from their settings or Fitbit profile
+    const timeZone =
+      (await fetchUserTimeZone(userId)) ||
+      cached?.timeZone ||
+      process.env.DEFAULT_TIMEZONE ||
+      Intl.DateTimeFormat().resolvedOptions().timeZone;
+    this.timeZones.set(userId, { timeZone, fetchedAt: Date.now() });
+    return timeZone;
+  }
+
+  private async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      for (const userId of this.options.userIds) {
+        try {
+          const { date, time } = localDateTime(await this.timeZoneOf(userId));
+          let run = this.runs.get(userId);
+          if (!run || run.date !== date) {
+            run = this.newRun(userId, date);
+            this.runs.set(userId, run);
+          }
+
+          if (run.status === "delivered" || run.status === "gave_up") continue;
+          if (time < this.sendAfter) continue;
+          if (run.next_attempt_at && Date.now() < Date.parse(run.next_attempt_at)) continue;
+
+          await this.attemptOnce(run);
+        } catch (e) {
+          console.error(`Morning briefing for ${userId} failed:`, e);
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private newRun(userId: string, date: string): BriefingRun {
+    return { user_id: userId, date, status: "scheduled", attempts: 0, next_attempt_at: null, briefing: null, deliveries: [] };
+  }
+
+  /**
+   * Run a briefing for a user now, outside the schedule (e.g. from Cloud Scheduler).
+   * A briefing already delivered today is only sent again with force.
+   * When sleep hasn't synced yet, a started scheduler keeps retrying.
+   */
+  async runNow(userId: string, force = false): Promise<BriefingRun> {
+    const { date } = localDateTime(await this.timeZoneOf(userId));
+    // Let a scheduled attempt finish first: if it delivers, there's nothing left to run
+    await this.inFlight.get(userId)?.catch(() => {});
+    let run = this.runs.get(userId);
+    if (run?.date === date && run.status === "delivered" && !force) return run;
+    if (!run || run.date !== date || run.status === "delivered" || run.status === "gave_up") {
+      run = this.newRun(userId, date);
+      this.runs.set(userId, run);
+    }
+    await this.attemptOnce(run);
+    return run;
+  }
+
+  /**
+   * Attempt a run, or wait for the user's attempt already in progress, so the
+   * coach is never prompted twice nor the briefing delivered twice at once
+   */
+  private attemptOnce(run: BriefingRun): Promise<void> {
+    const inFlight = this.inFlight.get(run.user_id);
+    if (inFlight) return inFlight;
+
+    const attempt = this.attempt(run).finally(() => this.inFlight.delete(run.user_id));
+    this.inFlight.set(run.user_id, attempt);
+    return attempt;
+  }
+
+  private async attempt(run: BriefingRun): Promise<void> {
+    run.attempts++;
+    run.error = undefined;
+
+    const retryLater = (status: BriefingStatus, error: string) => {
+      run.error = error;
+      if (run.attempts >= this.maxAttempts) {
+        run.status = "gave_up";
+        run.next_attempt_at = null;
+        console.log(`Morning briefing for ${run.user_id} gave up after ${run.attempts} attempts: ${error}`);
+        return;
+      }
+      run.status = status;
+      run.next_attempt_at = new Date(Date.now() + this.retryDelayMs(run.attempts)).toISOString();
+      console.log(`Morning briefing for ${run.user_id}: ${error}, retrying at ${run.next_attempt_at}`);
+    };
+
+    // fresh=1 so a retry sees sleep that synced since the last attempt
+    const result = await fetchFromFitbitApi("/summary/morning-report?fresh=1", run.user_id);
+    if (!result.success) {
+      retryLater("failed", result.error || "Morning report unavailable");
+      return;
+    }
+    const report = result.data as MorningReport;
+    if (!report.last_night_sleep) {
+      retryLater("waiting_for_sleep", "Last night's sleep hasn't synced yet");
+      return;
+    }
+
+    // Keep the written briefing, so delivery retries don't ask the coach again
+    if (!run.briefing) {
+      try {
+        // The model can answer with tool calls only, leaving nothing to send
+        const text = (await this.options.write(run.user_id, report)).trim();
+        if (!text) throw new Error("the coach wrote an empty briefing");
+        run.briefing = text;
+      } catch (e) {
+        retryLater("failed", `Writing the briefing failed: ${e instanceof Error ? e.message : e}`);
+        return;
+      }
+    }
+
+    const channels = createChannels(run.user_id);
+    const briefing: Briefing = { userId: run.user_id, date: report.date, text: run.briefing };
+    run.deliveries = await deliver(briefing, channels);
+
+    if (channels.length && !run.deliveries.some((d) => d.delivered)) {
+      retryLater("failed", "No channel delivered the briefing");
+      return;
+    }
+    run.status = "delivered";
+    run.next_attempt_at = null;
+    console.log(`Morning briefing for ${run.user_id} delivered via ${run.deliveries.map((d) => d.channel).join(", ") || "no channels"}`);
+  }
+}
+
+/**
+ * The prompt asking the coach to write a briefing from a report
+ */
+export function briefingPrompt(report: MorningReport): string {
+  return `Write my morning briefing for ${report.date}. It will be sent to me as a message, so:
+- Plain text, no markdown, at most 120 words
+- Lead with how recovered I am and what kind of training suits today
+- Mention last night's sleep and anything unusual in the insights
+- End with one concrete suggestion for today
+
+The morning report is below, so you don't need to fetch it again.
+
+${JSON.stringify(report)}`;
+}
@@ -0,0 +1,118 @@
+/**
+ * Streaming chat over Server-Sent Events.
+ * Events: text (partial text), tool_start, tool_end, done, error
+ */
+import { Response } from "express";
+import { Event, getFunctionCalls, getFunctionResponses } from "@google/adk";
+
+const SSE_HEARTBEAT_MS = 15000;
+
+// Tools that don't fetch data get their own label
+const TOOL_LABELS: Record<string, string> = {
+  remember_fact: "Saving to your profile…",
+  set_goal: "Saving your goal…",
+  get_user_profile: "Reading your profile…",
+};
+
+// "get_morning_report" -> "Fetching morning report…"
+function toolLabel(name: string): string {
+  return TOOL_LABELS[name] ?? `Fetching ${name.replace(/^get_/, "").replace(/_/g, " ")}…`;
+}
+
+/**
+ * Text the coach (author) wrote in an event
+ */
+export function coachText(event: Event, author: string): string {
+  if (event.author !== author || !event.content?.parts) return "";
+  let text = "";
+  for (const part of event.content.parts) {
+    if ("text" in part && part.text) {
+      text += part.text;
+    }
+  }
+  return text;
+}
+
+export interface ChatStream {
+  userId: string;
+  sessionId: string;
+  author: string; // The coach agent's name
+  run(): Promise<AsyncIterable<Event>>; // Starts the agent run, after the response headers are sent
+}
+
+/**
+ * Stream a chat run to the response as Server-Sent Events
+ */
+export async function streamChat(res: Response, chat: ChatStream): Promise<void> {
+  const { userId, sessionId, author } = chat;
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), SSE_HEARTBEAT_MS);
+
+  // Stop pulling events once the client goes away. ADK can't abort a run, so the step in flight
+  // finishes, and tool calls already stored in the session get their responses first: a call left
+  // without one would make the model reject the session's next turn.
+  let disconnected = false;
+  res.on("close", () => {
+    disconnected = true;
+    clearInterval(heartbeat);
+  });
+
+  try {
+    const events = await chat.run();
+
+    let responseText = "";
+    let streamedPartials = false;
+    const pendingCalls = new Set<string>();
+
+    for await (const event of events) {
+      for (const call of getFunctionCalls(event)) {
+        if (call.id) pendingCalls.add(call.id);
+        if (!disconnected) send("tool_start", { id: call.id, name: call.name, label: toolLabel(call.name || "") });
+      }
+      for (const response of getFunctionResponses(event)) {
+        if (response.id) pendingCalls.delete(response.id);
+        const result = response.response as { success?: boolean } | undefined;
+        if (!disconnected) send("tool_end", { id: response.id, name: response.name, success: result?.success !== false });
+      }
+      if (disconnected) {
+        if (!pendingCalls.size) break;
+        continue;
+      }
+
+      const text = coachText(event, author);
+      if (event.partial) {
+        if (text) send("text", { text });
+        streamedPartials = true;
+      } else if (text) {
+        // The complete text follows its partials; only send it when nothing was streamed
+        if (!streamedPartials) send("text", { text });
+        responseText += text;
+        streamedPartials = false;
+      }
+    }
+
+    if (disconnected) {
+      console.log(`Chat stream for ${userId}/${sessionId} cancelled by client`);
+      return;
+    }
+
+    send("done", { response: responseText, userId, sessionId });
+  } catch (error) {
+    console.error("Error running agent:", error);
+    if (!disconnected) send("error", { error: "Internal server error" });
+  } finally {
+    clearInterval(heartbeat);
+    res.end();
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * Delivery channels for the morning briefing: email over SMTP, a generic
+ * webhook and a Telegram-style bot API.
+ * Channels are configured from the environment; any variable can be set per
+ * user with a _<USER_ID> suffix (upper case, `-` as `_`), e.g. TELEGRAM_CHAT_ID_ALICE.
+ * Point them at the stand-ins in fake-delivery-server.ts for local testing.
+ */
+import nodemailer from "nodemailer";
+
+export interface Briefing {
+  userId: string;
+  date: string;
+  text: string;
+}
+
+export interface BriefingChannel {
+  readonly name: string;
+  send(briefing: Briefing): Promise<void>;
+}
+
+export interface DeliveryResult {
+  channel: string;
+  delivered: boolean;
+  attempts: number;
+  error?: string;
+}
+
+const SEND_ATTEMPTS = 3;
+const SEND_RETRY_BASE_MS = 1000;
+const SEND_TIMEOUT_MS = 15000;
+
+/**
+ * Read a setting for a user, preferring NAME_<USER_ID> over NAME.
+ * User IDs are normalized (see normalizeUserId), so no two share a suffix.
+ */
+export function envFor(name: string, userId: string): string | undefined {
+  const suffix = userId.toUpperCase().replace(/-/g, "_");
+  return process.env[`${name}_${suffix}`] || process.env[name];
+}
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    // Not the URL: bot APIs put the token in it
+    throw new Error(`Request failed with status ${response.status}`);
+  }
+  return response;
+}
+
+// =========================================================================
+// Channels
+// =========================================================================
+
+export class WebhookChannel implements BriefingChannel {
+  readonly name = "webhook";
+
+  constructor(private url: string, private secret?: string) {}
+
+  async send(briefing: Briefing): Promise<void> {
+    const headers: Record<string, string> = this.secret ? { Authorization: `Bearer ${this.secret}` } : {};
+    await postJson(this.url, { type: "morning_briefing", user_id: briefing.userId, date: briefing.date, text: briefing.text }, headers);
+  }
+}
+
+export class TelegramChannel implements BriefingChannel {
+  readonly name = "telegram";
+
+  constructor(
+    private botToken: string,
+    private chatId: string,
+    private apiBase = "https://api.telegram.org"
+  ) {}
+
+  async send(briefing: Briefing): Promise<void> {
+    const response = await postJson(`${this.apiBase}/bot${this.botToken}/sendMessage`, {
+      chat_id: this.chatId,
+      text: briefing.text,
+    });
+    // The Bot API reports some failures with a 200 and ok: false
+    const result = (await response.json()) as { ok?: boolean; description?: string };
+    if (!result.ok) {
+      throw new Error(`Telegram sendMessage failed: ${result.description || "unknown error"}`);
+    }
+  }
+}
+
+export interface EmailOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+  to: string;
+}
+
+export class EmailChannel implements BriefingChannel {
+  readonly name = "email";
+  private transport: nodemailer.Transporter;
+
+  constructor(private options: EmailOptions) {
+    this.transport = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+      connectionTimeout: SEND_TIMEOUT_MS,
+    });
+  }
+
+  async send(briefing: Briefing): Promise<void> {
+    await this.transport.sendMail({
+      from: this.options.from,
+      to: this.options.to,
+      subject: `Your morning briefing for ${briefing.date}`,
+      text: briefing.text,
+    });
+  }
+}
+
+/**
+ * Channels named in BRIEFING_CHANNELS (email, webhook, telegram) that are
+ * configured for this user; misconfigured channels are skipped with a warning
+ */
+export function createChannels(userId: string): BriefingChannel[] {
+  const names = (envFor("BRIEFING_CHANNELS", userId) || "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+  const channels: BriefingChannel[] = [];
+
+  for (const name of names) {
+    switch (name) {
+      case "webhook": {
+        const url = envFor("BRIEFING_WEBHOOK_URL", userId);
+        if (!url) {
+          console.warn(`Briefing webhook for ${userId} needs BRIEFING_WEBHOOK_URL`);
+          break;
+        }
+        channels.push(new WebhookChannel(url, envFor("BRIEFING_WEBHOOK_SECRET", userId)));
+        break;
+      }
+      case "telegram": {
+        const token = envFor("TELEGRAM_BOT_TOKEN", userId);
+        const chatId = envFor("TELEGRAM_CHAT_ID", userId);
+        if (!token || !chatId) {
+          console.warn(`Briefing telegram for ${userId} needs TELEGRAM_BOT_TOKEN and TELEGRAM_CHAT_ID`);
+          break;
+        }
+        channels.push(new TelegramChannel(token, chatId, envFor("TELEGRAM_API_URL", userId)));
+        break;
+      }
+      case "email": {
+        const host = envFor("SMTP_HOST", userId);
+        const to = envFor("BRIEFING_EMAIL_TO", userId);
+        if (!host || !to) {
+          console.warn(`Briefing email for ${userId} needs SMTP_HOST and BRIEFING_EMAIL_TO`);
+          break;
+        }
+        const port = parseInt(envFor("SMTP_PORT", userId) || "") || 587;
+        channels.push(
+          new EmailChannel({
+            host,
+            port,
+            secure: (envFor("SMTP_SECURE", userId) ?? String(port === 465)) === "true",
+            user: envFor("SMTP_USER", userId),
+            pass: envFor("SMTP_PASS", userId),
+            from: envFor("BRIEFING_EMAIL_FROM", userId) || "Fitness Coach <coach@localhost>",
+            to,
+          })
+        );
+        break;
+      }
+      default:
+        console.warn(`Unknown briefing channel "${name}"`);
+    }
+  }
+
+  return channels;
+}
+
+/**
+ * Send to every channel, retrying each with exponential backoff.
+ * One channel failing doesn't stop the others.
+ */
+export async function deliver(briefing: Briefing, channels: BriefingChannel[]): Promise<DeliveryResult[]> {
+  return Promise.all(
+    channels.map(async (channel) => {
+      let lastError = "";
+      for (let attempt = 1; attempt <= SEND_ATTEMPTS; attempt++) {
+        try {
+          await channel.send(briefing);
+          return { channel: channel.name, delivered: true, attempts: attempt };
+        } catch (e) {
+          lastError = e instanceof Error ? e.message : String(e);
+          console.log(`Briefing ${channel.name} delivery attempt ${attempt} failed:`, lastError);
+          if (attempt < SEND_ATTEMPTS) {
+            await new Promise((resolve) => setTimeout(resolve, SEND_RETRY_BASE_MS * 2 ** (attempt - 1)));
+          }
+        }
+      }
+      return { channel: channel.name, delivered: false, attempts: SEND_ATTEMPTS, error: lastError };
+    })
+  );
+}
@@ -0,0 +1,181 @@
+/**
+ * Local stand-ins for the briefing delivery channels, for tests.
+ * One HTTP server takes webhook posts (any path) and Telegram Bot API
+ * sendMessage calls; a minimal SMTP server accepts mail without auth or TLS.
+ * Point the channels at it with BRIEFING_WEBHOOK_URL, TELEGRAM_API_URL and
+ * SMTP_HOST/SMTP_PORT, or run it directly: tsx src/fake-delivery-server.ts
+ */
+import { createServer, IncomingMessage, Server } from "http";
+import { createServer as createTcpServer, Server as TcpServer, Socket } from "net";
+import { AddressInfo } from "net";
+import { pathToFileURL } from "url";
+
+export interface FakeDeliveryOptions {
+  failFirst?: number; // Reject this many requests per channel first, to exercise retries
+}
+
+export interface ReceivedMessage {
+  channel: "webhook" | "telegram" | "email";
+  received_at: string;
+  body: unknown; // JSON for webhook/telegram, { from, to, data } for email
+}
+
+export interface FakeDeliveryServer {
+  url: string; // Webhook and Telegram API base
+  webhookUrl: string;
+  smtpPort: number;
+  received: ReceivedMessage[];
+  close(): Promise<void>;
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Just enough SMTP for nodemailer: EHLO, MAIL, RCPT, DATA, RSET, NOOP, QUIT
+ */
+function handleSmtp(socket: Socket, onMail: (mail: { from: string; to: string[]; data: string }) => boolean): void {
+  let buffer = "";
+  let inData = false;
+  let mail = { from: "", to: [] as string[], data: "" };
+  const reply = (line: string) => socket.write(`${line}\r\n`);
+
+  reply("220 localhost fake SMTP ready");
+  socket.on("data", (chunk) => {
+    buffer += chunk.toString("utf-8");
+    let index: number;
+    while ((index = buffer.indexOf("\r\n")) >= 0) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+
+      if (inData) {
+        if (line === ".") {
+          inData = false;
+          reply(onMail(mail) ? "250 OK queued" : "451 Try again later");
+          mail = { from: "", to: [], data: "" };
+        } else {
+          mail.data += (line.startsWith("..") ? line.slice(1) : line) + "\n";
+        }
+        continue;
+      }
+
+      switch (line.slice(0, 4).toUpperCase()) {
+        case "EHLO":
+        case "HELO":
+          reply("250 localhost");
+          break;
+        case "MAIL":
+          mail.from = line.replace(/^MAIL FROM:\s*/i, "");
+          reply("250 OK");
+          break;
+        case "RCPT":
+          mail.to.push(line.replace(/^RCPT TO:\s*/i, ""));
+          reply("250 OK");
+          break;
+        case "DATA":
+          inData = true;
+          reply("354 End data with <CR><LF>.<CR><LF>");
+          break;
+        case "RSET":
+          mail = { from: "", to: [], data: "" };
+          reply("250 OK");
+          break;
+        case "NOOP":
+          reply("250 OK");
+          break;
+        case "QUIT":
+          reply("221 Bye");
+          socket.end();
+          break;
+        default:
+          reply("502 Command not implemented");
+      }
+    }
+  });
+  socket.on("error", () => { /* ignore */ });
+}
+
+export async function startFakeDeliveryServer(options: FakeDeliveryOptions = {}, port = 0, smtpPort = 0): Promise<FakeDeliveryServer> {
+  const received: ReceivedMessage[] = [];
+  const failures: Record<ReceivedMessage["channel"], number> = {
+    webhook: options.failFirst ?? 0,
+    telegram: options.failFirst ?? 0,
+    email: options.failFirst ?? 0,
+  };
+  const shouldFail = (channel: ReceivedMessage["channel"]) => failures[channel]-- > 0;
+  const record = (channel: ReceivedMessage["channel"], body: unknown) =>
+    received.push({ channel, received_at: new Date().toISOString(), body });
+
+  const server: Server = createServer(async (req, res) => {
+    const url = new URL(req.url || "/", "http://localhost");
+    const sendJson = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method === "GET" && url.pathname === "/received") {
+      return sendJson(200, received);
+    }
+    if (req.method !== "POST") {
+      return sendJson(405, { error: "method_not_allowed" });
+    }
+
+    const body = await readJson(req);
+    if (/^\/bot[^/]+\/sendMessage$/.test(url.pathname)) {
+      const message = body as { chat_id?: unknown; text?: unknown } | null;
+      if (!message?.chat_id || !message.text) {
+        return sendJson(400, { ok: false, error_code: 400, description: "Bad Request: chat_id and text are required" });
+      }
+      if (shouldFail("telegram")) {
+        return sendJson(429, { ok: false, error_code: 429, description: "Too Many Requests: retry after 1" });
+      }
+      record("telegram", message);
+      return sendJson(200, { ok: true, result: { message_id: received.length, chat: { id: message.chat_id }, text: message.text } });
+    }
+
+    if (shouldFail("webhook")) {
+      return sendJson(503, { error: "unavailable" });
+    }
+    record("webhook", body);
+    sendJson(200, { ok: true });
+  });
+
+  const smtp: TcpServer = createTcpServer((socket) =>
+    handleSmtp(socket, (mail) => {
+      if (shouldFail("email")) return false;
+      record("email", mail);
+      return true;
+    })
+  );
+
+  await new Promise<void>((resolve) => server.listen(port, "127.0.0.1", resolve));
+  await new Promise<void>((resolve) => smtp.listen(smtpPort, "127.0.0.1", resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url,
+    webhookUrl: `${url}/webhook`,
+    smtpPort: (smtp.address() as AddressInfo).port,
+    received,
+    close: async () => {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      await new Promise<void>((resolve) => smtp.close(() => resolve()));
+    },
+  };
+}
+
+// Run standalone: print the settings to point the agent at it
+if (import.meta.url === pathToFileURL(process.argv[1] || "").href) {
+  const fake = await startFakeDeliveryServer({}, parseInt(process.env.PORT || "") || 8025, parseInt(process.env.SMTP_PORT || "") || 2525);
+  console.log(`Fake delivery server on ${fake.url} (received messages at ${fake.url}/received)`);
+  console.log(`  BRIEFING_WEBHOOK_URL=${fake.webhookUrl}`);
+  console.log(`  TELEGRAM_API_URL=${fake.url} TELEGRAM_BOT_TOKEN=test TELEGRAM_CHAT_ID=1`);
+  console.log(`  SMTP_HOST=127.0.0.1 SMTP_PORT=${fake.smtpPort} SMTP_SECURE=false`);
+}
@@ -0,0 +1,270 @@
+/**
+ * Long-term coaching memory: facts and goals the user has shared, kept across
+ * sessions and injected into the coach's instruction.
+ * Profiles use the same backend as chat sessions (SESSION_STORE).
+ */
+import { mkdir } from "fs/promises";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+import { randomUUID } from "crypto";
+import type { DatabaseSync } from "node:sqlite";
+import type { Bucket } from "@google-cloud/storage";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const OUTPUT_DIR = join(__dirname, "..", "..", "..", "output");
+
+// Facts beyond this are dropped, so the instruction stays short
+export const MAX_FACTS = 50;
+
+// Kept over other facts when the profile is full
+const LASTING_CATEGORIES: FactCategory[] = ["injury", "health"];
+
+export const FACT_CATEGORIES = ["injury", "health", "preference", "schedule", "equipment", "other"] as const;
+export type FactCategory = (typeof FACT_CATEGORIES)[number];
+
+export const GOAL_STATUSES = ["active", "achieved", "abandoned"] as const;
+export type GoalStatus = (typeof GOAL_STATUSES)[number];
+
+export interface ProfileFact {
+  id: string;
+  category: FactCategory;
+  text: string;
+  created_at: string;
+}
+
+export interface Goal {
+  id: string;
+  description: string;
+  target_date: string | null; // YYYY-MM-DD
+  status: GoalStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface UserProfile {
+  user_id: string;
+  facts: ProfileFact[];
+  goals: Goal[];
+  updated_at: string | null;
+}
+
+export interface ProfileStore {
+  readonly name: string;
+  load(userId: string): Promise<UserProfile | null>;
+  save(profile: UserProfile): Promise<void>;
+}
+
+// =========================================================================
+// Stores
+// =========================================================================
+
+export class MemoryProfileStore implements ProfileStore {
+  readonly name = "memory";
+  private profiles = new Map<string, string>();
+
+  async load(userId: string): Promise<UserProfile | null> {
+    const data = this.profiles.get(userId);
+    return data ? (JSON.parse(data) as UserProfile) : null;
+  }
+
+  async save(profile: UserProfile): Promise<void> {
+    this.profiles.set(profile.user_id, JSON.stringify(profile));
+  }
+}
+
+export class SqliteProfileStore implements ProfileStore {
+  readonly name = "sqlite";
+  private db: Promise<DatabaseSync>;
+
+  constructor(path = join(OUTPUT_DIR, "sessions.db")) {
+    // node:sqlite is loaded lazily so other stores work on any Node version
+    this.db = (async () => {
+      await mkdir(dirname(path), { recursive: true });
+      const { DatabaseSync } = await import("node:sqlite");
+      const db = new DatabaseSync(path);
+      db.exec(`CREATE TABLE IF NOT EXISTS user_profiles (
+        user_id TEXT PRIMARY KEY,
+        data TEXT NOT NULL
+      )`);
+      return db;
+    })();
+  }
+
+  async load(userId: string): Promise<UserProfile | null> {
+    const db = await this.db;
+    const row = db.prepare("SELECT data FROM user_profiles WHERE user_id = ?").get(userId) as { data: string } | undefined;
+    return row ? (JSON.parse(row.data) as UserProfile) : null;
+  }
+
+  async save(profile: UserProfile): Promise<void> {
+    const db = await this.db;
+    db.prepare("INSERT OR REPLACE INTO user_profiles (user_id, data) VALUES (?, ?)").run(profile.user_id, JSON.stringify(profile));
+  }
+}
+
+export class GcsProfileStore implements ProfileStore {
+  readonly name = "gcs";
+  private bucket: Promise<Bucket>;
+
+  constructor(bucketName: string) {
+    this.bucket = (async () => {
+      const { Storage } = await import("@google-cloud/storage");
+      return new Storage().bucket(bucketName);
+    })();
+  }
+
+  private path(userId: string): string {
+    return `profiles/${encodeURIComponent(userId)}.json`;
+  }
+
+  async load(userId: string): Promise<UserProfile | null> {
+    const bucket = await this.bucket;
+    try {
+      const [data] = await bucket.file(this.path(userId)).download();
+      return JSON.parse(data.toString("utf-8")) as UserProfile;
+    } catch (e) {
+      if ((e as { code?: number }).code === 404) return null;
+      throw e;
+    }
+  }
+
+  async save(profile: UserProfile): Promise<void> {
+    const bucket = await this.bucket;
+    await bucket.file(this.path(profile.user_id)).save(JSON.stringify(profile), { contentType: "application/json" });
+  }
+}
+
+/**
+ * Create the store matching SESSION_STORE (sqlite, gcs or memory)
+ */
+export function createProfileStore(type = process.env.SESSION_STORE || "sqlite"): ProfileStore {
+  switch (type) {
+    case "memory":
+      return new MemoryProfileStore();
+    case "gcs":
+      if (!process.env.SESSION_BUCKET) throw new Error("SESSION_STORE=gcs requires SESSION_BUCKET");
+      return new GcsProfileStore(process.env.SESSION_BUCKET);
+    default:
+      return new SqliteProfileStore(process.env.SESSION_STORE_PATH);
+  }
+}
+
+let store: ProfileStore | null = null;
+
+function profileStore(): ProfileStore {
+  if (!store) store = createProfileStore();
+  return store;
+}
+
+// =========================================================================
+// Profile updates
+// =========================================================================
+
+function shortId(prefix: string): string {
+  return `${prefix}_${randomUUID().slice(0, 8)}`;
+}
+
+export async function getUserProfile(userId: string): Promise<UserProfile> {
+  return (await profileStore().load(userId)) ?? { user_id: userId, facts: [], goals: [], updated_at: null };
+}
+
+/**
+ * Facts to drop so at most MAX_FACTS remain: the oldest preferences, schedules and
+ * the like first, injuries and health conditions only once nothing else is left
+ */
+function factsOverLimit(facts: ProfileFact[]): ProfileFact[] {
+  const excess = facts.length - MAX_FACTS;
+  if (excess <= 0) return [];
+  const others = facts.filter((f) => !LASTING_CATEGORIES.includes(f.category));
+  const lasting = facts.filter((f) => LASTING_CATEGORIES.includes(f.category));
+  return [...others, ...lasting].slice(0, excess);
+}
+
+/**
+ * Save a fact, optionally replacing an outdated one (e.g. an injury that has healed).
+ * When the profile is full, the facts dropped to make room are returned so the coach can tell the user.
+ */
+export async function rememberFact(
+  userId: string,
+  category: FactCategory,
+  text: string,
+  replacesId?: string
+): Promise<{ fact: ProfileFact; replaced: ProfileFact | null; dropped: ProfileFact[] }> {
+  const profile = await getUserProfile(userId);
+  const now = new Date().toISOString();
+
+  const replaced = replacesId ? profile.facts.find((f) => f.id === replacesId) ?? null : null;
+  if (replacesId && !replaced) throw new Error(`No fact with id ${replacesId}`);
+
+  const fact: ProfileFact = { id: shortId("fact"), category, text, created_at: now };
+  const facts = [...profile.facts.filter((f) => f.id !== replacesId), fact];
+  const dropped = factsOverLimit(facts);
+  profile.facts = facts.filter((f) => !dropped.includes(f));
+  profile.updated_at = now;
+
+  await profileStore().save(profile);
+  return { fact, replaced, dropped };
+}
+
+/**
+ * Add a goal, or update one by id
+ */
+export async function setGoal(
+  userId: string,
+  update: { goal_id?: string; description?: string; target_date?: string | null; status?: GoalStatus }
+): Promise<Goal> {
+  const profile = await getUserProfile(userId);
+  const now = new Date().toISOString();
+
+  let goal: Goal;
+  if (update.goal_id) {
+    const existing = profile.goals.find((g) => g.id === update.goal_id);
+    if (!existing) throw new Error(`No goal with id ${update.goal_id}`);
+    goal = Object.assign(existing, {
+      description: update.description ?? existing.description,
+      target_date: update.target_date !== undefined ? update.target_date : existing.target_date,
+      status: update.status ?? existing.status,
+      updated_at: now,
+    });
+  } else {
+    if (!update.description) throw new Error("description is required for a new goal");
+    goal = {
+      id: shortId("goal"),
+      description: update.description,
+      target_date: update.target_date ?? null,
+      status: update.status ?? "active",
+      created_at: now,
+      updated_at: now,
+    };
+    profile.goals.push(goal);
+  }
+  profile.updated_at = now;
+
+  await profileStore().save(profile);
+  return goal;
+}
+
+/**
+ * The profile as an instruction section, or "" when nothing is known yet
+ */
+export function formatProfile(profile: UserProfile): string {
+  const goals = profile.goals.filter((g) => g.status === "active");
+  if (!goals.length && !profile.facts.length) return "";
+
+  const lines = ["## What You Know About This User", ""];
+  if (goals.length) {
+    lines.push("Active goals:");
+    for (const goal of goals) {
+      const target = goal.target_date ? `, target ${goal.target_date}` : "";
+      lines.push(`- ${goal.description} (${goal.id}${target})`);
+    }
+  }
+  if (profile.facts.length) {
+    if (goals.length) lines.push("");
+    lines.push("Facts:");
+    for (const fact of profile.facts) {
+      lines.push(`- [${fact.category}] ${fact.text} (${fact.id}, noted ${fact.created_at.slice(0, 10)})`);
+    }
+  }
+  return lines.join("\n");
+}
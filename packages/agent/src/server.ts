@@ -1,15 +1,21 @@
 import "dotenv/config";
 import express, { Request, Response } from "express";
-import { Runner, InMemorySessionService } from "@google/adk";
+import { Runner, StreamingMode, getFunctionCalls, Event } from "@google/adk";
 import { rootAgent } from "./index.js";
+import { PersistentSessionService, createSessionStore } from "./sessions.js";
+import { BriefingScheduler, MorningReport, briefingPrompt } from "./briefing.js";
+import { coachText, streamChat } from "./chat-stream.js";
+import { normalizeUserId } from "./tools.js";
 
 const app = express();
 app.use(express.json());
 
-// Initialize the runner with in-memory sessions
-const sessionService = new InMemorySessionService();
+const APP_NAME = "fitness_coach";
+
+// Sessions persist to the store selected by SESSION_STORE
+const sessionService = new PersistentSessionService(createSessionStore());
 const runner = new Runner({
-  appName: "fitness_coach",
+  appName: APP_NAME,
   agent: rootAgent,
   sessionService,
 });
@@ -19,35 +25,46 @@ app.get("/health", (_req: Request, res: Response) => {
   res.json({ status: "ok", agent: "fitness_coach" });
 });
 
+/**
+ * Validate a chat request body, replying with 400 when it's incomplete
+ */
+function parseChatRequest(req: Request, res: Response): { message: string; userId: string; sessionId: string } | null {
+  const { message, userId, sessionId = "default" } = req.body;
+
+  if (!message) {
+    res.status(400).json({ error: "message is required" });
+    return null;
+  }
+
+  if (!userId) {
+    res.status(400).json({ error: "userId is required" });
+    return null;
+  }
+
+  const normalizedUserId = normalizeUserId(userId);
+  if (!normalizedUserId) {
+    res.status(400).json({ error: "userId may only contain letters, digits and - (max 64)" });
+    return null;
+  }
+
+  return { message, userId: normalizedUserId, sessionId };
+}
+
+async function ensureSession(userId: string, sessionId: string): Promise<void> {
+  const session = await sessionService.getSession({ appName: APP_NAME, userId, sessionId });
+  if (!session) {
+    await sessionService.createSession({ appName: APP_NAME, userId, sessionId, state: {} });
+  }
+}
+
 // Chat endpoint
 app.post("/chat", async (req: Request, res: Response) => {
   try {
-    const { message, userId, sessionId = "default" } = req.body;
-
-    if (!message) {
-      res.status(400).json({ error: "message is required" });
-      return;
-    }
-
-    if (!userId) {
-      res.status(400).json({ error: "userId is required" });
-      return;
-    }
+    const chat = parseChatRequest(req, res);
+    if (!chat) return;
+    const { message, userId, sessionId } = chat;
 
-    // Ensure session exists
-    let session = await sessionService.getSession({
-      appName: "fitness_coach",
-      userId,
-      sessionId,
-    });
-    if (!session) {
-      session = await sessionService.createSession({
-        appName: "fitness_coach",
-        userId,
-        sessionId,
-        state: {},
-      });
-    }
+    await ensureSession(userId, sessionId);
 
     // Run the agent and collect all events
     const events = runner.runAsync({
@@ -62,14 +79,7 @@ app.post("/chat", async (req: Request, res: Response) => {
     // Collect the agent's response
     let responseText = "";
     for await (const event of events) {
-      // Look for the agent's final response
-      if (event.author === "fitness_coach" && event.content?.parts) {
-        for (const part of event.content.parts) {
-          if ("text" in part && part.text) {
-            responseText += part.text;
-          }
-        }
-      }
+      responseText += coachText(event, rootAgent.name);
     }
 
     res.json({
@@ -85,12 +95,38 @@ app.post("/chat", async (req: Request, res: Response) => {
   }
 });
 
+// Streaming chat endpoint (Server-Sent Events), see chat-stream.ts
+app.post("/chat/stream", async (req: Request, res: Response) => {
+  const chat = parseChatRequest(req, res);
+  if (!chat) return;
+  const { message, userId, sessionId } = chat;
+
+  await streamChat(res, {
+    userId,
+    sessionId,
+    author: rootAgent.name,
+    run: async () => {
+      await ensureSession(userId, sessionId);
+      return runner.runAsync({
+        userId,
+        sessionId,
+        newMessage: {
+          role: "user",
+          parts: [{ text: message }],
+        },
+        runConfig: { streamingMode: StreamingMode.SSE },
+      });
+    },
+  });
+});
+
 // List sessions (useful for debugging)
 app.get("/sessions/:userId", async (req: Request<{ userId: string }>, res: Response) => {
   try {
-    const { userId } = req.params;
+    // Sessions are stored under the lower case ID, see parseChatRequest
+    const userId = req.params.userId.toLowerCase();
     const sessions = await sessionService.listSessions({
-      appName: "fitness_coach",
+      appName: APP_NAME,
       userId,
     });
     res.json(sessions);
@@ -99,7 +135,138 @@ app.get("/sessions/:userId", async (req: Request<{ userId: string }>, res: Respo
   }
 });
 
+interface TranscriptEntry {
+  role: "user" | "coach" | "tool";
+  text?: string;
+  tool?: string;
+  timestamp: number;
+}
+
+/**
+ * User messages, coach replies and the tools called in between
+ */
+function transcriptOf(events: Event[]): TranscriptEntry[] {
+  const transcript: TranscriptEntry[] = [];
+  for (const event of events) {
+    if (event.author === "user") {
+      const text = (event.content?.parts || []).map((part) => part.text || "").join("");
+      if (text) transcript.push({ role: "user", text, timestamp: event.timestamp });
+      continue;
+    }
+    for (const call of getFunctionCalls(event)) {
+      transcript.push({ role: "tool", tool: call.name, timestamp: event.timestamp });
+    }
+    const text = coachText(event, rootAgent.name);
+    if (text) transcript.push({ role: "coach", text, timestamp: event.timestamp });
+  }
+  return transcript;
+}
+
+// Session transcript
+app.get("/sessions/:userId/:sessionId", async (req: Request<{ userId: string; sessionId: string }>, res: Response) => {
+  try {
+    const { sessionId } = req.params;
+    const userId = req.params.userId.toLowerCase();
+    const session = await sessionService.getSession({ appName: APP_NAME, userId, sessionId });
+    if (!session) {
+      res.status(404).json({ error: "Session not found" });
+      return;
+    }
+    res.json({
+      id: session.id,
+      userId: session.userId,
+      lastUpdateTime: session.lastUpdateTime,
+      transcript: transcriptOf(session.events),
+    });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to load session" });
+  }
+});
+
+// Delete a session
+app.delete("/sessions/:userId/:sessionId", async (req: Request<{ userId: string; sessionId: string }>, res: Response) => {
+  try {
+    const { sessionId } = req.params;
+    const userId = req.params.userId.toLowerCase();
+    const deleted = await sessionService.store.delete(APP_NAME, userId, sessionId);
+    if (!deleted) {
+      res.status(404).json({ error: "Session not found" });
+      return;
+    }
+    res.status(204).end();
+  } catch (error) {
+    res.status(500).json({ error: "Failed to delete session" });
+  }
+});
+
+/**
+ * Have the coach write a morning briefing, in its own session per day
+ */
+async function writeBriefing(userId: string, report: MorningReport): Promise<string> {
+  const sessionId = `briefing-${report.date}`;
+  await ensureSession(userId, sessionId);
+
+  const events = runner.runAsync({
+    userId,
+    sessionId,
+    newMessage: { role: "user", parts: [{ text: briefingPrompt(report) }] },
+  });
+
+  let text = "";
+  for await (const event of events) {
+    text += coachText(event, rootAgent.name);
+  }
+  return text.trim();
+}
+
+const BRIEFING_USERS = (process.env.BRIEFING_USERS || "")
+  .split(",")
+  .map((id) => id.trim())
+  .filter(Boolean)
+  .map((id) => {
+    const userId = normalizeUserId(id);
+    if (!userId) throw new Error(`Invalid user ID "${id}" in BRIEFING_USERS`);
+    return userId;
+  });
+const briefings = new BriefingScheduler({
+  userIds: BRIEFING_USERS,
+  write: writeBriefing,
+  sendAfter: process.env.BRIEFING_TIME,
+  maxAttempts: parseInt(process.env.BRIEFING_MAX_ATTEMPTS || "") || undefined,
+  retryBaseMinutes: parseFloat(process.env.BRIEFING_RETRY_MINUTES || "") || undefined,
+});
+
+// Send a morning briefing now, e.g. from Cloud Scheduler when the instance may be asleep
+app.post("/briefing/run", async (req: Request, res: Response) => {
+  try {
+    const { force = false } = req.body;
+    if (!req.body.userId) {
+      res.status(400).json({ error: "userId is required" });
+      return;
+    }
+    const userId = normalizeUserId(req.body.userId);
+    if (!userId) {
+      res.status(400).json({ error: "userId may only contain letters, digits and - (max 64)" });
+      return;
+    }
+    const run = await briefings.runNow(userId, force === true);
+    res.status(run.status === "delivered" ? 200 : 202).json(run);
+  } catch (error) {
+    console.error("Error running briefing:", error);
+    res.status(500).json({ error: "Failed to run briefing" });
+  }
+});
+
+// Today's scheduled briefings
+app.get("/briefing/status", (_req: Request, res: Response) => {
+  res.json({ users: BRIEFING_USERS, runs: briefings.status() });
+});
+
 const PORT = process.env.PORT || 8080;
 app.listen(PORT, () => {
   console.log(`Fitness coach agent running on port ${PORT}`);
 });
+
+if (BRIEFING_USERS.length) {
+  briefings.start();
+}
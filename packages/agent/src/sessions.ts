@@ -0,0 +1,333 @@
+/**
+ * Durable chat sessions behind ADK's session service interface.
+ * Sessions are saved whole after every event to a pluggable store: SQLite
+ * locally, a Cloud Storage bucket on Cloud Run, or memory for throwaway runs.
+ * Sessions idle for longer than the TTL are expired.
+ */
+import { mkdir } from "fs/promises";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+import type { DatabaseSync } from "node:sqlite";
+import type { Bucket } from "@google-cloud/storage";
+import { randomUUID } from "crypto";
+import {
+  BaseSessionService,
+  createSession,
+  Event,
+  Session,
+  ListSessionsResponse,
+  CreateSessionRequest,
+  GetSessionRequest,
+  ListSessionsRequest,
+  DeleteSessionRequest,
+  AppendEventRequest,
+} from "@google/adk";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const OUTPUT_DIR = join(__dirname, "..", "..", "..", "output");
+
+const DEFAULT_TTL_DAYS = 30;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface SessionSummary {
+  id: string;
+  lastUpdateTime: number;
+}
+
+export interface SessionStore {
+  readonly name: string;
+  load(appName: string, userId: string, sessionId: string): Promise<Session | null>;
+  save(session: Session): Promise<void>;
+  list(appName: string, userId: string): Promise<SessionSummary[]>;
+  delete(appName: string, userId: string, sessionId: string): Promise<boolean>;
+  // Delete sessions last updated before the cutoff (epoch ms), returning how many went
+  deleteExpired(appName: string, before: number): Promise<number>;
+}
+
+// =========================================================================
+// Stores
+// =========================================================================
+
+export class MemorySessionStore implements SessionStore {
+  readonly name = "memory";
+  private sessions = new Map<string, string>(); // Serialized, so callers never share objects
+
+  private key(appName: string, userId: string, sessionId: string): string {
+    return JSON.stringify([appName, userId, sessionId]);
+  }
+
+  async load(appName: string, userId: string, sessionId: string): Promise<Session | null> {
+    const data = this.sessions.get(this.key(appName, userId, sessionId));
+    return data ? (JSON.parse(data) as Session) : null;
+  }
+
+  async save(session: Session): Promise<void> {
+    this.sessions.set(this.key(session.appName, session.userId, session.id), JSON.stringify(session));
+  }
+
+  async list(appName: string, userId: string): Promise<SessionSummary[]> {
+    return [...this.sessions.values()]
+      .map((data) => JSON.parse(data) as Session)
+      .filter((s) => s.appName === appName && s.userId === userId)
+      .map((s) => ({ id: s.id, lastUpdateTime: s.lastUpdateTime }));
+  }
+
+  async delete(appName: string, userId: string, sessionId: string): Promise<boolean> {
+    return this.sessions.delete(this.key(appName, userId, sessionId));
+  }
+
+  async deleteExpired(appName: string, before: number): Promise<number> {
+    let deleted = 0;
+    for (const [key, data] of this.sessions) {
+      const session = JSON.parse(data) as Session;
+      if (session.appName === appName && session.lastUpdateTime < before) {
+        this.sessions.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+}
+
+export class SqliteSessionStore implements SessionStore {
+  readonly name = "sqlite";
+  private db: Promise<DatabaseSync>;
+
+  constructor(path = join(OUTPUT_DIR, "sessions.db")) {
+    // node:sqlite is loaded lazily so other stores work on any Node version
+    this.db = (async () => {
+      await mkdir(dirname(path), { recursive: true });
+      const { DatabaseSync } = await import("node:sqlite");
+      const db = new DatabaseSync(path);
+      db.exec(`CREATE TABLE IF NOT EXISTS sessions (
+        app_name TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        id TEXT NOT NULL,
+        data TEXT NOT NULL,
+        last_update_time INTEGER NOT NULL,
+        PRIMARY KEY (app_name, user_id, id)
+      )`);
+      return db;
+    })();
+  }
+
+  async load(appName: string, userId: string, sessionId: string): Promise<Session | null> {
+    const db = await this.db;
+    const row = db
+      .prepare("SELECT data FROM sessions WHERE app_name = ? AND user_id = ? AND id = ?")
+      .get(appName, userId, sessionId) as { data: string } | undefined;
+    return row ? (JSON.parse(row.data) as Session) : null;
+  }
+
+  async save(session: Session): Promise<void> {
+    const db = await this.db;
+    db.prepare("INSERT OR REPLACE INTO sessions (app_name, user_id, id, data, last_update_time) VALUES (?, ?, ?, ?, ?)")
+      .run(session.appName, session.userId, session.id, JSON.stringify(session), session.lastUpdateTime);
+  }
+
+  async list(appName: string, userId: string): Promise<SessionSummary[]> {
+    const db = await this.db;
+    const rows = db
+      .prepare("SELECT id, last_update_time FROM sessions WHERE app_name = ? AND user_id = ? ORDER BY last_update_time DESC")
+      .all(appName, userId) as Array<{ id: string; last_update_time: number }>;
+    return rows.map((row) => ({ id: row.id, lastUpdateTime: row.last_update_time }));
+  }
+
+  async delete(appName: string, userId: string, sessionId: string): Promise<boolean> {
+    const db = await this.db;
+    const result = db
+      .prepare("DELETE FROM sessions WHERE app_name = ? AND user_id = ? AND id = ?")
+      .run(appName, userId, sessionId);
+    return Number(result.changes) > 0;
+  }
+
+  async deleteExpired(appName: string, before: number): Promise<number> {
+    const db = await this.db;
+    const result = db.prepare("DELETE FROM sessions WHERE app_name = ? AND last_update_time < ?").run(appName, before);
+    return Number(result.changes);
+  }
+}
+
+/**
+ * One JSON object per session at <appName>/<userId>/<sessionId>.json, with the IDs URI-encoded.
+ * Cloud Run instances share the bucket, so sessions survive cold starts and redeploys.
+ */
+export class GcsSessionStore implements SessionStore {
+  readonly name = "gcs";
+  private bucket: Promise<Bucket>;
+
+  constructor(bucketName: string) {
+    this.bucket = (async () => {
+      const { Storage } = await import("@google-cloud/storage");
+      return new Storage().bucket(bucketName);
+    })();
+  }
+
+  private prefix(appName: string, userId: string): string {
+    return `${appName}/${encodeURIComponent(userId)}/`;
+  }
+
+  private path(appName: string, userId: string, sessionId: string): string {
+    return `${this.prefix(appName, userId)}${encodeURIComponent(sessionId)}.json`;
+  }
+
+  async load(appName: string, userId: string, sessionId: string): Promise<Session | null> {
+    const bucket = await this.bucket;
+    try {
+      const [data] = await bucket.file(this.path(appName, userId, sessionId)).download();
+      return JSON.parse(data.toString("utf-8")) as Session;
+    } catch (e) {
+      if ((e as { code?: number }).code === 404) return null;
+      throw e;
+    }
+  }
+
+  async save(session: Session): Promise<void> {
+    const bucket = await this.bucket;
+    await bucket.file(this.path(session.appName, session.userId, session.id)).save(JSON.stringify(session), {
+      contentType: "application/json",
+      metadata: { metadata: { lastUpdateTime: String(session.lastUpdateTime) } },
+    });
+  }
+
+  async list(appName: string, userId: string): Promise<SessionSummary[]> {
+    const bucket = await this.bucket;
+    const prefix = this.prefix(appName, userId);
+    const [files] = await bucket.getFiles({ prefix });
+    return files.map((file) => ({
+      id: decodeURIComponent(file.name.slice(prefix.length).replace(/\.json$/, "")),
+      lastUpdateTime: Number(file.metadata.metadata?.lastUpdateTime) || Date.parse(String(file.metadata.updated)),
+    }));
+  }
+
+  async delete(appName: string, userId: string, sessionId: string): Promise<boolean> {
+    const bucket = await this.bucket;
+    const file = bucket.file(this.path(appName, userId, sessionId));
+    const [exists] = await file.exists();
+    if (exists) await file.delete({ ignoreNotFound: true });
+    return exists;
+  }
+
+  async deleteExpired(appName: string, before: number): Promise<number> {
+    const bucket = await this.bucket;
+    const [files] = await bucket.getFiles({ prefix: `${appName}/` });
+    let deleted = 0;
+    for (const file of files) {
+      const updated = Number(file.metadata.metadata?.lastUpdateTime) || Date.parse(String(file.metadata.updated));
+      if (updated < before) {
+        await file.delete({ ignoreNotFound: true });
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+}
+
+/**
+ * Create the store selected by SESSION_STORE (sqlite, gcs or memory)
+ */
+export function createSessionStore(type = process.env.SESSION_STORE || "sqlite"): SessionStore {
+  switch (type) {
+    case "memory":
+      return new MemorySessionStore();
+    case "sqlite":
+      return new SqliteSessionStore(process.env.SESSION_STORE_PATH);
+    case "gcs":
+      if (!process.env.SESSION_BUCKET) throw new Error("SESSION_STORE=gcs requires SESSION_BUCKET");
+      return new GcsSessionStore(process.env.SESSION_BUCKET);
+    default:
+      console.warn(`Unknown SESSION_STORE "${type}", falling back to sqlite`);
+      return new SqliteSessionStore(process.env.SESSION_STORE_PATH);
+  }
+}
+
+// =========================================================================
+// Session service
+// =========================================================================
+
+function ttlFromEnv(): number {
+  const days = parseFloat(process.env.SESSION_TTL_DAYS || "");
+  return (Number.isNaN(days) ? DEFAULT_TTL_DAYS : days) * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * ADK session service persisting to a SessionStore.
+ * State is kept per session; app:/user: prefixed keys aren't shared across sessions.
+ */
+export class PersistentSessionService extends BaseSessionService {
+  private lastPrune = 0;
+
+  // ttlMs of 0 keeps sessions forever
+  constructor(readonly store: SessionStore, readonly ttlMs = ttlFromEnv()) {
+    super();
+  }
+
+  private isExpired(lastUpdateTime: number): boolean {
+    return this.ttlMs > 0 && lastUpdateTime < Date.now() - this.ttlMs;
+  }
+
+  // Sweep expired sessions at most once an hour; reads check expiry themselves
+  private pruneExpired(appName: string): void {
+    if (this.ttlMs <= 0 || Date.now() - this.lastPrune < PRUNE_INTERVAL_MS) return;
+    this.lastPrune = Date.now();
+    this.store
+      .deleteExpired(appName, Date.now() - this.ttlMs)
+      .then((deleted) => {
+        if (deleted) console.log(`Expired ${deleted} chat sessions`);
+      })
+      .catch((e) => console.log("Session expiry failed:", e));
+  }
+
+  async createSession({ appName, userId, state, sessionId }: CreateSessionRequest): Promise<Session> {
+    this.pruneExpired(appName);
+    const session = createSession({
+      id: sessionId || randomUUID(),
+      appName,
+      userId,
+      state: state || {},
+      events: [],
+      lastUpdateTime: Date.now(),
+    });
+    await this.store.save(session);
+    return session;
+  }
+
+  async getSession({ appName, userId, sessionId, config }: GetSessionRequest): Promise<Session | undefined> {
+    const session = await this.store.load(appName, userId, sessionId);
+    if (!session) return undefined;
+    if (this.isExpired(session.lastUpdateTime)) {
+      await this.store.delete(appName, userId, sessionId);
+      return undefined;
+    }
+
+    if (config?.numRecentEvents) {
+      session.events = session.events.slice(-config.numRecentEvents);
+    }
+    if (config?.afterTimestamp) {
+      session.events = session.events.filter((event) => event.timestamp >= config.afterTimestamp!);
+    }
+    return session;
+  }
+
+  async listSessions({ appName, userId }: ListSessionsRequest): Promise<ListSessionsResponse> {
+    const summaries = await this.store.list(appName, userId);
+    return {
+      sessions: summaries
+        .filter((s) => !this.isExpired(s.lastUpdateTime))
+        .map((s) => createSession({ id: s.id, appName, userId, state: {}, events: [], lastUpdateTime: s.lastUpdateTime })),
+    };
+  }
+
+  async deleteSession({ appName, userId, sessionId }: DeleteSessionRequest): Promise<void> {
+    await this.store.delete(appName, userId, sessionId);
+  }
+
+  async appendEvent({ session, event }: AppendEventRequest): Promise<Event> {
+    await super.appendEvent({ session, event });
+    if (event.partial) return event;
+
+    session.lastUpdateTime = event.timestamp;
+    await this.store.save(session);
+    return event;
+  }
+}
@@ -1,5 +1,6 @@
-import { FunctionTool } from "@google/adk";
+import { FunctionTool, ToolContext } from "@google/adk";
 import { z } from "zod";
+import * as profile from "./profile.js";
 
 const FITBIT_API_BASE =
   process.env.FITBIT_API_URL ||
@@ -9,31 +10,72 @@ const FITBIT_API_KEY = process.env.FITBIT_API_KEY;
 
 /**
  * Get headers for Fitbit API requests.
+ * The user ID selects whose Fitbit data the API reads.
  */
-function getApiHeaders(): HeadersInit {
-  const headers: HeadersInit = {
+function getApiHeaders(userId?: string): HeadersInit {
+  const headers: Record<string, string> = {
     "Content-Type": "application/json",
   };
   if (FITBIT_API_KEY) {
     headers["X-API-Key"] = FITBIT_API_KEY;
   }
+  if (userId) {
+    headers["X-User-Id"] = userId;
+  }
   return headers;
 }
 
 const FETCH_TIMEOUT_MS = 30000;
 
+// As the API accepts them: lower case, with - but not _, so each ID has its own NAME_<USER_ID> env vars
+const USER_ID_PATTERN = /^[a-z0-9-]{1,64}$/;
+
+/**
+ * A user ID in the lower case form the API uses, or null when the API would reject it.
+ */
+export function normalizeUserId(userId: unknown): string | null {
+  const normalized = String(userId).toLowerCase();
+  return USER_ID_PATTERN.test(normalized) ? normalized : null;
+}
+
+/**
+ * The chat user whose data a tool call should read.
+ */
+function userIdOf(toolContext?: ToolContext): string | undefined {
+  return toolContext?.invocationContext.userId;
+}
+
+/**
+ * Append the query parameters that are set to an endpoint path.
+ */
+function withQuery(endpoint: string, params: Record<string, string | number | undefined>): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) query.set(key, String(value));
+  }
+  const queryString = query.toString();
+  return queryString ? `${endpoint}${endpoint.includes("?") ? "&" : "?"}${queryString}` : endpoint;
+}
+
+const dateParam = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/)
+  .optional()
+  .describe("Date as YYYY-MM-DD, for looking at a past day (default today)");
+
 /**
  * Fetch from Fitbit API with timeout and consistent error handling.
  */
-async function fetchFromFitbitApi(
-  endpoint: string
+export async function fetchFromFitbitApi(
+  endpoint: string,
+  userId?: string
 ): Promise<{ success: boolean; data?: unknown; error?: string }> {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
 
   try {
     const response = await fetch(`${FITBIT_API_BASE}${endpoint}`, {
-      headers: getApiHeaders(),
+      headers: getApiHeaders(userId),
       signal: controller.signal,
     });
     clearTimeout(timeoutId);
@@ -70,6 +112,14 @@ async function fetchFromFitbitApi(
   }
 }
 
+/**
+ * The user's timezone as the API resolves it (settings, Fitbit profile or its default), or null if unavailable
+ */
+export async function fetchUserTimeZone(userId: string): Promise<string | null> {
+  const result = await fetchFromFitbitApi("/settings", userId);
+  return (result.data as { timezone?: { timezone?: string } } | undefined)?.timezone?.timezone || null;
+}
+
 /**
  * Fetch morning report with sleep, activity, recovery, and trends.
  * This is the primary data source for coaching insights.
@@ -82,6 +132,8 @@ export const getMorningReport = new FunctionTool({
 - Duration in hours, efficiency percentage
 - Sleep stages with percentages (deep_percent, light_percent, rem_percent)
 - Comparison to 7-day average (duration_diff_hours, efficiency_diff)
+- segments > 1 when the night was split by a long awakening
+- yesterday_sleep: yesterday's naps (nap_count, nap_minutes) and total_hours of sleep
 
 **Activity (yesterday):**
 - Steps, calories, distance
@@ -93,9 +145,9 @@ export const getMorningReport = new FunctionTool({
 - Resting heart rate (resting_heart_rate field)
 - SpO2 (avg, min, max), breathing rate, skin temperature
 
-**Exercise (recent):**
-- Yesterday's workouts with intensity classification (low/moderate/high)
-- Past week count, total minutes, total calories
+**Exercise (exercise_summary):**
+- yesterday: workouts with intensity classification (low/moderate/high)
+- past_week: count, total_minutes, total_calories, total_active_zone_minutes, by_intensity
 
 **Trends (7-day):**
 - Averages for sleep duration, efficiency, steps, HRV, resting HR
@@ -104,9 +156,12 @@ export const getMorningReport = new FunctionTool({
 **Insights:**
 - Pre-computed observations about current vs baseline values
 
+Pass date to get the report as it would have looked on a past morning.
+
 Use this tool to get the full picture of the user's health status for coaching.`,
-  parameters: z.object({}),
-  execute: async () => fetchFromFitbitApi("/summary/morning-report"),
+  parameters: z.object({ date: dateParam }),
+  execute: async (input, toolContext) =>
+    fetchFromFitbitApi(withQuery("/summary/morning-report", { date: input.date }), userIdOf(toolContext)),
 });
 
 /**
@@ -115,14 +170,21 @@ Use this tool to get the full picture of the user's health status for coaching.`
 export const getWeeklySummary = new FunctionTool({
   name: "get_weekly_summary",
   description: `Fetches 7-day summary with trends for weekly check-ins. Includes:
-- Sleep history with averages
-- Activity history with step and calorie trends
-- Resting heart rate history
-- HRV history
+- Per-day records (days): sleep_hours, sleep_efficiency, steps, calories_out, active_zone_minutes, resting_hr, hrv_rmssd
+- Weekly averages and totals (steps, calories_out, active_zone_minutes)
+- Week-over-week comparison (week_over_week: current, previous, change, change_percent per metric)
+- Best and worst day per metric (best_days, worst_days) - for resting_hr lower is better
 
-Use this for weekly coaching reviews or when user asks about their week.`,
-  parameters: z.object({}),
-  execute: async () => fetchFromFitbitApi("/summary/week"),
+Use this for weekly coaching reviews or when user asks about their week. Pass end to review an earlier week, such as a past training block.`,
+  parameters: z.object({
+    end: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/)
+      .optional()
+      .describe("Last day of the week as YYYY-MM-DD (default yesterday)"),
+  }),
+  execute: async (input, toolContext) =>
+    fetchFromFitbitApi(withQuery("/summary/week", { end: input.end }), userIdOf(toolContext)),
 });
 
 /**
@@ -136,11 +198,14 @@ export const getLastNightSleep = new FunctionTool({
 - Time in bed vs time asleep (minutes_asleep, time_in_bed_minutes)
 - Sleep stages with percentages (deep, deep_percent, light, light_percent, rem, rem_percent, wake)
 - Time to fall asleep, minutes awake
+- segments: more than 1 when the night was split into several periods
+- naps and nap_minutes for the day, and total_sleep_hours including naps
 - Comparison insights to historical baseline
 
-Use when user asks specifically about their sleep.`,
-  parameters: z.object({}),
-  execute: async () => fetchFromFitbitApi("/sleep/last-night"),
+Use when user asks specifically about their sleep. Pass date for the night ending on that morning, e.g. "how did I sleep last Tuesday?".`,
+  parameters: z.object({ date: dateParam }),
+  execute: async (input, toolContext) =>
+    fetchFromFitbitApi(withQuery("/sleep/last-night", { date: input.date }), userIdOf(toolContext)),
 });
 
 /**
@@ -159,13 +224,194 @@ Note: vs_baseline_percent shows how today's HRV compares to 7-day average.
 Negative means lower than usual, positive means higher than usual.
 
 Use when user asks about recovery, readiness, or HRV specifically.`,
+  parameters: z.object({ date: dateParam }),
+  execute: async (input, toolContext) =>
+    fetchFromFitbitApi(withQuery("/recovery/today", { date: input.date }), userIdOf(toolContext)),
+});
+
+/**
+ * Get today's readiness score.
+ */
+export const getReadinessScore = new FunctionTool({
+  name: "get_readiness_score",
+  description: `Fetches today's deterministic readiness score (0-100) including:
+- score and recommended_training_load (high, moderate, light or rest)
+- Per-component breakdown (components.hrv, resting_hr, sleep, temperature), each with value, personal baseline (28-day rolling average), percent_difference, score and note
+- rationale: the reasons behind the score, including any rest-day override
+- missing_components: signals without data today (score is re-weighted without them)
+
+Use this for "should I train today?" questions. Base training advice on recommended_training_load rather than re-deriving it.`,
+  parameters: z.object({ date: dateParam }),
+  execute: async (input, toolContext) =>
+    fetchFromFitbitApi(withQuery("/recovery/readiness", { date: input.date }), userIdOf(toolContext)),
+});
+
+/**
+ * Get multi-signal illness and overreaching warnings.
+ */
+export const getRecoveryAlerts = new FunctionTool({
+  name: "get_recovery_alerts",
+  description: `Checks last night's skin temperature, resting HR, HRV, breathing rate and SpO2 against the user's 28-day baselines and flags when several move the wrong way together (warmer skin, higher resting HR, lower HRV), which often comes before illness or from accumulated fatigue. Returns:
+- severity: none, info (one signal off, often noise), warning or alert
+- recommendation: consider_resting, monitor or null, with a message
+- contributing_signals and per-signal detail (value, baseline, change, z_score, note)
+- consecutive_days: nights in a row with a warning or alert; recent_days: the last 3 nights
+
+Use with the readiness score before recommending training, and whenever the user mentions feeling run down or unwell.`,
+  parameters: z.object({ date: dateParam }),
+  execute: async (input, toolContext) =>
+    fetchFromFitbitApi(withQuery("/recovery/alerts", { date: input.date }), userIdOf(toolContext)),
+});
+
+/**
+ * Get recent workouts with intensity.
+ */
+export const getRecentExercises = new FunctionTool({
+  name: "get_recent_exercises",
+  description: `Fetches logged and auto-detected workouts for the last N days (default 7, max 30) or a start/end range, newest first. Each exercise includes:
+- name, date, start_time, duration_minutes, active_minutes, calories, average_heart_rate, steps, distance_km
+- heart_rate_zones (minutes in out_of_range, fat_burn, cardio, peak) and active_zone_minutes
+- intensity (low, moderate or high) with intensity_reasons explaining the classification
+
+Also returns a summary: count, total_minutes, total_calories, total_active_zone_minutes and by_intensity.
+
+Use when the user asks about their workouts, training history or how hard a session was.`,
+  parameters: z.object({
+    days: z.number().int().min(1).max(30).optional().describe("Number of days to look back (default 7)"),
+    start: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe("First day as YYYY-MM-DD, instead of days"),
+    end: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe("Last day as YYYY-MM-DD (default today)"),
+  }),
+  execute: async (input, toolContext) =>
+    fetchFromFitbitApi(
+      withQuery("/activity/exercises", { days: input.days, start: input.start, end: input.end }),
+      userIdOf(toolContext)
+    ),
+});
+
+/**
+ * Run a profile read or update, reporting failures the same way as API fetches.
+ */
+async function fromProfile(update: () => Promise<unknown>): Promise<{ success: boolean; data?: unknown; error?: string }> {
+  try {
+    return { success: true, data: await update() };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Save something the user told the coach for later sessions.
+ */
+export const rememberFact = new FunctionTool({
+  name: "remember_fact",
+  description: `Saves a lasting fact about the user to their profile so future conversations can build on it, e.g. an injury ("sore left knee since October"), a preference ("dislikes workouts before 7am"), their schedule, equipment or health conditions.
+
+Only save facts that will still matter in later sessions, not today's mood or one-off plans. When a fact changes (the knee has healed, a new preference), pass replaces with the old fact's id instead of adding a contradicting one.
+
+The profile keeps at most ${profile.MAX_FACTS} facts. When it's full, the oldest facts other than injuries and health conditions make room first; any fact dropped is listed in dropped, so tell the user what was forgotten.`,
+  parameters: z.object({
+    category: z.enum(profile.FACT_CATEGORIES).describe("Kind of fact"),
+    fact: z.string().min(1).max(500).describe("The fact in one short sentence"),
+    replaces: z.string().optional().describe("Id of an outdated fact this one replaces"),
+  }),
+  execute: async (input, toolContext) =>
+    fromProfile(() => profile.rememberFact(userIdOf(toolContext) || "default", input.category, input.fact, input.replaces)),
+});
+
+/**
+ * Read the user's saved goals and facts.
+ */
+export const getUserProfile = new FunctionTool({
+  name: "get_user_profile",
+  description: `Fetches the user's saved profile: goals (description, target_date, status active/achieved/abandoned) and facts (category, text, when it was noted), including achieved and abandoned goals.
+
+Active goals and facts are already listed in your instructions; use this for the full history or ids of older goals.`,
   parameters: z.object({}),
-  execute: async () => fetchFromFitbitApi("/recovery/today"),
+  execute: async (_input, toolContext) => fromProfile(() => profile.getUserProfile(userIdOf(toolContext) || "default")),
+});
+
+/**
+ * Add or update a training goal.
+ */
+export const setGoal = new FunctionTool({
+  name: "set_goal",
+  description: `Adds a training goal to the user's profile, e.g. "run a marathon" with a target date, or updates an existing goal by goal_id (new target date, or status achieved/abandoned).
+
+Use when the user states a goal or its status changes. Plan advice around active goals and their target dates.`,
+  parameters: z.object({
+    goal_id: z.string().optional().describe("Id of an existing goal to update; omit to add a new goal"),
+    description: z.string().min(1).max(500).optional().describe("The goal, required for a new goal"),
+    target_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe("Target date as YYYY-MM-DD"),
+    status: z.enum(profile.GOAL_STATUSES).optional().describe("Goal status (default active)"),
+  }),
+  execute: async (input, toolContext) => fromProfile(() => profile.setGoal(userIdOf(toolContext) || "default", input)),
+});
+
+/**
+ * Get training load trends.
+ */
+export const getTrainingLoad = new FunctionTool({
+  name: "get_training_load",
+  description: `Fetches daily training load for the last N days (default 28, max 60) or a start/end range. Load is heart rate zone minutes weighted by zone (fat burn 1, cardio 3, peak 5 per minute), falling back to Active Zone Minutes, plus workouts logged without heart rate. Returns:
+- latest: acute_load (7-day daily average), chronic_load (28-day), acwr, weekly_load, monotony, strain
+- latest.acwr_status: spike (>= 1.5, injury risk), elevated (>= 1.3), optimal (0.8-1.3) or detraining (< 0.8), with notes
+- latest.high_monotony: very uniform training (monotony > 2)
+- records: the same metrics per day, newest first, with the day's exercises
+
+Use for questions about training volume, build-ups, tapering, or whether they're doing too much or too little.`,
+  parameters: z.object({
+    days: z.number().int().min(1).max(60).optional().describe("Number of days to report (default 28)"),
+    start: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe("First day as YYYY-MM-DD, instead of days"),
+    end: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe("Last day as YYYY-MM-DD (default yesterday)"),
+  }),
+  execute: async (input, toolContext) =>
+    fetchFromFitbitApi(
+      withQuery("/training/load", { days: input.days, start: input.start, end: input.end }),
+      userIdOf(toolContext)
+    ),
+});
+
+/**
+ * Get sleep timing consistency and sleep debt.
+ */
+export const getSleepConsistency = new FunctionTool({
+  name: "get_sleep_consistency",
+  description: `Fetches sleep timing patterns over the last N days (default 28) or a start/end range, from main sleeps. Returns:
+- bedtime, wake_time, midpoint: average clock time (HH:MM) and sd_minutes night to night
+- sleep_regularity_index: 0-100, higher is more regular; below 60 is irregular
+- social_jet_lag_hours: how far weekend sleep shifts from weekdays
+- sleep_debt: hours short of their sleep need (sleep_need_hours) over the last 7 and 14 days, naps included; nights with no sleep recorded aren't counted but reported as last_7_days_missing_nights/last_14_days_missing_nights, so mention them instead of calling the debt complete
+- chronotype.category: early, intermediate or late, with the corrected free-day sleep midpoint
+- notes, and records per night newest first (bedtime, wake_time, duration_hours, is_free_day)
+
+Use for bedtime suggestions, "am I sleeping enough?", irregular schedules, or weekend lie-ins.`,
+  parameters: z.object({
+    days: z.number().int().min(1).max(90).optional().describe("Number of days to analyze (default 28)"),
+    start: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe("First day as YYYY-MM-DD, instead of days"),
+    end: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe("Last day as YYYY-MM-DD (default yesterday)"),
+    sleep_need: z.number().min(4).max(12).optional().describe("Sleep need in hours, if the user states one (default from their settings, else 8)"),
+  }),
+  execute: async (input, toolContext) =>
+    fetchFromFitbitApi(
+      withQuery("/sleep/consistency", { days: input.days, start: input.start, end: input.end, sleep_need: input.sleep_need }),
+      userIdOf(toolContext)
+    ),
 });
 
 export const allTools = [
   getMorningReport,
   getWeeklySummary,
   getLastNightSleep,
+  getSleepConsistency,
   getRecoveryMetrics,
+  getReadinessScore,
+  getRecoveryAlerts,
+  getRecentExercises,
+  getTrainingLoad,
+  rememberFact,
+  getUserProfile,
+  setGoal,
 ];
@@ -0,0 +1,187 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { FakeDeliveryServer, startFakeDeliveryServer } from "../src/fake-delivery-server.js";
+import type { MorningReport } from "../src/briefing.js";
+
+const DATE = "2025-06-18";
+
+// Loaded once the stub API's URL is in the environment, which tools.ts reads on import
+let briefing: typeof import("../src/briefing.js");
+let delivery: typeof import("../src/delivery.js");
+
+let fake: FakeDeliveryServer;
+let apiServer: Server;
+// Users whose sleep has synced, so their morning report has last night's sleep
+const synced = new Set<string>();
+
+before(async () => {
+  apiServer = createServer((req, res) => {
+    const userId = String(req.headers["x-user-id"]);
+    res.writeHead(200, { "Content-Type": "application/json" });
+    if (req.url?.startsWith("/settings")) {
+      res.end(JSON.stringify({ timezone: { timezone: "UTC", source: "settings" } }));
+      return;
+    }
+    res.end(JSON.stringify({ date: DATE, last_night_sleep: synced.has(userId) ? { duration_hours: 7.5 } : null }));
+  });
+  await new Promise<void>((resolve) => apiServer.listen(0, "127.0.0.1", resolve));
+  process.env.FITBIT_API_URL = `http://127.0.0.1:${(apiServer.address() as AddressInfo).port}`;
+
+  fake = await startFakeDeliveryServer();
+  Object.assign(process.env, {
+    BRIEFING_CHANNELS: "webhook",
+    BRIEFING_WEBHOOK_URL: fake.webhookUrl,
+    BRIEFING_CHANNELS_ALICE: "webhook,telegram,email",
+    TELEGRAM_API_URL: fake.url,
+    TELEGRAM_BOT_TOKEN: "test",
+    TELEGRAM_CHAT_ID: "42",
+    SMTP_HOST: "127.0.0.1",
+    SMTP_PORT: String(fake.smtpPort),
+    SMTP_SECURE: "false",
+    BRIEFING_EMAIL_TO: "alice@example.com",
+  });
+
+  briefing = await import("../src/briefing.js");
+  delivery = await import("../src/delivery.js");
+});
+
+after(async () => {
+  await fake.close();
+  await new Promise<void>((resolve) => apiServer.close(() => resolve()));
+});
+
+function webhooksFor(userId: string): Array<{ user_id: string; text: string }> {
+  return fake.received
+    .filter((m) => m.channel === "webhook")
+    .map((m) => m.body as { user_id: string; text: string })
+    .filter((body) => body.user_id === userId);
+}
+
+describe("deliver", () => {
+  it("sends the briefing to the webhook, Telegram and email stand-ins", async () => {
+    const channels = delivery.createChannels("alice");
+    assert.deepEqual(channels.map((c) => c.name), ["webhook", "telegram", "email"]);
+
+    const results = await delivery.deliver({ userId: "alice", date: DATE, text: "Good morning" }, channels);
+    assert.deepEqual(results, [
+      { channel: "webhook", delivered: true, attempts: 1 },
+      { channel: "telegram", delivered: true, attempts: 1 },
+      { channel: "email", delivered: true, attempts: 1 },
+    ]);
+
+    assert.deepEqual(webhooksFor("alice"), [{ type: "morning_briefing", user_id: "alice", date: DATE, text: "Good morning" }]);
+    assert.ok(fake.received.some((m) => m.channel === "telegram" && JSON.stringify(m.body) === JSON.stringify({ chat_id: "42", text: "Good morning" })));
+    const email = fake.received.find((m) => m.channel === "email")!.body as { to: string[]; data: string };
+    assert.deepEqual(email.to, ["<alice@example.com>"]);
+    assert.match(email.data, /Subject: Your morning briefing for 2025-06-18/);
+    assert.match(email.data, /Good morning/);
+  });
+
+  it("retries a channel that fails and reports one that never succeeds", async () => {
+    const flaky = await startFakeDeliveryServer({ failFirst: 1 });
+    const down = await startFakeDeliveryServer({ failFirst: 3 });
+    try {
+      const results = await delivery.deliver({ userId: "alice", date: DATE, text: "Retried" }, [
+        new delivery.WebhookChannel(flaky.webhookUrl),
+        new delivery.TelegramChannel("test", "42", down.url),
+      ]);
+      assert.deepEqual(results[0], { channel: "webhook", delivered: true, attempts: 2 });
+      assert.equal(results[1].delivered, false);
+      assert.equal(results[1].attempts, 3);
+      assert.match(results[1].error!, /429/);
+    } finally {
+      await flaky.close();
+      await down.close();
+    }
+  });
+});
+
+describe("BriefingScheduler", () => {
+  function scheduler(write: (userId: string, report: MorningReport) => Promise<string>, maxAttempts?: number) {
+    return new briefing.BriefingScheduler({ userIds: [], write, maxAttempts });
+  }
+
+  it("waits for last night's sleep, then writes and delivers the briefing", async () => {
+    let writes = 0;
+    const briefings = scheduler(async (_userId, report) => `Briefing ${++writes} for ${report.date}`);
+
+    const waiting = await briefings.runNow("bob");
+    assert.equal(waiting.status, "waiting_for_sleep");
+    assert.ok(Date.parse(waiting.next_attempt_at!) > Date.now());
+    assert.equal(writes, 0);
+    assert.deepEqual(webhooksFor("bob"), []);
+
+    synced.add("bob");
+    const delivered = await briefings.runNow("bob");
+    assert.equal(delivered.status, "delivered");
+    assert.equal(delivered.attempts, 2);
+    assert.equal(delivered.next_attempt_at, null);
+    assert.deepEqual(webhooksFor("bob").map((body) => body.text), [`Briefing 1 for ${DATE}`]);
+  });
+
+  it("gives up after the last attempt", async () => {
+    const briefings = scheduler(async () => "Never sent", 2);
+
+    assert.equal((await briefings.runNow("dave")).status, "waiting_for_sleep");
+    const run = await briefings.runNow("dave");
+    assert.equal(run.status, "gave_up");
+    assert.equal(run.next_attempt_at, null);
+    assert.match(run.error!, /sleep hasn't synced/);
+  });
+
+  it("retries when the coach fails or writes nothing", async () => {
+    synced.add("erin");
+    const answers: Array<() => string> = [
+      () => {
+        throw new Error("quota exceeded");
+      },
+      () => "  ",
+      () => "Rest today",
+    ];
+    const briefings = scheduler(async () => answers.shift()!());
+
+    const failed = await briefings.runNow("erin");
+    assert.equal(failed.status, "failed");
+    assert.match(failed.error!, /quota exceeded/);
+    assert.ok(failed.next_attempt_at);
+
+    const empty = await briefings.runNow("erin");
+    assert.equal(empty.status, "failed");
+    assert.match(empty.error!, /empty briefing/);
+    assert.equal(empty.briefing, null);
+
+    const delivered = await briefings.runNow("erin");
+    assert.equal(delivered.status, "delivered");
+    assert.deepEqual(webhooksFor("erin").map((body) => body.text), ["Rest today"]);
+  });
+
+  it("doesn't prompt the coach or deliver twice while an attempt is in flight", async () => {
+    synced.add("carol");
+    let writes = 0;
+    let release = () => {};
+    const written = new Promise<void>((resolve) => (release = resolve));
+    const briefings = scheduler(async () => {
+      writes++;
+      await written;
+      return "Only once";
+    });
+
+    const first = briefings.runNow("carol");
+    const second = briefings.runNow("carol");
+    release();
+    const runs = await Promise.all([first, second]);
+
+    assert.equal(writes, 1);
+    assert.deepEqual(runs.map((run) => run.status), ["delivered", "delivered"]);
+    assert.equal(webhooksFor("carol").length, 1);
+  });
+
+  it("takes the send time as HH:MM", () => {
+    const write = async () => "";
+    assert.doesNotThrow(() => new briefing.BriefingScheduler({ userIds: [], write, sendAfter: "7:00" }));
+    assert.throws(() => new briefing.BriefingScheduler({ userIds: [], write, sendAfter: "25:00" }), /Invalid briefing time/);
+    assert.throws(() => new briefing.BriefingScheduler({ userIds: [], write, sendAfter: "7pm" }), /Invalid briefing time/);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, after } from "node:test";
+import assert from "node:assert/strict";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import express from "express";
+import { Event, createEvent } from "@google/adk";
+import { streamChat } from "../src/chat-stream.js";
+
+const AUTHOR = "coach";
+
+function call(id: string, name: string): Event {
+  return createEvent({ author: AUTHOR, content: { role: "model", parts: [{ functionCall: { id, name, args: {} } }] } });
+}
+
+function response(id: string, name: string, result: Record<string, unknown>): Event {
+  return createEvent({ author: AUTHOR, content: { role: "user", parts: [{ functionResponse: { id, name, response: result } }] } });
+}
+
+function text(value: string, partial = false): Event {
+  return createEvent({ author: AUTHOR, partial, content: { role: "model", parts: [{ text: value }] } });
+}
+
+const servers: Server[] = [];
+
+after(async () => {
+  await Promise.all(servers.map((server) => new Promise<void>((resolve) => server.close(() => resolve()))));
+});
+
+// A chat endpoint whose run yields the stub's events
+async function startChat(events: () => AsyncIterable<Event>): Promise<string> {
+  const app = express();
+  app.post("/chat/stream", async (_req, res) => {
+    await streamChat(res, { userId: "alice", sessionId: "s1", author: AUTHOR, run: async () => events() });
+  });
+  const server = await new Promise<Server>((resolve) => {
+    const s = app.listen(0, "127.0.0.1", () => resolve(s));
+  });
+  servers.push(server);
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}/chat/stream`;
+}
+
+function parseEvents(body: string): Array<{ event: string; data: Record<string, unknown> }> {
+  return body
+    .split("\n\n")
+    .filter((block) => block.startsWith("event: "))
+    .map((block) => {
+      const [event, data] = block.split("\n");
+      return { event: event.slice("event: ".length), data: JSON.parse(data.slice("data: ".length)) };
+    });
+}
+
+describe("streamChat", () => {
+  it("streams tool calls, partial text and the final response in order", async () => {
+    const url = await startChat(async function* () {
+      yield call("c1", "get_morning_report");
+      yield response("c1", "get_morning_report", { success: true });
+      yield call("c2", "remember_fact");
+      yield response("c2", "remember_fact", { success: false });
+      yield text("Good ", true);
+      yield text("morning", true);
+      yield text("Good morning");
+      yield createEvent({ author: "user", content: { role: "user", parts: [{ text: "ignored" }] } });
+    });
+
+    const res = await fetch(url, { method: "POST" });
+    assert.equal(res.headers.get("content-type"), "text/event-stream");
+    assert.deepEqual(parseEvents(await res.text()), [
+      { event: "tool_start", data: { id: "c1", name: "get_morning_report", label: "Fetching morning report…" } },
+      { event: "tool_end", data: { id: "c1", name: "get_morning_report", success: true } },
+      { event: "tool_start", data: { id: "c2", name: "remember_fact", label: "Saving to your profile…" } },
+      { event: "tool_end", data: { id: "c2", name: "remember_fact", success: false } },
+      { event: "text", data: { text: "Good " } },
+      { event: "text", data: { text: "morning" } },
+      { event: "done", data: { response: "Good morning", userId: "alice", sessionId: "s1" } },
+    ]);
+  });
+
+  it("sends the final text when nothing was streamed", async () => {
+    const url = await startChat(async function* () {
+      yield text("Rest today");
+    });
+
+    const events = parseEvents(await (await fetch(url, { method: "POST" })).text());
+    assert.deepEqual(events.map((e) => e.event), ["text", "done"]);
+    assert.deepEqual(events[0].data, { text: "Rest today" });
+  });
+
+  it("reports a failed run as an error event", async () => {
+    const url = await startChat(async function* () {
+      yield text("Starting", true);
+      throw new Error("model unavailable");
+    });
+
+    const events = parseEvents(await (await fetch(url, { method: "POST" })).text());
+    assert.deepEqual(events.at(-1), { event: "error", data: { error: "Internal server error" } });
+  });
+
+  it("stops pulling events once the client disconnects and pending tool calls have responses", async () => {
+    const pulled: string[] = [];
+    let finishTool = () => {};
+    const toolDone = new Promise<void>((resolve) => (finishTool = resolve));
+    let runEnded = () => {};
+    const ended = new Promise<void>((resolve) => (runEnded = resolve));
+
+    const url = await startChat(async function* () {
+      try {
+        pulled.push("call");
+        yield call("c1", "get_sleep_history");
+        await toolDone;
+        pulled.push("progress");
+        yield text("Looking at your sleep", true);
+        pulled.push("response");
+        yield response("c1", "get_sleep_history", { success: true });
+        pulled.push("text");
+        yield text("Never streamed");
+      } finally {
+        runEnded();
+      }
+    });
+
+    const controller = new AbortController();
+    const res = await fetch(url, { method: "POST", signal: controller.signal });
+    const reader = res.body!.getReader();
+    const first = new TextDecoder().decode((await reader.read()).value);
+    assert.match(first, /event: tool_start/);
+
+    controller.abort();
+    await reader.read().catch(() => {});
+    // Give the server a moment to see the socket close before the tool finishes
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    finishTool();
+    await ended;
+
+    assert.deepEqual(pulled, ["call", "progress", "response"]);
+  });
+});
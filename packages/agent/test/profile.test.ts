@@ -0,0 +1,115 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import { MAX_FACTS, UserProfile, formatProfile, getUserProfile, rememberFact, setGoal } from "../src/profile.js";
+
+before(() => {
+  // The store is created on first use
+  process.env.SESSION_STORE = "memory";
+});
+
+describe("rememberFact", () => {
+  it("adds facts and replaces one by id", async () => {
+    const { fact: knee, dropped } = await rememberFact("alice", "injury", "Sore left knee");
+    assert.deepEqual(dropped, []);
+    await rememberFact("alice", "preference", "Prefers evening runs");
+
+    const { fact, replaced } = await rememberFact("alice", "injury", "Left knee has healed", knee.id);
+    assert.equal(replaced?.id, knee.id);
+    const profile = await getUserProfile("alice");
+    assert.deepEqual(profile.facts.map((f) => f.text), ["Prefers evening runs", "Left knee has healed"]);
+    assert.equal(profile.facts[1].id, fact.id);
+    assert.ok(profile.updated_at);
+  });
+
+  it("rejects an unknown id to replace, saving nothing", async () => {
+    await assert.rejects(rememberFact("bob", "other", "Owns a bike", "fact_missing"), /No fact with id fact_missing/);
+    assert.deepEqual((await getUserProfile("bob")).facts, []);
+  });
+
+  it("drops the oldest facts other than injuries and health conditions when full", async () => {
+    await rememberFact("carol", "injury", "Old ankle sprain");
+    await rememberFact("carol", "preference", "Oldest preference");
+    await rememberFact("carol", "health", "Asthma");
+    for (let i = 0; i < MAX_FACTS - 3; i++) {
+      await rememberFact("carol", "schedule", `Schedule ${i}`);
+    }
+    assert.equal((await getUserProfile("carol")).facts.length, MAX_FACTS);
+
+    const first = await rememberFact("carol", "equipment", "Has a rowing machine");
+    assert.deepEqual(first.dropped.map((f) => f.text), ["Oldest preference"]);
+    const second = await rememberFact("carol", "equipment", "Has a kettlebell");
+    assert.deepEqual(second.dropped.map((f) => f.text), ["Schedule 0"]);
+
+    const facts = (await getUserProfile("carol")).facts;
+    assert.equal(facts.length, MAX_FACTS);
+    assert.deepEqual(facts.slice(0, 2).map((f) => f.text), ["Old ankle sprain", "Asthma"]);
+    assert.equal(facts.at(-1)!.text, "Has a kettlebell");
+  });
+
+  it("drops the oldest injury once nothing else is left", async () => {
+    for (let i = 0; i < MAX_FACTS; i++) {
+      await rememberFact("dave", i % 2 ? "health" : "injury", `Condition ${i}`);
+    }
+    const { dropped } = await rememberFact("dave", "injury", "New injury");
+    assert.deepEqual(dropped.map((f) => f.text), ["Condition 0"]);
+  });
+});
+
+describe("setGoal", () => {
+  it("adds a goal and updates it by id", async () => {
+    const goal = await setGoal("erin", { description: "Run a marathon", target_date: "2026-10-04" });
+    assert.equal(goal.status, "active");
+    assert.equal(goal.target_date, "2026-10-04");
+
+    const updated = await setGoal("erin", { goal_id: goal.id, status: "achieved" });
+    assert.equal(updated.id, goal.id);
+    assert.equal(updated.description, "Run a marathon");
+    assert.equal(updated.target_date, "2026-10-04");
+    assert.equal(updated.status, "achieved");
+
+    await setGoal("erin", { goal_id: goal.id, target_date: null });
+    assert.deepEqual((await getUserProfile("erin")).goals.map((g) => [g.status, g.target_date]), [["achieved", null]]);
+  });
+
+  it("requires a description for a new goal and a known id for an update", async () => {
+    await assert.rejects(setGoal("erin", {}), /description is required/);
+    await assert.rejects(setGoal("erin", { goal_id: "goal_missing", status: "abandoned" }), /No goal with id goal_missing/);
+  });
+});
+
+describe("formatProfile", () => {
+  const profile: UserProfile = {
+    user_id: "frank",
+    facts: [{ id: "fact_1", category: "injury", text: "Sore left knee", created_at: "2025-06-01T08:00:00.000Z" }],
+    goals: [
+      { id: "goal_1", description: "Run a marathon", target_date: "2025-10-04", status: "active", created_at: "", updated_at: "" },
+      { id: "goal_2", description: "Sub-20 5k", target_date: null, status: "active", created_at: "", updated_at: "" },
+      { id: "goal_3", description: "Couch to 5k", target_date: null, status: "achieved", created_at: "", updated_at: "" },
+    ],
+    updated_at: "2025-06-01T08:00:00.000Z",
+  };
+
+  it("lists active goals and facts", () => {
+    assert.equal(
+      formatProfile(profile),
+      [
+        "## What You Know About This User",
+        "",
+        "Active goals:",
+        "- Run a marathon (goal_1, target 2025-10-04)",
+        "- Sub-20 5k (goal_2)",
+        "",
+        "Facts:",
+        "- [injury] Sore left knee (fact_1, noted 2025-06-01)",
+      ].join("\n")
+    );
+  });
+
+  it("leaves out the goals section without active goals, and everything for an empty profile", () => {
+    assert.equal(
+      formatProfile({ ...profile, goals: profile.goals.slice(2) }),
+      ["## What You Know About This User", "", "Facts:", "- [injury] Sore left knee (fact_1, noted 2025-06-01)"].join("\n")
+    );
+    assert.equal(formatProfile({ ...profile, facts: [], goals: profile.goals.slice(2) }), "");
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createEvent, createEventActions, createSession } from "@google/adk";
+import { MemorySessionStore, PersistentSessionService, SessionStore, SqliteSessionStore } from "../src/sessions.js";
+
+const APP = "fitness_coach";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const tempDirs: string[] = [];
+
+after(async () => {
+  await Promise.all(tempDirs.map((dir) => rm(dir, { recursive: true, force: true })));
+});
+
+async function sqliteStore(): Promise<SqliteSessionStore> {
+  const dir = await mkdtemp(join(tmpdir(), "sessions-"));
+  tempDirs.push(dir);
+  return new SqliteSessionStore(join(dir, "sessions.db"));
+}
+
+// A session last updated daysAgo, saved straight to the store
+async function saveAged(store: SessionStore, userId: string, sessionId: string, daysAgo: number): Promise<void> {
+  await store.save(createSession({ id: sessionId, appName: APP, userId, state: {}, events: [], lastUpdateTime: Date.now() - daysAgo * DAY_MS }));
+}
+
+function message(author: string, text: string, timestamp: number) {
+  return createEvent({ invocationId: "i1", author, timestamp, content: { role: author === "user" ? "user" : "model", parts: [{ text }] } });
+}
+
+const stores: Array<[string, () => Promise<SessionStore>]> = [
+  ["memory", async () => new MemorySessionStore()],
+  ["sqlite", sqliteStore],
+];
+
+for (const [name, createStore] of stores) {
+  describe(`PersistentSessionService with the ${name} store`, () => {
+    it("round-trips sessions, state and events through the store", async () => {
+      const store = await createStore();
+      const service = new PersistentSessionService(store, 30 * DAY_MS);
+      const session = await service.createSession({ appName: APP, userId: "alice", sessionId: "s1", state: { topic: "sleep" } });
+
+      const now = Date.now();
+      await service.appendEvent({ session, event: message("user", "How did I sleep?", now) });
+      await service.appendEvent({
+        session,
+        event: createEvent({ invocationId: "i1", author: "coach", timestamp: now + 1, actions: createEventActions({ stateDelta: { last_tool: "get_last_night_sleep" } }), content: { role: "model", parts: [{ text: "7.5 hours" }] } }),
+      });
+      // Partial events are streamed, not saved
+      await service.appendEvent({ session, event: createEvent({ invocationId: "i1", author: "coach", timestamp: now + 2, partial: true, content: { role: "model", parts: [{ text: "7." }] } }) });
+
+      // A fresh service over the same store sees what the first one saved
+      const reloaded = await new PersistentSessionService(store, 30 * DAY_MS).getSession({ appName: APP, userId: "alice", sessionId: "s1" });
+      assert.ok(reloaded);
+      assert.deepEqual(reloaded.state, { topic: "sleep", last_tool: "get_last_night_sleep" });
+      assert.deepEqual(reloaded.events.map((e) => e.content?.parts?.[0].text), ["How did I sleep?", "7.5 hours"]);
+      assert.equal(reloaded.lastUpdateTime, now + 1);
+
+      assert.equal(await service.getSession({ appName: APP, userId: "bob", sessionId: "s1" }), undefined);
+      assert.deepEqual((await service.listSessions({ appName: APP, userId: "alice" })).sessions.map((s) => s.id), ["s1"]);
+
+      await service.deleteSession({ appName: APP, userId: "alice", sessionId: "s1" });
+      assert.equal(await service.getSession({ appName: APP, userId: "alice", sessionId: "s1" }), undefined);
+    });
+
+    it("limits the events returned with numRecentEvents and afterTimestamp", async () => {
+      const service = new PersistentSessionService(await createStore(), 30 * DAY_MS);
+      const session = await service.createSession({ appName: APP, userId: "alice", sessionId: "s2" });
+      const start = Date.now();
+      for (let i = 0; i < 4; i++) {
+        await service.appendEvent({ session, event: message(i % 2 ? "coach" : "user", `message ${i}`, start + i * 1000) });
+      }
+
+      const texts = async (config: { numRecentEvents?: number; afterTimestamp?: number }) =>
+        (await service.getSession({ appName: APP, userId: "alice", sessionId: "s2", config }))!.events.map((e) => e.content?.parts?.[0].text);
+
+      assert.deepEqual(await texts({ numRecentEvents: 2 }), ["message 2", "message 3"]);
+      assert.deepEqual(await texts({ afterTimestamp: start + 1000 }), ["message 1", "message 2", "message 3"]);
+      assert.deepEqual(await texts({ numRecentEvents: 3, afterTimestamp: start + 2000 }), ["message 2", "message 3"]);
+      assert.equal((await texts({})).length, 4);
+    });
+
+    it("hides and deletes sessions idle for longer than the TTL", async () => {
+      const store = await createStore();
+      const service = new PersistentSessionService(store, 7 * DAY_MS);
+      await saveAged(store, "alice", "fresh", 1);
+      await saveAged(store, "alice", "stale", 8);
+
+      assert.deepEqual((await service.listSessions({ appName: APP, userId: "alice" })).sessions.map((s) => s.id), ["fresh"]);
+      assert.ok(await service.getSession({ appName: APP, userId: "alice", sessionId: "fresh" }));
+      assert.equal(await service.getSession({ appName: APP, userId: "alice", sessionId: "stale" }), undefined);
+      // Reading an expired session deletes it
+      assert.equal(await store.load(APP, "alice", "stale"), null);
+    });
+
+    it("keeps sessions forever with a TTL of 0", async () => {
+      const store = await createStore();
+      const service = new PersistentSessionService(store, 0);
+      await saveAged(store, "alice", "old", 400);
+
+      assert.ok(await service.getSession({ appName: APP, userId: "alice", sessionId: "old" }));
+      assert.equal((await service.listSessions({ appName: APP, userId: "alice" })).sessions.length, 1);
+    });
+
+    it("deletes expired sessions across users, leaving other apps alone", async () => {
+      const store = await createStore();
+      await saveAged(store, "alice", "stale", 10);
+      await saveAged(store, "bob", "stale", 20);
+      await saveAged(store, "bob", "fresh", 1);
+      await store.save(createSession({ id: "other", appName: "other_app", userId: "alice", state: {}, events: [], lastUpdateTime: Date.now() - 20 * DAY_MS }));
+
+      assert.equal(await store.deleteExpired(APP, Date.now() - 7 * DAY_MS), 2);
+      assert.deepEqual((await store.list(APP, "alice")).map((s) => s.id), []);
+      assert.deepEqual((await store.list(APP, "bob")).map((s) => s.id), ["fresh"]);
+      assert.ok(await store.load("other_app", "alice", "other"));
+    });
+  });
+}
@@ -0,0 +1,172 @@
+/**
+ * Early-warning detection on overnight signals.
+ * Each signal is compared to the user's own baseline; a single signal off is
+ * often noise, while several moving the wrong way together (warmer skin,
+ * higher resting HR, lower HRV) tends to come before illness or overreaching.
+ */
+import type { InsightSeverity } from "./insights.js";
+import { round } from "./utils.js";
+
+export const ALERT_BASELINE_DAYS = 28;
+const MIN_BASELINE_DAYS = 7;
+
+export type AlertSignal = "temperature" | "resting_hr" | "hrv" | "breathing_rate" | "spo2";
+export type AlertSeverity = InsightSeverity | "none";
+
+interface SignalRule {
+  label: string;
+  concern: "above" | "below"; // Direction that counts as a warning sign
+  z_score: number; // Minimum distance from baseline in standard deviations
+  min_change: number; // Minimum absolute change, so very steady baselines don't flag on noise
+  strong_z_score: number;
+  min_stddev: number; // Floor for the baseline's standard deviation
+  unit: string;
+}
+
+const SIGNAL_RULES: Record<Exclude<AlertSignal, "temperature">, SignalRule> = {
+  resting_hr: { label: "Resting HR", concern: "above", z_score: 1.5, min_change: 3, strong_z_score: 2.5, min_stddev: 1, unit: " bpm" },
+  hrv: { label: "HRV", concern: "below", z_score: 1.5, min_change: 4, strong_z_score: 2.5, min_stddev: 2, unit: " ms" },
+  breathing_rate: { label: "Breathing rate", concern: "above", z_score: 1.5, min_change: 0.8, strong_z_score: 2.5, min_stddev: 0.3, unit: "/min" },
+  spo2: { label: "SpO2", concern: "below", z_score: 1.5, min_change: 1.5, strong_z_score: 2.5, min_stddev: 0.5, unit: "%" },
+};
+
+// For messages that list several signals
+const SIGNAL_NAMES: Record<AlertSignal, string> = {
+  temperature: "skin temperature",
+  resting_hr: "resting HR",
+  hrv: "HRV",
+  breathing_rate: "breathing rate",
+  spo2: "SpO2",
+};
+
+// Fitbit's nightlyRelative is already relative to the user's baseline
+const TEMPERATURE_THRESHOLD = 0.5; // °C above baseline
+const TEMPERATURE_STRONG = 1.0;
+
+export interface SignalInput {
+  today: number | null;
+  history: number[]; // Baseline nights before today
+}
+
+export type AlertInputs = Record<Exclude<AlertSignal, "temperature">, SignalInput> & {
+  temperature: number | null; // nightlyRelative in °C
+};
+
+export interface SignalDeviation {
+  signal: AlertSignal;
+  value: number | null;
+  baseline: number | null;
+  change: number | null; // value - baseline
+  percent_difference: number | null;
+  z_score: number | null;
+  flagged: boolean;
+  strong: boolean;
+  note: string;
+}
+
+export interface AlertResult {
+  severity: AlertSeverity;
+  recommendation: "consider_resting" | "monitor" | null;
+  message: string;
+  contributing_signals: AlertSignal[];
+  signals: SignalDeviation[];
+  missing_signals: AlertSignal[];
+}
+
+function stddev(values: number[], mean: number): number {
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+}
+
+function evaluateSignal(signal: Exclude<AlertSignal, "temperature">, input: SignalInput): SignalDeviation {
+  const rule = SIGNAL_RULES[signal];
+  const empty = { signal, value: input.today, baseline: null, change: null, percent_difference: null, z_score: null, flagged: false, strong: false };
+  if (input.today === null) return { ...empty, note: `No ${rule.label} reading` };
+  if (input.history.length < MIN_BASELINE_DAYS) return { ...empty, note: `Not enough ${rule.label} history for a baseline` };
+
+  const mean = input.history.reduce((a, b) => a + b, 0) / input.history.length;
+  const sd = Math.max(stddev(input.history, mean), rule.min_stddev);
+  const change = input.today - mean;
+  const z = change / sd;
+
+  // Distance in the direction of concern; movement the other way never flags
+  const concernZ = rule.concern === "above" ? z : -z;
+  const concernChange = rule.concern === "above" ? change : -change;
+  const flagged = concernZ >= rule.z_score && concernChange >= rule.min_change;
+  const strong = flagged && concernZ >= rule.strong_z_score;
+
+  const direction = change >= 0 ? "above" : "below";
+  return {
+    signal,
+    value: input.today,
+    baseline: round(mean, 1),
+    change: round(change, 1),
+    percent_difference: round((change / mean) * 100, 1),
+    z_score: round(z, 2),
+    flagged,
+    strong,
+    note: flagged
+      ? `${rule.label} ${input.today}${rule.unit} is ${Math.abs(round(change, 1))}${rule.unit} ${direction} your baseline of ${round(mean, 1)}${rule.unit}`
+      : `${rule.label} within your normal range`,
+  };
+}
+
+function evaluateTemperature(deviation: number | null): SignalDeviation {
+  const base = { signal: "temperature" as const, value: deviation, baseline: 0, change: deviation, percent_difference: null, z_score: null };
+  if (deviation === null) {
+    return { ...base, baseline: null, flagged: false, strong: false, note: "No skin temperature reading" };
+  }
+  const flagged = deviation >= TEMPERATURE_THRESHOLD;
+  return {
+    ...base,
+    flagged,
+    strong: deviation >= TEMPERATURE_STRONG,
+    note: flagged ? `Skin temperature ${deviation}°C above your baseline` : "Skin temperature within your normal range",
+  };
+}
+
+/**
+ * Combine per-signal deviations into one alert.
+ * Severity grows with the number of signals off baseline, and strong
+ * deviations count double: 1 point is info, 2 a warning, 4 or 3 signals an alert.
+ */
+export function detectAlerts(inputs: AlertInputs): AlertResult {
+  const signals = [
+    evaluateTemperature(inputs.temperature),
+    evaluateSignal("resting_hr", inputs.resting_hr),
+    evaluateSignal("hrv", inputs.hrv),
+    evaluateSignal("breathing_rate", inputs.breathing_rate),
+    evaluateSignal("spo2", inputs.spo2),
+  ];
+
+  const flagged = signals.filter((s) => s.flagged);
+  const points = flagged.reduce((sum, s) => sum + (s.strong ? 2 : 1), 0);
+  const missing = signals.filter((s) => s.baseline === null).map((s) => s.signal);
+
+  let severity: AlertSeverity = "none";
+  if (flagged.length >= 3 || points >= 4) severity = "alert";
+  else if (points >= 2) severity = "warning";
+  else if (points >= 1) severity = "info";
+
+  const labels = flagged.map((s) => SIGNAL_NAMES[s.signal]);
+  const listed = labels.length > 1 ? `${labels.slice(0, -1).join(", ")} and ${labels[labels.length - 1]}` : labels[0];
+
+  let message = "Overnight signals are within your normal ranges";
+  let recommendation: AlertResult["recommendation"] = null;
+  if (severity === "alert" || severity === "warning") {
+    const deviation = flagged.length > 1 ? "are off your baseline together" : "is well off your baseline";
+    message = `${listed} ${deviation}, which can come before illness or from accumulated fatigue. Consider resting or keeping today easy.`;
+    recommendation = "consider_resting";
+  } else if (severity === "info") {
+    message = `${listed} is off your baseline; on its own this is often noise. Keep an eye on it tomorrow.`;
+    recommendation = "monitor";
+  }
+
+  return {
+    severity,
+    recommendation,
+    message: message.charAt(0).toUpperCase() + message.slice(1),
+    contributing_signals: flagged.map((s) => s.signal),
+    signals,
+    missing_signals: missing,
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * The Express app: middleware, routes and error handling.
+ * server.ts starts it; tests import it without listening on a port.
+ */
+import "express-async-errors";
+import express, { Request, Response, NextFunction } from "express";
+import { FitbitAPIError, FitbitRateLimitError } from "./fitbit-client.js";
+import { requestContext } from "./request-context.js";
+import { InvalidQueryError } from "./query.js";
+import { userTimeZone } from "./timezone.js";
+
+// Import routes
+import { sleepRouter } from "./routes/sleep.js";
+import { recoveryRouter } from "./routes/recovery.js";
+import { activityRouter } from "./routes/activity.js";
+import { heartRateRouter } from "./routes/heart-rate.js";
+import { summaryRouter } from "./routes/summary.js";
+import { syncRouter } from "./routes/sync.js";
+import { authRouter } from "./routes/auth.js";
+import { settingsRouter } from "./routes/settings.js";
+import { trainingRouter } from "./routes/training.js";
+import { exportRouter } from "./routes/export.js";
+import { importRouter } from "./routes/import.js";
+import { metricsRouter } from "./routes/metrics.js";
+
+export const app = express();
+app.use(express.json());
+app.use(requestContext);
+
+// API Key middleware
+const API_KEY = process.env.API_KEY;
+const PUBLIC_PATHS = ["/", "/health", "/docs", "/auth/callback"];
+
+app.use((req: Request, res: Response, next: NextFunction) => {
+  if (PUBLIC_PATHS.includes(req.path)) {
+    return next();
+  }
+
+  // Skip auth if no API_KEY configured (local dev)
+  if (!API_KEY) {
+    return next();
+  }
+
+  // Browsers can't send headers when opening /auth/login, so allow ?api_key= there;
+  // Prometheus scrapes send the key as a bearer token
+  const bearer = req.path === "/metrics" ? req.headers.authorization?.match(/^Bearer (.+)$/)?.[1] : undefined;
+  const providedKey = req.headers["x-api-key"] || bearer || (req.path === "/auth/login" ? req.query.api_key : undefined);
+  if (!providedKey || providedKey !== API_KEY) {
+    res.status(401).json({ error: "Unauthorized", message: "Invalid or missing API key" });
+    return;
+  }
+
+  next();
+});
+
+// Ahead of userTimeZone, which may look up the profile: scrapes shouldn't call Fitbit
+app.use("/metrics", metricsRouter);
+
+// Health check, ahead of userTimeZone so probes never call Fitbit
+app.get("/", (_req: Request, res: Response) => {
+  res.json({ status: "ok", service: "fitbit-api" });
+});
+
+app.get("/health", (_req: Request, res: Response) => {
+  res.json({ status: "ok", service: "fitbit-api" });
+});
+
+app.use(userTimeZone);
+
+// Mount routes
+app.use("/sleep", sleepRouter);
+app.use("/recovery", recoveryRouter);
+app.use("/activity", activityRouter);
+app.use("/heart-rate", heartRateRouter);
+app.use("/summary", summaryRouter);
+app.use("/sync", syncRouter);
+app.use("/auth", authRouter);
+app.use("/settings", settingsRouter);
+app.use("/training", trainingRouter);
+app.use("/export", exportRouter);
+app.use("/import", importRouter);
+
+// Error handler
+app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
+  console.error("Error:", err);
+
+  if (err instanceof InvalidQueryError) {
+    res.status(400).json({
+      error: "invalid_query",
+      message: err.message,
+      issues: err.issues,
+    });
+    return;
+  }
+
+  if (err instanceof FitbitRateLimitError) {
+    res.status(429).json({
+      error: "rate_limit_exceeded",
+      message: err.message,
+      retry_after: "Wait until the top of the hour for quota reset (150 requests/hour limit).",
+    });
+    return;
+  }
+
+  if (err instanceof FitbitAPIError) {
+    res.status(err.statusCode).json({
+      error: "fitbit_api_error",
+      message: err.message,
+    });
+    return;
+  }
+
+  res.status(500).json({
+    error: "internal_error",
+    message: err.message,
+  });
+});
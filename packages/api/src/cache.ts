@@ -0,0 +1,182 @@
+/**
+ * Response cache for Fitbit API calls.
+ * Keeps us under the 150 requests/hour quota by reusing responses. Past dates
+ * are effectively immutable, while anything touching today expires quickly.
+ */
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile, rm } from "fs/promises";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+import type { DatabaseSync } from "node:sqlite";
+import { today, yesterday } from "./utils.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const OUTPUT_DIR = join(__dirname, "..", "..", "..", "output");
+
+// TTLs in seconds per endpoint class
+export const CACHE_TTL = {
+  past: 30 * 24 * 60 * 60, // Fully in the past: data no longer changes
+  yesterday: 60 * 60, // Late device syncs can still fill in yesterday
+  today: 5 * 60, // Today's data changes with every sync
+  undated: 60 * 60, // Endpoints without a date (profile, devices)
+};
+
+export interface CacheEntry {
+  data: unknown;
+  expires_at: number; // epoch milliseconds
+}
+
+export interface CacheBackend {
+  readonly name: string;
+  get(key: string): Promise<CacheEntry | null>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Build a stable cache key from an endpoint and its query params
+ */
+export function cacheKey(endpoint: string, params?: Record<string, string>): string {
+  if (!params) return endpoint;
+  const query = Object.keys(params)
+    .sort()
+    .map((key) => `${key}=${params[key]}`)
+    .join("&");
+  return `${endpoint}?${query}`;
+}
+
+/**
+ * Pick a TTL based on the latest date an endpoint covers
+ */
+export function ttlFor(endpoint: string, params?: Record<string, string>): number {
+  const dates = [...endpoint.matchAll(/\d{4}-\d{2}-\d{2}/g)].map((m) => m[0]);
+  if (params?.beforeDate) dates.push(params.beforeDate);
+  if (params?.afterDate) return CACHE_TTL.today; // Open-ended towards today
+  if (!dates.length) return CACHE_TTL.undated;
+
+  const latest = dates.sort()[dates.length - 1];
+  if (latest < yesterday()) return CACHE_TTL.past;
+  if (latest === yesterday()) return CACHE_TTL.yesterday;
+  return CACHE_TTL.today;
+}
+
+// =========================================================================
+// Backends
+// =========================================================================
+
+export class MemoryCacheBackend implements CacheBackend {
+  readonly name = "memory";
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries = 1000) {}
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expires_at <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    // Map keeps insertion order, so the first key is the oldest
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+export class FileCacheBackend implements CacheBackend {
+  readonly name = "file";
+
+  constructor(private dir = join(OUTPUT_DIR, "cache")) {}
+
+  private pathFor(key: string): string {
+    return join(this.dir, `${createHash("sha1").update(key).digest("hex")}.json`);
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    try {
+      const entry = JSON.parse(await readFile(this.pathFor(key), "utf-8")) as CacheEntry;
+      return entry.expires_at > Date.now() ? entry : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.pathFor(key), JSON.stringify(entry));
+  }
+
+  async clear(): Promise<void> {
+    await rm(this.dir, { recursive: true, force: true });
+  }
+}
+
+export class SqliteCacheBackend implements CacheBackend {
+  readonly name = "sqlite";
+  private db: Promise<DatabaseSync>;
+
+  constructor(path = join(OUTPUT_DIR, "cache.db")) {
+    // node:sqlite is loaded lazily so other backends work on any Node version
+    this.db = (async () => {
+      await mkdir(dirname(path), { recursive: true });
+      const { DatabaseSync } = await import("node:sqlite");
+      const db = new DatabaseSync(path);
+      db.exec(`CREATE TABLE IF NOT EXISTS fitbit_cache (
+        key TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        expires_at INTEGER NOT NULL
+      )`);
+      return db;
+    })();
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const db = await this.db;
+    const row = db
+      .prepare("SELECT data, expires_at FROM fitbit_cache WHERE key = ? AND expires_at > ?")
+      .get(key, Date.now()) as { data: string; expires_at: number } | undefined;
+    return row ? { data: JSON.parse(row.data), expires_at: row.expires_at } : null;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const db = await this.db;
+    db.prepare("INSERT OR REPLACE INTO fitbit_cache (key, data, expires_at) VALUES (?, ?, ?)")
+      .run(key, JSON.stringify(entry.data), entry.expires_at);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.db;
+    db.exec("DELETE FROM fitbit_cache");
+  }
+}
+
+/**
+ * Create the cache backend selected by FITBIT_CACHE (memory, file, sqlite or none)
+ */
+export function createCacheBackend(type = process.env.FITBIT_CACHE || "memory"): CacheBackend | null {
+  switch (type) {
+    case "none":
+      return null;
+    case "memory":
+      return new MemoryCacheBackend();
+    case "file":
+      return new FileCacheBackend(process.env.FITBIT_CACHE_PATH);
+    case "sqlite":
+      return new SqliteCacheBackend(process.env.FITBIT_CACHE_PATH);
+    default:
+      console.warn(`Unknown FITBIT_CACHE backend "${type}", falling back to memory`);
+      return new MemoryCacheBackend();
+  }
+}
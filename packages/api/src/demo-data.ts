@@ -0,0 +1,364 @@
+/**
+ * Demo mode: FitbitClient answers from generated data instead of the Fitbit
+ * API, so the API runs without a Fitbit account and demos show no real
+ * health data. FITBIT_DEMO=1 turns it on; FITBIT_DEMO_SEED (default 1) and
+ * the user ID pick the person.
+ *
+ * Days follow a story rather than independent noise:
+ * - Training runs in 4-week blocks, three building weeks and a deload week.
+ *   Load above the 4-week average raises resting HR and lowers HRV.
+ * - Bad nights start later, end sooner and have lower efficiency, and dent
+ *   the next morning's HRV.
+ * - A few illness episodes a year raise skin temperature from the night
+ *   before symptoms, then resting HR and breathing rate, lower HRV and SpO2,
+ *   and replace training with rest and naps.
+ */
+import { basename, dirname, extname, join } from "path";
+import { addDays, daysBetween, defaultTimeZone, formatDate } from "./utils.js";
+import { DayModel, FitbitDataSource, HEART_RATE_ZONES, SleepPeriodModel, WorkoutModel, between, noise } from "./fitbit-payloads.js";
+
+const EPOCH = "2020-01-06"; // A Monday; training weeks and illness windows count from here
+const BLOCK_FACTORS = [0.85, 1, 1.15, 0.55]; // Training volume per week of a block, the last is the deload
+const ILLNESS_WINDOW_DAYS = 70; // At most one illness per window
+const ACUTE_DAYS = 7;
+const CHRONIC_DAYS = 28;
+const HARD_DAY_LOAD = 150;
+
+type Intensity = "easy" | "moderate" | "hard";
+
+interface Session {
+  name: string;
+  minutes: number;
+  intensity: Intensity;
+  heart_rate: number | null; // Target; null when logged by hand without a tracker
+  km_per_minute: number;
+  steps_per_minute: number;
+}
+
+// Monday first
+const WEEK_PLAN: Array<Session | null> = [
+  { name: "Weights", minutes: 45, intensity: "moderate", heart_rate: null, km_per_minute: 0, steps_per_minute: 0 },
+  { name: "Run", minutes: 45, intensity: "hard", heart_rate: 158, km_per_minute: 0.2, steps_per_minute: 168 },
+  { name: "Walk", minutes: 40, intensity: "easy", heart_rate: 104, km_per_minute: 0.09, steps_per_minute: 112 },
+  { name: "Bike", minutes: 60, intensity: "moderate", heart_rate: 136, km_per_minute: 0.42, steps_per_minute: 0 },
+  null,
+  { name: "Run", minutes: 80, intensity: "moderate", heart_rate: 145, km_per_minute: 0.18, steps_per_minute: 164 },
+  { name: "Walk", minutes: 60, intensity: "easy", heart_rate: 101, km_per_minute: 0.09, steps_per_minute: 110 },
+];
+
+const LOAD_PER_MINUTE: Record<Intensity, number> = { easy: 1, moderate: 2, hard: 3 };
+
+// Severity on each day of an illness, from the first day with symptoms
+const ILLNESS_CURVE = [0.7, 1, 0.8, 0.6, 0.4, 0.3];
+const PRODROME_SEVERITY = 0.3; // The night before symptoms
+const TAIL_SEVERITY = 0.15; // The two days after
+
+interface Person {
+  key: string;
+  resting_hr: number;
+  hrv: number;
+  vo2_max: number;
+  breathing_rate: number;
+  spo2: number;
+  bedtime: number; // Minutes from midnight, negative before midnight
+  time_in_bed: number;
+  weekend_shift: number;
+  steps: number;
+  bmr: number;
+}
+
+/**
+ * Why a demo day looks the way it does
+ */
+export interface DemoStory {
+  block_week: number; // 0-2 building, 3 deload
+  illness: number; // 0 healthy to 1 worst day
+  bad_night: boolean; // The night ending on the date
+  session: { name: string; minutes: number; intensity: Intensity; start: number } | null;
+  load: number; // Training load, minutes weighted by intensity
+}
+
+export interface DemoDataSource extends FitbitDataSource {
+  story(date: string): DemoStory;
+}
+
+export function isDemoMode(): boolean {
+  return ["1", "true"].includes(process.env.FITBIT_DEMO || "");
+}
+
+export function demoSeed(): string {
+  return process.env.FITBIT_DEMO_SEED || "1";
+}
+
+/**
+ * Where demo mode keeps a file or folder that would otherwise hold real data,
+ * e.g. metrics.db becomes metrics.demo-1.db, so demo and real data never mix
+ */
+export function demoPath(path: string): string {
+  const extension = extname(path);
+  return join(dirname(path), `${basename(path, extension)}.demo-${demoSeed()}${extension}`);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function createPerson(key: string): Person {
+  const restingHr = between(key, "resting-hr", 48, 62);
+  return {
+    key,
+    resting_hr: restingHr,
+    // Fitter people tend to have both a lower resting HR and a higher HRV
+    hrv: Math.round(40 + (62 - restingHr) * 1.8 + between(key, "hrv", -6, 6)),
+    vo2_max: between(key, "vo2-max", 40, 50),
+    breathing_rate: between(key, "breathing-rate", 13.5, 16, 1),
+    spo2: between(key, "spo2", 95.8, 97.4, 1),
+    bedtime: between(key, "bedtime", -75, 15),
+    time_in_bed: between(key, "time-in-bed", 440, 510),
+    weekend_shift: between(key, "weekend-shift", 30, 90),
+    steps: between(key, "steps", 5500, 9500),
+    bmr: between(key, "bmr", 1500, 1850),
+  };
+}
+
+export function createDemoDataSource(userId: string, seed = demoSeed()): DemoDataSource {
+  const person = createPerson(`demo:${seed}:${userId}`);
+  const timezone = defaultTimeZone();
+  const stories = new Map<number, DemoStory>();
+  const days = new Map<string, DayModel>();
+
+  const indexOf = (date: string) => daysBetween(EPOCH, date) - 1;
+  const dateOf = (index: number) => addDays(EPOCH, index);
+  const keyOf = (index: number) => `${person.key}:${dateOf(index)}`;
+
+  function illnessOn(index: number): number {
+    const window = Math.floor(index / ILLNESS_WINDOW_DAYS);
+    const windowKey = `${person.key}:illness-${window}`;
+    if (noise(windowKey, "happens") >= 0.55) return 0;
+
+    const onset = window * ILLNESS_WINDOW_DAYS + 5 + Math.floor(noise(windowKey, "onset") * 55);
+    const length = 3 + Math.floor(noise(windowKey, "length") * 4);
+    const day = index - onset;
+    if (day === -1) return PRODROME_SEVERITY;
+    if (day >= 0 && day < length) return ILLNESS_CURVE[day];
+    if (day >= length && day < length + 2) return TAIL_SEVERITY;
+    return 0;
+  }
+
+  function storyAt(index: number): DemoStory {
+    const cached = stories.get(index);
+    if (cached) return cached;
+
+    const key = keyOf(index);
+    const week = Math.floor(index / 7);
+    const blockWeek = ((week % 4) + 4) % 4;
+    const illness = illnessOn(index);
+
+    let session: DemoStory["session"] = null;
+    const planned = WEEK_PLAN[((index % 7) + 7) % 7];
+    if (planned && illness < PRODROME_SEVERITY && noise(key, "skip") >= 0.1) {
+      const volume = BLOCK_FACTORS[blockWeek] * between(`${person.key}:block-${Math.floor(week / 4)}`, "volume", 0.9, 1.15, 2);
+      const weekend = planned === WEEK_PLAN[5] || planned === WEEK_PLAN[6];
+      session = {
+        name: planned.name,
+        minutes: Math.round(planned.minutes * volume * between(key, "session-length", 0.85, 1.15, 2)),
+        // No intervals in a deload week or while getting over an illness
+        intensity: planned.intensity === "hard" && (blockWeek === 3 || illness > 0) ? "moderate" : planned.intensity,
+        start: weekend ? 10 * 60 + between(key, "session-start", 0, 30) : 17 * 60 + 30 + between(key, "session-start", 0, 20),
+      };
+    }
+
+    const story: DemoStory = {
+      block_week: blockWeek,
+      illness,
+      bad_night: noise(key, "bad-night") < (illness >= 0.5 ? 0.5 : 0.1),
+      session,
+      load: session ? session.minutes * LOAD_PER_MINUTE[session.intensity] : 0,
+    };
+    stories.set(index, story);
+    return story;
+  }
+
+  // Average daily load over the days before index
+  function averageLoad(index: number, days: number): number {
+    let total = 0;
+    for (let i = index - days; i < index; i++) total += storyAt(i).load;
+    return total / days;
+  }
+
+  function sleepPeriods(index: number): SleepPeriodModel[] {
+    const key = keyOf(index);
+    const story = storyAt(index);
+    const weekday = ((index % 7) + 7) % 7;
+    const weekend = weekday === 5 || weekday === 6; // Nights ending on Saturday and Sunday
+    const sick = story.illness >= 0.5;
+
+    const start =
+      person.bedtime + (weekend ? person.weekend_shift : 0) + between(key, "bedtime", -25, 25) + (story.bad_night ? between(key, "late", 30, 90) : 0) - (sick ? 45 : 0);
+    const minutes =
+      person.time_in_bed + between(key, "in-bed", -35, 35) + (weekend ? 30 : 0) - (story.bad_night ? between(key, "short", 60, 110) : 0) + (sick ? between(key, "sick-sleep", 40, 80) : 0);
+    const efficiency = story.bad_night ? between(key, "efficiency", 0.7, 0.8, 2) : between(key, "efficiency", 0.86, 0.94, 2) - story.illness * 0.05;
+    const deepShare = between(key, "deep", 0.14, 0.2, 3) - (story.bad_night ? 0.03 : 0) - story.illness * 0.04;
+    const remShare = between(key, "rem", 0.18, 0.25, 3) - (story.bad_night ? 0.03 : 0);
+
+    const period = (periodStart: number, periodMinutes: number, main: boolean): SleepPeriodModel => {
+      const awake = Math.round(periodMinutes * (1 - efficiency));
+      const asleep = periodMinutes - awake;
+      return { start: periodStart, minutes: periodMinutes, awake, stages: { deep: Math.round(asleep * deepShare), rem: Math.round(asleep * remShare) }, main };
+    };
+
+    const periods: SleepPeriodModel[] = [];
+    if (story.bad_night && noise(key, "split") < 0.35) {
+      // Up for an hour in the middle of the night
+      const first = Math.round(minutes * between(key, "split-at", 0.35, 0.55, 2));
+      const gap = between(key, "split-gap", 50, 80);
+      periods.push(period(start, first, true), period(start + first + gap, minutes - first - gap, false));
+    } else {
+      periods.push(period(start, minutes, true));
+    }
+
+    if ((weekend || sick) && noise(key, "nap") < (sick ? 0.7 : 0.3)) {
+      const napMinutes = between(key, "nap-length", 20, 60);
+      periods.push({ start: between(key, "nap-start", 13 * 60 + 30, 15 * 60 + 30), minutes: napMinutes, awake: between(key, "nap-awake", 2, 5), stages: null, main: false });
+    }
+    return periods;
+  }
+
+  function heartRate(index: number, restingHr: number, sleep: SleepPeriodModel[], nextNight: SleepPeriodModel[]): number[] {
+    const key = keyOf(index);
+    const story = storyAt(index);
+    const weekday = ((index % 7) + 7) % 7;
+    const planned = WEEK_PLAN[weekday];
+
+    const asleep = new Array<boolean>(1440).fill(false);
+    const mark = (start: number, minutes: number) => {
+      for (let m = Math.max(0, start); m < Math.min(1440, start + minutes); m++) asleep[m] = true;
+    };
+    for (const period of sleep) mark(period.start, period.minutes);
+    for (const period of nextNight) if (period.start < 0) mark(1440 + period.start, -period.start);
+
+    const session = story.session;
+    const bpm: number[] = [];
+    for (let minute = 0; minute < 1440; minute++) {
+      const jitter = noise(key, `hr-${minute}`);
+      let value: number;
+      if (asleep[minute]) {
+        value = restingHr - 2 + jitter * 5;
+      } else {
+        value = restingHr + (minute >= 21 * 60 ? 10 : 16) + story.illness * 8 + jitter * 11 - 5;
+        // Walks to work and at lunch on weekdays
+        if (weekday < 5 && story.illness < PRODROME_SEVERITY && ((minute >= 8 * 60 && minute < 8 * 60 + 20) || (minute >= 12 * 60 + 15 && minute < 12 * 60 + 40))) {
+          value = 100 + jitter * 10;
+        }
+      }
+
+      if (session) {
+        const t = minute - session.start;
+        const target = planned?.heart_rate ?? 110;
+        const easier = session.intensity !== planned?.intensity ? 15 : 0;
+        if (t >= 0 && t < session.minutes) {
+          const ramp = Math.min(1, t / 5, (session.minutes - t) / 5);
+          // Intervals: 4 minutes hard, 3 easy
+          const interval = session.intensity === "hard" && t >= 10 && t < session.minutes - 8 ? (t % 7 < 4 ? 8 : -22) : 0;
+          value = 95 + (target - easier - 95 + interval) * ramp + jitter * 8 - 4;
+        } else if (t >= session.minutes && t < session.minutes + 30) {
+          value += 12 * (1 - (t - session.minutes) / 30);
+        }
+      }
+      bpm.push(Math.round(value));
+    }
+    return bpm;
+  }
+
+  function dayAt(date: string): DayModel {
+    const cached = days.get(date);
+    if (cached) return cached;
+
+    const index = indexOf(date);
+    const key = keyOf(index);
+    const story = storyAt(index);
+    const yesterdayLoad = storyAt(index - 1).load;
+    const chronic = averageLoad(index, CHRONIC_DAYS);
+    const strain = clamp(averageLoad(index, ACUTE_DAYS) / Math.max(chronic, 10) - 1, -0.5, 1);
+    const hardYesterday = yesterdayLoad >= HARD_DAY_LOAD;
+
+    const restingHr = Math.round(
+      person.resting_hr + 5 * strain + (hardYesterday ? 1 : 0) + 7 * story.illness + (story.bad_night ? 1.5 : 0) + between(key, "resting-hr", -1.5, 1.5, 1)
+    );
+    const hrvFactor = 1 - 0.2 * strain - 0.35 * story.illness - (story.bad_night ? 0.12 : 0) - (hardYesterday ? 0.05 : 0);
+    const hrv = Math.round(person.hrv * hrvFactor * between(key, "hrv", 0.93, 1.07, 3) * 1000) / 1000;
+    const spo2 = Math.round(clamp(person.spo2 - 2 * story.illness + between(key, "spo2", -0.4, 0.4, 1), 90, 99) * 10) / 10;
+
+    const sleep = sleepPeriods(index);
+    const bpm = heartRate(index, restingHr, sleep, sleepPeriods(index + 1));
+
+    // Zone minutes, the workout's heart rate and activity levels all come from the minute data
+    const zoneOf = (value: number) => HEART_RATE_ZONES.filter((zone) => value >= zone.min).length - 1;
+    const zoneCounts = [0, 0, 0, 0];
+    for (const value of bpm) zoneCounts[Math.max(0, zoneOf(value))]++;
+
+    let workout: WorkoutModel | null = null;
+    const session = story.session;
+    if (session) {
+      const planned = WEEK_PLAN[((index % 7) + 7) % 7]!;
+      const window = bpm.slice(session.start, session.start + session.minutes);
+      const averageHr = Math.round(window.reduce((a, b) => a + b, 0) / window.length);
+      const zones: [number, number, number, number] = [0, 0, 0, 0];
+      for (const value of window) zones[Math.max(0, zoneOf(value))]++;
+      const tracked = planned.heart_rate !== null;
+      workout = {
+        name: session.name,
+        start: session.start,
+        minutes: session.minutes,
+        average_hr: tracked ? averageHr : null,
+        zone_minutes: tracked ? zones : null,
+        steps: planned.steps_per_minute ? session.minutes * planned.steps_per_minute : null,
+        distance_km: planned.km_per_minute ? Math.round(session.minutes * planned.km_per_minute * between(key, "pace", 0.9, 1.1, 2) * 100) / 100 : null,
+        calories: Math.round(session.minutes * (tracked ? (averageHr - 60) * 0.11 + 2 : 5)),
+        manual: !tracked,
+      };
+    }
+
+    const weekday = ((index % 7) + 7) % 7;
+    const steps = Math.round(person.steps * (weekday >= 5 ? 1.1 : 1) * (1 - 0.65 * story.illness) * between(key, "steps", 0.8, 1.2, 2)) + (workout?.steps ?? 0);
+    const minutesAsleep = sleep.filter((p) => p.main).reduce((sum, p) => sum + p.minutes - p.awake, 0);
+    const lightlyActive = Math.round(between(key, "lightly-active", 160, 260) * (1 - 0.5 * story.illness));
+    const fairlyActive = zoneCounts[1];
+    const veryActive = zoneCounts[2] + zoneCounts[3];
+
+    const day: DayModel = {
+      sleep,
+      hrv: { daily: hrv, deep: Math.round(hrv * between(key, "deep-hrv", 1.06, 1.18, 3) * 1000) / 1000 },
+      spo2: { avg: spo2, min: Math.round((spo2 - between(key, "spo2-min", 1.5, 3, 1)) * 10) / 10, max: Math.min(100, Math.round((spo2 + 1.3) * 10) / 10) },
+      breathing_rate: Math.round((person.breathing_rate + 1.8 * story.illness + between(key, "breathing-rate", -0.3, 0.3, 1)) * 10) / 10,
+      skin_temp: Math.round((between(key, "skin-temp", -0.25, 0.25, 2) + 1.4 * story.illness) * 10) / 10,
+      vo2_max: Math.round(person.vo2_max + clamp((chronic - 80) / 20, -2, 2) - 2),
+      resting_hr: restingHr,
+      zone_minutes: { fat_burn: zoneCounts[1], cardio: zoneCounts[2], peak: zoneCounts[3] },
+      heart_rate: () => heartRate(index, restingHr, sleep, sleepPeriods(index + 1)),
+      activity: {
+        steps,
+        floors: Math.round(between(key, "floors", 2, 16) * (1 - 0.6 * story.illness)),
+        distance_km: Math.round((steps * 0.00078 + (workout && !workout.steps ? workout.distance_km ?? 0 : 0)) * 100) / 100,
+        calories_bmr: person.bmr,
+        activity_calories: Math.round(steps * 0.04 + lightlyActive * 1.5 + (workout?.calories ?? 0)),
+        sedentary_minutes: Math.max(0, 1440 - minutesAsleep - lightlyActive - fairlyActive - veryActive),
+        lightly_active_minutes: lightlyActive,
+        fairly_active_minutes: fairlyActive,
+        very_active_minutes: veryActive,
+      },
+      workout,
+    };
+    days.set(date, day);
+    return day;
+  }
+
+  return {
+    display_name: "Demo User",
+    encoded_id: `DEMO${String(seed).toUpperCase()}`.slice(0, 12),
+    timezone,
+    lastDate: () => formatDate(new Date(), timezone),
+    day: dayAt,
+    story: (date) => storyAt(indexOf(date)),
+  };
+}
@@ -0,0 +1,185 @@
+/**
+ * Exercise log parsing and intensity classification.
+ * Intensity comes from time in heart rate zones and Active Zone Minutes per
+ * minute, adjusted for very short or very long sessions.
+ */
+import { FitbitClient } from "./fitbit-client.js";
+import { round } from "./utils.js";
+
+export type ExerciseIntensity = "low" | "moderate" | "high";
+
+// Minimum value of each signal for an intensity level
+const INTENSITY_THRESHOLDS: Record<Exclude<ExerciseIntensity, "low">, { hard_zone_share: number; azm_per_minute: number }> = {
+  high: { hard_zone_share: 0.5, azm_per_minute: 1.2 }, // AZM counts double in cardio/peak
+  moderate: { hard_zone_share: 0.2, azm_per_minute: 0.5 },
+};
+
+const SHORT_SESSION_MINUTES = 10; // Too short to count as high
+const LONG_SESSION_MINUTES = 90; // Long enough to move up one level
+
+const LEVELS: ExerciseIntensity[] = ["low", "moderate", "high"];
+
+// Fitbit caps the activity log list at 100 entries per request
+const MAX_LOGS = 100;
+
+export interface Exercise {
+  log_id: number | null;
+  name: string;
+  date: string;
+  start_time: string | null;
+  duration_minutes: number;
+  active_minutes: number;
+  calories: number | null;
+  average_heart_rate: number | null;
+  steps: number | null;
+  distance_km: number | null;
+  log_type: string | null;
+  heart_rate_zones: { out_of_range: number; fat_burn: number; cardio: number; peak: number } | null;
+  active_zone_minutes: number | null;
+  intensity: ExerciseIntensity;
+  intensity_reasons: string[];
+}
+
+export interface ExerciseSummary {
+  count: number;
+  total_minutes: number;
+  total_calories: number;
+  total_active_zone_minutes: number;
+  by_intensity: Record<ExerciseIntensity, number>;
+}
+
+interface ActivityLogEntry {
+  logId?: number;
+  activityName?: string;
+  startTime?: string;
+  duration?: number; // ms
+  activeDuration?: number; // ms
+  calories?: number;
+  averageHeartRate?: number;
+  steps?: number;
+  distance?: number;
+  distanceUnit?: string;
+  logType?: string;
+  heartRateZones?: Array<{ name: string; minutes?: number }>;
+  activeZoneMinutes?: { totalMinutes?: number };
+}
+
+const ZONE_FIELDS: Record<string, keyof NonNullable<Exercise["heart_rate_zones"]>> = {
+  "Out of Range": "out_of_range",
+  "Fat Burn": "fat_burn",
+  Cardio: "cardio",
+  Peak: "peak",
+};
+
+function levelFor(value: number, key: "hard_zone_share" | "azm_per_minute"): number {
+  if (value >= INTENSITY_THRESHOLDS.high[key]) return 2;
+  if (value >= INTENSITY_THRESHOLDS.moderate[key]) return 1;
+  return 0;
+}
+
+/**
+ * Classify a session from its zone minutes, AZM and duration
+ */
+export function classifyIntensity(
+  activeMinutes: number,
+  zones: Exercise["heart_rate_zones"],
+  activeZoneMinutes: number | null
+): { intensity: ExerciseIntensity; reasons: string[] } {
+  const reasons: string[] = [];
+  const levels: number[] = [];
+
+  const zoneTotal = zones ? zones.out_of_range + zones.fat_burn + zones.cardio + zones.peak : 0;
+  if (zones && zoneTotal > 0) {
+    const share = (zones.cardio + zones.peak) / zoneTotal;
+    levels.push(levelFor(share, "hard_zone_share"));
+    reasons.push(`${Math.round(share * 100)}% of time in cardio/peak zones`);
+  }
+
+  if (activeZoneMinutes !== null && activeMinutes > 0) {
+    const rate = activeZoneMinutes / activeMinutes;
+    levels.push(levelFor(rate, "azm_per_minute"));
+    reasons.push(`${round(rate, 2)} Active Zone Minutes per minute`);
+  }
+
+  if (!levels.length) reasons.push("No heart rate data");
+  let level = levels.length ? Math.max(...levels) : 0;
+
+  if (level === 2 && activeMinutes < SHORT_SESSION_MINUTES) {
+    level = 1;
+    reasons.push(`Short session (${activeMinutes} min)`);
+  } else if (level < 2 && activeMinutes >= LONG_SESSION_MINUTES) {
+    level += 1;
+    reasons.push(`Long session (${activeMinutes} min)`);
+  }
+
+  return { intensity: LEVELS[level], reasons };
+}
+
+export function parseExerciseLog(entry: ActivityLogEntry): Exercise {
+  const durationMinutes = Math.round((entry.duration || 0) / 60000);
+  const activeMinutes = entry.activeDuration ? Math.round(entry.activeDuration / 60000) : durationMinutes;
+
+  let zones: Exercise["heart_rate_zones"] = null;
+  if (entry.heartRateZones?.length) {
+    zones = { out_of_range: 0, fat_burn: 0, cardio: 0, peak: 0 };
+    for (const zone of entry.heartRateZones) {
+      const field = ZONE_FIELDS[zone.name];
+      if (field) zones[field] = zone.minutes || 0;
+    }
+  }
+
+  const activeZoneMinutes = entry.activeZoneMinutes?.totalMinutes ?? null;
+  const { intensity, reasons } = classifyIntensity(activeMinutes, zones, activeZoneMinutes);
+
+  let distanceKm: number | null = null;
+  if (entry.distance) {
+    distanceKm = round(entry.distanceUnit === "Mile" ? entry.distance * 1.609344 : entry.distance, 2);
+  }
+
+  return {
+    log_id: entry.logId ?? null,
+    name: entry.activityName || "Unknown",
+    // startTime carries the user's local offset, so its date part is the local date
+    date: (entry.startTime || "").slice(0, 10),
+    start_time: entry.startTime || null,
+    duration_minutes: durationMinutes,
+    active_minutes: activeMinutes,
+    calories: entry.calories ?? null,
+    average_heart_rate: entry.averageHeartRate ?? null,
+    steps: entry.steps ?? null,
+    distance_km: distanceKm,
+    log_type: entry.logType || null,
+    heart_rate_zones: zones,
+    active_zone_minutes: activeZoneMinutes,
+    intensity,
+    intensity_reasons: reasons,
+  };
+}
+
+/**
+ * Exercises from startDate up to (not including) beforeDate, newest first
+ */
+export async function getExercises(
+  client: FitbitClient,
+  startDate: string,
+  beforeDate: string
+): Promise<{ exercises: Exercise[]; raw: unknown }> {
+  const raw = await client.getActivityLogs(beforeDate, MAX_LOGS) as { activities?: ActivityLogEntry[] };
+  const exercises = (raw.activities || [])
+    .map(parseExerciseLog)
+    .filter((exercise) => exercise.date >= startDate && exercise.date < beforeDate);
+  return { exercises, raw };
+}
+
+export function summarizeExercises(exercises: Exercise[]): ExerciseSummary {
+  const byIntensity: Record<ExerciseIntensity, number> = { low: 0, moderate: 0, high: 0 };
+  for (const exercise of exercises) byIntensity[exercise.intensity]++;
+
+  return {
+    count: exercises.length,
+    total_minutes: exercises.reduce((sum, e) => sum + e.active_minutes, 0),
+    total_calories: exercises.reduce((sum, e) => sum + (e.calories || 0), 0),
+    total_active_zone_minutes: exercises.reduce((sum, e) => sum + (e.active_zone_minutes || 0), 0),
+    by_intensity: byIntensity,
+  };
+}
@@ -0,0 +1,262 @@
+/**
+ * Metric export for clinicians and notebooks.
+ * Stored Fitbit responses become flat records, one per day (or per sleep),
+ * written as CSV, NDJSON or a FHIR R4 Observation bundle.
+ */
+import { randomUUID } from "crypto";
+import { MetricName } from "./metric-store.js";
+import { groupSleepDays, SleepRecord } from "./sleep-periods.js";
+import { parseVo2Max } from "./utils.js";
+
+export const EXPORT_FORMATS = ["csv", "ndjson", "fhir"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+type Value = number | boolean | null;
+
+export interface ExportRecord {
+  date: string;
+  metric: MetricName;
+  start_time: string | null; // Sleep only, local time
+  values: Record<string, Value>;
+}
+
+interface Coding {
+  system: string;
+  code: string;
+  display: string;
+}
+
+interface Field {
+  label: string;
+  unit: string | null; // UCUM
+  codes?: Coding[];
+}
+
+const LOINC = "http://loinc.org";
+const UCUM = "http://unitsofmeasure.org";
+const OBSERVATION_CATEGORY = "http://terminology.hl7.org/CodeSystem/observation-category";
+
+// The vital signs profile expects the general codes alongside the specific ones
+const HEART_RATE_CODES = [
+  { system: LOINC, code: "8867-4", display: "Heart rate" },
+  { system: LOINC, code: "40443-4", display: "Heart rate --resting" },
+];
+const SPO2_CODES = [
+  { system: LOINC, code: "2708-6", display: "Oxygen saturation in Arterial blood" },
+  { system: LOINC, code: "59408-5", display: "Oxygen saturation in Arterial blood by Pulse oximetry" },
+];
+const RESPIRATORY_RATE_CODES = [{ system: LOINC, code: "9279-1", display: "Respiratory rate" }];
+
+const FIELDS: Record<MetricName, Record<string, Field>> = {
+  sleep: {
+    minutes_asleep: { label: "Sleep duration", unit: "min" },
+    minutes_awake: { label: "Minutes awake during sleep", unit: "min" },
+    time_in_bed_minutes: { label: "Time in bed", unit: "min" },
+    efficiency: { label: "Sleep efficiency", unit: "%" },
+    deep_minutes: { label: "Deep sleep", unit: "min" },
+    light_minutes: { label: "Light sleep", unit: "min" },
+    rem_minutes: { label: "REM sleep", unit: "min" },
+    is_main_sleep: { label: "Main sleep", unit: null },
+    segments: { label: "Sleep segments", unit: null },
+  },
+  hrv: {
+    daily_rmssd: { label: "Heart rate variability (RMSSD)", unit: "ms" },
+    deep_rmssd: { label: "Heart rate variability in deep sleep (RMSSD)", unit: "ms" },
+  },
+  spo2: {
+    avg: { label: "Oxygen saturation, nightly average", unit: "%", codes: SPO2_CODES },
+    min: { label: "Oxygen saturation, nightly minimum", unit: "%" },
+    max: { label: "Oxygen saturation, nightly maximum", unit: "%" },
+  },
+  breathing_rate: {
+    breathing_rate: { label: "Respiratory rate during sleep", unit: "/min", codes: RESPIRATORY_RATE_CODES },
+  },
+  skin_temp: {
+    nightly_relative: { label: "Skin temperature vs personal baseline", unit: "Cel" },
+  },
+  resting_hr: {
+    resting_heart_rate: { label: "Resting heart rate", unit: "/min", codes: HEART_RATE_CODES },
+  },
+  steps: {
+    steps: { label: "Steps", unit: "{steps}" },
+  },
+  azm: {
+    active_zone_minutes: { label: "Active zone minutes", unit: "min" },
+    fat_burn: { label: "Fat burn zone minutes", unit: "min" },
+    cardio: { label: "Cardio zone minutes", unit: "min" },
+    peak: { label: "Peak zone minutes", unit: "min" },
+  },
+  cardio_fitness: {
+    vo2_max: { label: "Estimated VO2 max", unit: "mL/kg/min" },
+    vo2_max_low: { label: "Estimated VO2 max, low end", unit: "mL/kg/min" },
+    vo2_max_high: { label: "Estimated VO2 max, high end", unit: "mL/kg/min" },
+  },
+};
+
+const VITAL_SIGNS: MetricName[] = ["resting_hr", "spo2", "breathing_rate", "skin_temp", "hrv"];
+
+type Dated<T> = Array<{ dateTime: string; value?: T }>;
+
+function daily<T>(metric: MetricName, entries: Dated<T> | undefined, values: (value: T | undefined) => Record<string, Value>): ExportRecord[] {
+  return (entries || []).map((entry) => ({ date: entry.dateTime, metric, start_time: null, values: values(entry.value) }));
+}
+
+function sleepValues(record: SleepRecord): Record<string, Value> {
+  return {
+    minutes_asleep: record.minutes_asleep,
+    minutes_awake: record.minutes_awake,
+    time_in_bed_minutes: record.time_in_bed_minutes,
+    efficiency: record.efficiency,
+    deep_minutes: record.stages?.deep ?? null,
+    light_minutes: record.stages?.light ?? null,
+    rem_minutes: record.stages?.rem ?? null,
+    is_main_sleep: record.is_main_sleep,
+    segments: record.segments,
+  };
+}
+
+/**
+ * Flat records from a metric range in the Fitbit response shape (see readRange)
+ */
+export function exportRecords(metric: MetricName, raw: unknown, startDate: string, endDate: string): ExportRecord[] {
+  switch (metric) {
+    case "sleep": {
+      const entries = (raw as { sleep?: Array<Record<string, unknown>> }).sleep || [];
+      // Split nights are joined and naps kept apart, as in the sleep routes
+      return groupSleepDays(entries, startDate, endDate).flatMap((day) =>
+        [day.main_sleep, ...day.naps]
+          .filter((record): record is SleepRecord => record !== null)
+          .map((record) => ({ date: day.date, metric, start_time: record.start_time, values: sleepValues(record) }))
+      );
+    }
+    case "hrv":
+      return daily(metric, (raw as { hrv?: Dated<{ dailyRmssd?: number; deepRmssd?: number }> }).hrv, (v) => ({
+        daily_rmssd: v?.dailyRmssd ?? null,
+        deep_rmssd: v?.deepRmssd ?? null,
+      }));
+    case "spo2":
+      return daily(metric, Array.isArray(raw) ? (raw as Dated<{ avg?: number; min?: number; max?: number }>) : [], (v) => ({
+        avg: v?.avg ?? null,
+        min: v?.min ?? null,
+        max: v?.max ?? null,
+      }));
+    case "breathing_rate":
+      return daily(metric, (raw as { br?: Dated<{ breathingRate?: number }> }).br, (v) => ({ breathing_rate: v?.breathingRate ?? null }));
+    case "skin_temp":
+      return daily(metric, (raw as { tempSkin?: Dated<{ nightlyRelative?: number }> }).tempSkin, (v) => ({ nightly_relative: v?.nightlyRelative ?? null }));
+    case "resting_hr":
+      return daily(metric, (raw as { "activities-heart"?: Dated<{ restingHeartRate?: number }> })["activities-heart"], (v) => ({
+        resting_heart_rate: v?.restingHeartRate ?? null,
+      }));
+    case "steps":
+      return daily(metric, (raw as { "activities-steps"?: Dated<string | number> })["activities-steps"], (v) => ({
+        steps: v === undefined ? null : Number(v),
+      }));
+    case "azm":
+      return daily(
+        metric,
+        (raw as { "activities-active-zone-minutes"?: Dated<Record<string, number | undefined>> })["activities-active-zone-minutes"],
+        (v) => ({
+          active_zone_minutes: v?.activeZoneMinutes ?? null,
+          fat_burn: v?.fatBurnActiveZoneMinutes ?? null,
+          cardio: v?.cardioActiveZoneMinutes ?? null,
+          peak: v?.peakActiveZoneMinutes ?? null,
+        })
+      );
+    case "cardio_fitness":
+      return daily(metric, (raw as { cardioScore?: Dated<{ vo2Max?: string }> }).cardioScore, (v) => ({ ...parseVo2Max(v?.vo2Max) }));
+  }
+}
+
+export interface ExportWriter {
+  content_type: string;
+  extension: string;
+  begin(): string;
+  write(record: ExportRecord): string;
+  end(): string;
+}
+
+function csvCell(value: Value | string): string {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Long format, one row per value, so any mix of metrics shares the columns
+ */
+function csvWriter(): ExportWriter {
+  const columns = ["date", "metric", "start_time", "field", "value", "unit"];
+  return {
+    content_type: "text/csv; charset=utf-8",
+    extension: "csv",
+    begin: () => `${columns.join(",")}\n`,
+    write: (record) =>
+      Object.entries(record.values)
+        .map(([field, value]) =>
+          [record.date, record.metric, record.start_time, field, value, FIELDS[record.metric][field]?.unit ?? null].map(csvCell).join(",") + "\n"
+        )
+        .join(""),
+    end: () => "",
+  };
+}
+
+function ndjsonWriter(): ExportWriter {
+  return {
+    content_type: "application/x-ndjson",
+    extension: "ndjson",
+    begin: () => "",
+    write: (record) =>
+      JSON.stringify({ date: record.date, metric: record.metric, ...(record.start_time && { start_time: record.start_time }), ...record.values }) + "\n",
+    end: () => "",
+  };
+}
+
+function observation(record: ExportRecord, field: string, value: Value, subject: string): Record<string, unknown> {
+  const definition = FIELDS[record.metric][field];
+  const category = VITAL_SIGNS.includes(record.metric) ? "vital-signs" : "activity";
+  return {
+    resourceType: "Observation",
+    status: "final",
+    category: [{ coding: [{ system: OBSERVATION_CATEGORY, code: category }] }],
+    code: { ...(definition.codes && { coding: definition.codes }), text: definition.label },
+    subject: { display: subject },
+    // Sleep times are local without an offset, which FHIR doesn't accept, so sleeps carry the date they end on
+    effectiveDateTime: record.date,
+    ...(typeof value === "boolean"
+      ? { valueBoolean: value }
+      : { valueQuantity: { value, ...(definition.unit && { unit: definition.unit, system: UCUM, code: definition.unit }) } }),
+  };
+}
+
+/**
+ * A collection Bundle with one Observation per value, written entry by entry
+ */
+function fhirWriter(subject: string): ExportWriter {
+  let entries = 0;
+  return {
+    content_type: "application/fhir+json",
+    extension: "json",
+    begin: () => `{"resourceType":"Bundle","type":"collection","timestamp":${JSON.stringify(new Date().toISOString())},"entry":[`,
+    write: (record) =>
+      Object.entries(record.values)
+        .filter(([, value]) => value !== null)
+        .map(([field, value]) => {
+          const entry = JSON.stringify({ fullUrl: `urn:uuid:${randomUUID()}`, resource: observation(record, field, value, subject) });
+          return entries++ ? `,${entry}` : entry;
+        })
+        .join(""),
+    end: () => "]}\n",
+  };
+}
+
+export function createExportWriter(format: ExportFormat, userId: string): ExportWriter {
+  switch (format) {
+    case "csv":
+      return csvWriter();
+    case "ndjson":
+      return ndjsonWriter();
+    case "fhir":
+      return fhirWriter(userId);
+  }
+}
@@ -0,0 +1,278 @@
+/**
+ * Local stand-in for the Fitbit Web API, for tests and offline development.
+ * Serves realistic sleep, HRV, SpO2, breathing rate, skin temperature, heart
+ * rate, AZM and activity payloads that are the same for a date on every run;
+ * the response shapes come from fitbit-payloads.ts.
+ * Scenarios make it expire tokens (401), rate limit (429), fail (503) or hang.
+ * Point the API at it with FITBIT_API_URL, or run it standalone:
+ * `npm run simulator -w @fitbitbot/api`.
+ */
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { pathToFileURL } from "url";
+import { dayOfWeek, formatDate } from "./utils.js";
+import { DayModel, FitbitDataSource, FitbitPayloadError, HEART_RATE_ZONES, SleepPeriodModel, between, fitbitApiResponse, fitbitEntries, noise } from "./fitbit-payloads.js";
+
+export type FakeFitbitScenario = "normal" | "expired_token" | "rate_limited" | "server_error" | "timeout";
+
+export interface FakeFitbitOptions {
+  timezone?: string; // Profile timezone
+  lastDate?: string; // Newest date with data, defaults to today in the profile timezone
+}
+
+export interface FakeFitbitRequest {
+  path: string;
+  query: Record<string, string>;
+  token: string | null;
+  status: number | null; // null while the request hangs
+}
+
+export interface FakeFitbitServer {
+  url: string;
+  // Every request received, oldest first
+  requests: FakeFitbitRequest[];
+  // Apply a scenario to the next `times` requests, or until changed
+  setScenario(scenario: FakeFitbitScenario, times?: number): void;
+  close(): Promise<void>;
+}
+
+const WORKOUTS = [
+  { name: "Run", minutes: 42, average_hr: 152, km_per_minute: 0.19, steps_per_minute: 165 },
+  { name: "Walk", minutes: 55, average_hr: 104, km_per_minute: 0.09, steps_per_minute: 110 },
+  { name: "Weights", minutes: 48, average_hr: null, km_per_minute: 0, steps_per_minute: 0 },
+  { name: "Bike", minutes: 65, average_hr: 138, km_per_minute: 0.45, steps_per_minute: 0 },
+];
+const WORKOUT_START = 17 * 60 + 30;
+
+// =========================================================================
+// The simulated day: independent noise per date, with a few fixed patterns
+// =========================================================================
+
+function isWeekend(date: string): boolean {
+  return ["Saturday", "Sunday"].includes(dayOfWeek(date));
+}
+
+function workoutFor(date: string) {
+  if (noise(date, "workout") >= 0.6) return null;
+  return WORKOUTS[Math.floor(noise(date, "workout-type") * WORKOUTS.length)];
+}
+
+/**
+ * Sleep periods ending on date: the night before, split in two now and then,
+ * and an afternoon nap on Saturdays
+ */
+function sleepPeriods(date: string): SleepPeriodModel[] {
+  const bedtime = (isWeekend(date) ? 24 * 60 : 23 * 60) + between(date, "bedtime", -30, 40) - 24 * 60;
+  const inBed = between(date, "in-bed", 430, 530);
+  const stagePeriod = (start: number, minutes: number, part: string, main: boolean): SleepPeriodModel => {
+    const awake = between(date, `wake-${part}`, Math.round(minutes * 0.08), Math.round(minutes * 0.14));
+    const asleep = minutes - awake;
+    const deep = Math.round(asleep * between(date, `deep-${part}`, 0.14, 0.2, 3));
+    const rem = Math.round(asleep * between(date, `rem-${part}`, 0.18, 0.25, 3));
+    return { start, minutes, awake, stages: { deep, rem }, main };
+  };
+
+  const periods: SleepPeriodModel[] = [];
+  if (noise(date, "split") < 0.1) {
+    // Awake for an hour in the middle of the night
+    const first = Math.round(inBed * 0.45);
+    periods.push(stagePeriod(bedtime, first, "first", true), stagePeriod(bedtime + first + 60, inBed - first, "second", false));
+  } else {
+    periods.push(stagePeriod(bedtime, inBed, "night", true));
+  }
+
+  if (dayOfWeek(date) === "Saturday") {
+    const napMinutes = between(date, "nap", 25, 45);
+    periods.push({ start: 14 * 60 + between(date, "nap-start", 0, 60), minutes: napMinutes, awake: 3, stages: null, main: false });
+  }
+  return periods;
+}
+
+function simulatedDay(date: string): DayModel {
+  const base = workoutFor(date);
+  const restingHr = between(date, "rhr", 52, 60);
+  const hard = base?.average_hr ? base.average_hr >= HEART_RATE_ZONES[2].min : false;
+
+  let workout: DayModel["workout"] = null;
+  if (base) {
+    const minutes = base.minutes + between(date, "workout-minutes", -8, 8);
+    workout = {
+      name: base.name,
+      start: WORKOUT_START,
+      minutes,
+      average_hr: base.average_hr,
+      zone_minutes: base.average_hr ? (hard ? [3, 6, minutes - 15, 6] : [6, minutes - 8, 2, 0]) : null,
+      steps: base.steps_per_minute ? minutes * base.steps_per_minute : null,
+      distance_km: base.km_per_minute ? Math.round(minutes * base.km_per_minute * 100) / 100 : null,
+      calories: Math.round(minutes * (base.average_hr ? base.average_hr / 18 : 5)),
+      manual: base.name === "Weights",
+    };
+  }
+
+  const steps = between(date, "steps", 5200, 10800) + (base ? base.minutes * base.steps_per_minute : 0);
+  const veryActive = hard ? base!.minutes : between(date, "very-active", 0, 15);
+  const fairlyActive = between(date, "fairly-active", 5, 30);
+  const lightlyActive = between(date, "lightly-active", 150, 260);
+  const hrv = between(date, "hrv", 36, 52, 3);
+  const spo2 = between(date, "spo2", 94.8, 97.6, 1);
+
+  return {
+    sleep: sleepPeriods(date),
+    hrv: { daily: hrv, deep: Math.round((hrv + between(date, "hrv-deep", 2, 8, 3)) * 1000) / 1000 },
+    spo2: { avg: spo2, min: Math.round((spo2 - between(date, "spo2-min", 1.5, 3, 1)) * 10) / 10, max: Math.round((spo2 + 1.4) * 10) / 10 },
+    breathing_rate: between(date, "br", 13.2, 16.4, 1),
+    skin_temp: between(date, "temp", -0.8, 0.8, 1),
+    vo2_max: 44 + Math.floor(noise(date.slice(0, 7), "vo2") * 3),
+    resting_hr: restingHr,
+    zone_minutes: {
+      fat_burn: between(date, "fat-burn", 30, 90) + (base && !hard ? base.minutes : 0),
+      cardio: hard ? between(date, "cardio", 20, 35) : between(date, "cardio", 0, 5),
+      peak: hard ? between(date, "peak", 3, 12) : 0,
+    },
+    // Low while asleep, higher through the day, a peak during a workout
+    heart_rate: () => {
+      const bpm: number[] = [];
+      for (let minute = 0; minute < 1440; minute++) {
+        let value = minute < 7 * 60 || minute >= 23 * 60 ? restingHr - 3 : restingHr + 18;
+        if (minute >= 12 * 60 && minute < 13 * 60) value += 12; // Lunch walk
+        if (workout?.average_hr && minute >= workout.start && minute < workout.start + workout.minutes) value = workout.average_hr;
+        bpm.push(value + Math.round(noise(date, `hr-${minute}`) * 8) - 4);
+      }
+      return bpm;
+    },
+    activity: {
+      steps,
+      floors: between(date, "floors", 2, 18),
+      distance_km: Math.round(steps * 0.00078 * 100) / 100,
+      calories_bmr: 1710,
+      activity_calories: Math.round(steps * 0.045 + veryActive * 9 + fairlyActive * 5),
+      sedentary_minutes: 1440 - veryActive - fairlyActive - lightlyActive - 480,
+      lightly_active_minutes: lightlyActive,
+      fairly_active_minutes: fairlyActive,
+      very_active_minutes: veryActive,
+    },
+    workout,
+  };
+}
+
+// =========================================================================
+// Server
+// =========================================================================
+
+export async function startFakeFitbitServer(options: FakeFitbitOptions = {}, port = 0): Promise<FakeFitbitServer> {
+  const timezone = options.timezone ?? "Europe/Helsinki";
+  const lastDate = () => options.lastDate ?? formatDate(new Date(), timezone);
+  const source: FitbitDataSource = { display_name: "Test User", encoded_id: "FAKE01", timezone, lastDate, day: simulatedDay };
+
+  const requests: FakeFitbitRequest[] = [];
+  let scenario: FakeFitbitScenario = "normal";
+  let scenarioRemaining = Infinity;
+  let quota = { hour: 0, used: 0 }; // Like Fitbit's 150 requests an hour, for the rate limit headers
+
+  const server: Server = createServer((req, res) => {
+    const url = new URL(req.url || "/", "http://localhost");
+    const auth = req.headers.authorization;
+    const logged: FakeFitbitRequest = {
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      token: auth?.startsWith("Bearer ") ? auth.slice(7) : null,
+      status: null,
+    };
+    requests.push(logged);
+
+    const sendJson = (status: number, body: unknown, headers: Record<string, string> = {}) => {
+      logged.status = status;
+      res.writeHead(status, { "Content-Type": "application/json", ...headers });
+      res.end(JSON.stringify(body));
+    };
+    const sendError = (status: number, errorType: string, message: string, headers: Record<string, string> = {}) =>
+      sendJson(status, { errors: [{ errorType, message }], success: false }, headers);
+
+    const active = scenario;
+    if (active !== "normal" && --scenarioRemaining <= 0) {
+      scenario = "normal";
+    }
+
+    if (!logged.token) {
+      return sendError(401, "invalid_client", "Authorization header required.");
+    }
+
+    const hour = Math.floor(Date.now() / 3600000);
+    if (quota.hour !== hour) quota = { hour, used: 0 };
+    const untilNextHour = 3600 - Math.floor(Date.now() / 1000) % 3600;
+
+    switch (active) {
+      case "expired_token":
+        return sendError(401, "expired_token", `Access token expired: ${logged.token.slice(0, 8)}...`);
+      case "rate_limited":
+        return sendError(429, "system", "Too Many Requests", {
+          "Fitbit-Rate-Limit-Limit": "150",
+          "Fitbit-Rate-Limit-Remaining": "0",
+          "Fitbit-Rate-Limit-Reset": String(untilNextHour),
+          "Retry-After": String(untilNextHour),
+        });
+      case "server_error":
+        return sendError(503, "system", "Service Unavailable");
+      case "timeout":
+        return; // Never answer; close() drops the connection
+    }
+
+    if (req.method !== "GET") {
+      return sendError(405, "method_not_allowed", `${req.method} ${url.pathname}`);
+    }
+
+    quota.used++;
+    const rateLimit = {
+      "Fitbit-Rate-Limit-Limit": "150",
+      "Fitbit-Rate-Limit-Remaining": String(Math.max(0, 150 - quota.used)),
+      "Fitbit-Rate-Limit-Reset": String(untilNextHour),
+    };
+    try {
+      sendJson(200, fitbitApiResponse(source, url.pathname, url.searchParams), rateLimit);
+    } catch (e) {
+      if (!(e instanceof FitbitPayloadError)) throw e;
+      sendError(e.status, e.errorType, e.message, rateLimit);
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(port, "127.0.0.1", resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    setScenario(next, times = Infinity) {
+      scenario = next;
+      scenarioRemaining = times;
+    },
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((e) => (e ? reject(e) : resolve()));
+        server.closeAllConnections();
+      }),
+  };
+}
+
+/**
+ * The simulator's data for a date, for checking API output against in tests
+ */
+export const fakeFitbitData = {
+  sleepLogs: (date: string) => fitbitEntries.sleepLogs(date, simulatedDay(date)),
+  hrv: (date: string) => fitbitEntries.hrv(date, simulatedDay(date)),
+  spo2: (date: string) => fitbitEntries.spo2(date, simulatedDay(date)),
+  breathingRate: (date: string) => fitbitEntries.breathingRate(date, simulatedDay(date)),
+  skinTemp: (date: string) => fitbitEntries.skinTemp(date, simulatedDay(date)),
+  heartRate: (date: string) => fitbitEntries.heartRate(date, simulatedDay(date)),
+  azm: (date: string) => fitbitEntries.azm(date, simulatedDay(date)),
+  activity: (date: string) => fitbitEntries.activity(date, simulatedDay(date)),
+  activityLog: (date: string, timezone = "Europe/Helsinki") => fitbitEntries.activityLog(date, simulatedDay(date), timezone),
+};
+
+// Run standalone: npm run simulator -w @fitbitbot/api
+if (import.meta.url === pathToFileURL(process.argv[1] || "").href) {
+  const port = parseInt(process.env.PORT || "") || 8090;
+  startFakeFitbitServer({ timezone: process.env.FAKE_FITBIT_TIMEZONE }, port).then((server) => {
+    console.log(`Fake Fitbit API on ${server.url}`);
+    console.log(`Start the API with FITBIT_API_URL=${server.url} and any FITBIT_TOKEN, e.g.`);
+    console.log(`  FITBIT_TOKEN='{"access_token":"fake","refresh_token":"fake"}'`);
+  });
+}
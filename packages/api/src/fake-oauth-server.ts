@@ -0,0 +1,147 @@
+/**
+ * Minimal stand-in for Fitbit's OAuth2 endpoints, for tests.
+ * Authorization is auto-approved and PKCE verifiers are checked like Fitbit does.
+ * Point the API at it with FITBIT_AUTHORIZE_URL and FITBIT_TOKEN_URL.
+ */
+import { createHash, randomBytes } from "crypto";
+import { createServer, IncomingMessage, Server } from "http";
+import { AddressInfo } from "net";
+
+export interface FakeOAuthOptions {
+  clientId?: string;
+  fitbitUserId?: string;
+  expiresIn?: number;
+  denyAuthorization?: boolean; // Redirect back with error=access_denied
+  refreshTokens?: string[]; // Accepted as if issued earlier, e.g. the one in FITBIT_TOKEN
+}
+
+export interface FakeOAuthServer {
+  url: string;
+  authorizeUrl: string;
+  tokenUrl: string;
+  // Every token response issued, newest last
+  issuedTokens: Array<Record<string, unknown>>;
+  close(): Promise<void>;
+}
+
+interface IssuedCode {
+  codeChallenge: string;
+  redirectUri: string;
+  scope: string;
+}
+
+function base64Url(buffer: Buffer): string {
+  return buffer.toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+async function readBody(req: IncomingMessage): Promise<URLSearchParams> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return new URLSearchParams(Buffer.concat(chunks).toString("utf-8"));
+}
+
+export async function startFakeOAuthServer(options: FakeOAuthOptions = {}, port = 0): Promise<FakeOAuthServer> {
+  const clientId = options.clientId ?? "TESTCLIENT";
+  const fitbitUserId = options.fitbitUserId ?? "FAKE01";
+  const expiresIn = options.expiresIn ?? 28800;
+
+  const codes = new Map<string, IssuedCode>();
+  const refreshTokens = new Map<string, string>((options.refreshTokens ?? []).map((token) => [token, ""])); // refresh token -> scope
+  const issuedTokens: Array<Record<string, unknown>> = [];
+
+  const issueTokens = (scope: string) => {
+    const token = {
+      access_token: base64Url(randomBytes(24)),
+      refresh_token: base64Url(randomBytes(24)),
+      expires_in: expiresIn,
+      scope,
+      token_type: "Bearer",
+      user_id: fitbitUserId,
+    };
+    refreshTokens.set(token.refresh_token, scope);
+    issuedTokens.push(token);
+    return token;
+  };
+
+  const server: Server = createServer(async (req, res) => {
+    const url = new URL(req.url || "/", "http://localhost");
+    const sendJson = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+    const sendError = (status: number, errorType: string, message: string) =>
+      sendJson(status, { errors: [{ errorType, message }], success: false });
+
+    if (req.method === "GET" && url.pathname === "/oauth2/authorize") {
+      const q = url.searchParams;
+      const redirectUri = q.get("redirect_uri");
+      if (q.get("client_id") !== clientId || !redirectUri) {
+        return sendError(400, "invalid_request", "Invalid client_id or missing redirect_uri");
+      }
+      if (q.get("response_type") !== "code" || q.get("code_challenge_method") !== "S256" || !q.get("code_challenge")) {
+        return sendError(400, "invalid_request", "Expected response_type=code with an S256 code_challenge");
+      }
+
+      const location = new URL(redirectUri);
+      if (options.denyAuthorization) {
+        location.searchParams.set("error", "access_denied");
+        location.searchParams.set("error_description", "The user denied the request.");
+      } else {
+        const code = base64Url(randomBytes(16));
+        codes.set(code, { codeChallenge: q.get("code_challenge")!, redirectUri, scope: q.get("scope") || "" });
+        location.searchParams.set("code", code);
+      }
+      if (q.get("state")) location.searchParams.set("state", q.get("state")!);
+
+      res.writeHead(302, { Location: location.toString() });
+      res.end();
+      return;
+    }
+
+    if (req.method === "POST" && url.pathname === "/oauth2/token") {
+      const body = await readBody(req);
+      const grantType = body.get("grant_type");
+
+      if (grantType === "authorization_code") {
+        const issued = codes.get(body.get("code") || "");
+        codes.delete(body.get("code") || "");
+        if (!issued) {
+          return sendError(400, "invalid_grant", "Authorization code invalid");
+        }
+        if (issued.redirectUri !== body.get("redirect_uri")) {
+          return sendError(400, "invalid_grant", "Redirect URI mismatch");
+        }
+        const challenge = base64Url(createHash("sha256").update(body.get("code_verifier") || "").digest());
+        if (challenge !== issued.codeChallenge) {
+          return sendError(400, "invalid_grant", "Code verifier invalid");
+        }
+        return sendJson(200, issueTokens(issued.scope));
+      }
+
+      if (grantType === "refresh_token") {
+        const scope = refreshTokens.get(body.get("refresh_token") || "");
+        if (scope === undefined) {
+          return sendError(400, "invalid_grant", "Refresh token invalid");
+        }
+        // Fitbit rotates refresh tokens: the old one stops working
+        refreshTokens.delete(body.get("refresh_token")!);
+        return sendJson(200, issueTokens(scope));
+      }
+
+      return sendError(400, "unsupported_grant_type", `Unsupported grant_type: ${grantType}`);
+    }
+
+    sendError(404, "not_found", `${req.method} ${url.pathname}`);
+  });
+
+  await new Promise<void>((resolve) => server.listen(port, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url: baseUrl,
+    authorizeUrl: `${baseUrl}/oauth2/authorize`,
+    tokenUrl: `${baseUrl}/oauth2/token`,
+    issuedTokens,
+    close: () => new Promise<void>((resolve, reject) => server.close((e) => (e ? reject(e) : resolve()))),
+  };
+}
@@ -2,15 +2,35 @@
  * Fitbit API Client
  * Centralized client for all Fitbit API calls with automatic token refresh.
  */
-import { readFileSync, writeFileSync, mkdirSync, existsSync } from "fs";
+import { readFileSync, writeFileSync, mkdirSync, existsSync, readdirSync } from "fs";
 import { dirname, join } from "path";
 import { fileURLToPath } from "url";
+import { CacheBackend, cacheKey, createCacheBackend, ttlFor } from "./cache.js";
+import { DemoDataSource, createDemoDataSource, demoSeed, isDemoMode } from "./demo-data.js";
+import { FitbitPayloadError, fitbitApiResponse } from "./fitbit-payloads.js";
+import { recordFitbitRequest, recordTokenRefresh } from "./fitbit-usage.js";
+import { FITBIT_SCOPES } from "./oauth.js";
+import { getRequestContext } from "./request-context.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
-const TOKEN_FILE = join(__dirname, "..", "..", "..", "output", ".token.json");
+const OUTPUT_DIR = join(__dirname, "..", "..", "..", "output");
+const TOKEN_FILE = join(OUTPUT_DIR, ".token.json"); // Default user, predates multi-user support
+const USER_TOKEN_DIR = join(OUTPUT_DIR, "tokens");
 const TOKEN_URL = "https://api.fitbit.com/oauth2/token";
 const BASE_URL = "https://api.fitbit.com";
-const REQUEST_TIMEOUT = 30000; // 30 seconds
+const REQUEST_TIMEOUT = 30000; // 30 seconds, FITBIT_REQUEST_TIMEOUT_MS overrides
+
+export const DEFAULT_USER_ID = "default";
+// Lower case, with - but not _, so every ID has its own FITBIT_TOKEN_<USER_ID> env var
+export const USER_ID_PATTERN = /^[a-z0-9-]{1,64}$/;
+
+/**
+ * A user ID in its canonical lower case form, or null when it isn't valid
+ */
+export function normalizeUserId(userId: string): string | null {
+  const normalized = userId.toLowerCase();
+  return USER_ID_PATTERN.test(normalized) ? normalized : null;
+}
 
 export class FitbitAPIError extends Error {
   constructor(
@@ -29,71 +49,154 @@ export class FitbitRateLimitError extends FitbitAPIError {
   }
 }
 
-interface TokenData {
+export interface TokenData {
   access_token: string;
   refresh_token: string;
+  expires_in?: number; // Seconds, as returned by the token endpoint
+  expires_at?: string; // ISO timestamp, added when the token is saved
+  scope?: string;
+  user_id?: string;
+}
+
+export interface TokenStatus {
+  authenticated: boolean;
+  fitbit_user_id: string | null;
+  expires_at: string | null;
+  expired: boolean | null;
+  scopes: string[];
+  can_refresh: boolean;
+}
+
+/**
+ * Where a user's tokens live: env var and file for local use, secret for Cloud Run
+ */
+function tokenLocation(userId: string): { envVar: string; file: string; secretId: string } {
+  if (userId === DEFAULT_USER_ID) {
+    return { envVar: "FITBIT_TOKEN", file: TOKEN_FILE, secretId: "fitbit-token" };
+  }
+  return {
+    envVar: `FITBIT_TOKEN_${userId.toUpperCase().replace(/-/g, "_")}`,
+    file: join(USER_TOKEN_DIR, `${userId}.json`),
+    secretId: `fitbit-token-${userId}`,
+  };
+}
+
+// Cloud deployments get the default user's token injected from Secret Manager
+function isCloudDeployment(): boolean {
+  return !!process.env.FITBIT_TOKEN;
 }
 
 export class FitbitClient {
+  readonly userId: string;
   private accessToken: string | null = null;
   private refreshToken: string | null = null;
+  private tokenData: TokenData | null = null;
   private clientId: string | undefined;
   private clientSecret: string | undefined;
+  private cache: CacheBackend | null;
+  private secretLoadAttempted = false;
+  private demoData: DemoDataSource | null = null;
 
-  constructor() {
+  constructor(userId = DEFAULT_USER_ID, cache: CacheBackend | null = createCacheBackend()) {
+    this.userId = userId;
     this.clientId = process.env.CLIENT_ID;
     this.clientSecret = process.env.CLIENT_SECRET;
-    this.loadToken();
+    this.cache = cache;
+    if (isDemoMode()) {
+      this.demoData = createDemoDataSource(userId);
+      console.log(`Serving demo data for ${this.userId} (${this.demoData.encoded_id})`);
+    } else {
+      this.loadToken();
+    }
   }
 
   private loadToken(): void {
+    const { envVar, file } = tokenLocation(this.userId);
+
     // Try environment variable first (for Cloud Run)
-    const tokenEnv = process.env.FITBIT_TOKEN;
+    const tokenEnv = process.env[envVar];
     if (tokenEnv) {
       try {
         const tokenData = JSON.parse(tokenEnv) as TokenData;
         if (tokenData.access_token && tokenData.refresh_token) {
-          this.accessToken = tokenData.access_token;
-          this.refreshToken = tokenData.refresh_token;
-          console.log("Loaded tokens from FITBIT_TOKEN environment variable");
+          this.applyToken(tokenData);
+          console.log(`Loaded tokens for ${this.userId} from ${envVar} environment variable`);
           return;
         }
       } catch (e) {
-        console.warn("Failed to parse FITBIT_TOKEN env var:", e);
+        console.warn(`Failed to parse ${envVar} env var:`, e);
       }
     }
 
     // Fall back to local file (for local development)
-    if (existsSync(TOKEN_FILE)) {
+    if (existsSync(file)) {
       try {
-        const tokenData = JSON.parse(readFileSync(TOKEN_FILE, "utf-8")) as TokenData;
-        this.accessToken = tokenData.access_token;
-        this.refreshToken = tokenData.refresh_token;
-        console.log("Loaded tokens from", TOKEN_FILE);
+        const tokenData = JSON.parse(readFileSync(file, "utf-8")) as TokenData;
+        this.applyToken(tokenData);
+        console.log(`Loaded tokens for ${this.userId} from`, file);
       } catch (e) {
         console.warn("Failed to parse token file:", e);
       }
-    } else {
-      console.log("Token file not found at", TOKEN_FILE, "- Run authentication first.");
+    } else if (!isCloudDeployment()) {
+      console.log("Token file not found at", file, "- Visit /auth/login to authenticate.");
     }
   }
 
-  private async saveToken(tokenData: TokenData): Promise<void> {
+  /**
+   * On Cloud Run, users who connected after the last deploy only have their
+   * token in Secret Manager, so read it from there once.
+   */
+  private async loadTokenFromSecretManager(): Promise<void> {
+    if (this.secretLoadAttempted || this.accessToken || !isCloudDeployment()) return;
+    this.secretLoadAttempted = true;
+
+    try {
+      const projectId = process.env.GOOGLE_CLOUD_PROJECT || process.env.GCP_PROJECT;
+      if (!projectId) return;
+
+      const { SecretManagerServiceClient } = await import("@google-cloud/secret-manager");
+      const client = new SecretManagerServiceClient();
+      const [version] = await client.accessSecretVersion({
+        name: `projects/${projectId}/secrets/${tokenLocation(this.userId).secretId}/versions/latest`,
+      });
+      const payload = version.payload?.data?.toString();
+      if (payload) {
+        this.applyToken(JSON.parse(payload) as TokenData);
+        console.log(`Loaded tokens for ${this.userId} from Secret Manager`);
+      }
+    } catch (e) {
+      console.warn(`No token in Secret Manager for ${this.userId}:`, e);
+    }
+  }
+
+  private applyToken(tokenData: TokenData): void {
     this.accessToken = tokenData.access_token;
     this.refreshToken = tokenData.refresh_token;
+    this.tokenData = tokenData;
+  }
+
+  private async saveToken(tokenData: TokenData): Promise<void> {
+    if (tokenData.expires_in && !tokenData.expires_at) {
+      tokenData = {
+        ...tokenData,
+        expires_at: new Date(Date.now() + tokenData.expires_in * 1000).toISOString(),
+      };
+    }
+    this.applyToken(tokenData);
 
     // Cloud deployment: persist to Secret Manager
-    if (process.env.FITBIT_TOKEN) {
+    if (isCloudDeployment()) {
       await this.saveTokenToSecretManager(tokenData);
     } else {
       // Local development: save to file
+      const { file } = tokenLocation(this.userId);
       try {
-        const dir = dirname(TOKEN_FILE);
+        const dir = dirname(file);
         if (!existsSync(dir)) {
           mkdirSync(dir, { recursive: true });
         }
-        writeFileSync(TOKEN_FILE, JSON.stringify(tokenData, null, 2));
-        console.log("Saved tokens to", TOKEN_FILE);
+        writeFileSync(file, JSON.stringify(tokenData, null, 2));
+        console.log("Saved tokens to", file);
       } catch (e) {
         console.warn("Failed to save token file:", e);
       }
@@ -110,18 +213,45 @@ export class FitbitClient {
 
       const { SecretManagerServiceClient } = await import("@google-cloud/secret-manager");
       const client = new SecretManagerServiceClient();
-      const secretName = `projects/${projectId}/secrets/fitbit-token`;
+      const { secretId } = tokenLocation(this.userId);
+      const secretName = `projects/${projectId}/secrets/${secretId}`;
+
+      // New users don't have a secret yet
+      try {
+        await client.getSecret({ name: secretName });
+      } catch {
+        await client.createSecret({
+          parent: `projects/${projectId}`,
+          secretId,
+          secret: { replication: { automatic: {} } },
+        });
+      }
 
       await client.addSecretVersion({
         parent: secretName,
         payload: { data: Buffer.from(JSON.stringify(tokenData)) },
       });
-      console.log("Persisted refreshed token to Secret Manager");
+      console.log(`Persisted token for ${this.userId} to Secret Manager`);
     } catch (e) {
       console.warn("Failed to persist token to Secret Manager:", e);
     }
   }
 
+  private postToken(params: Record<string, string>): Promise<Response> {
+    const headers: Record<string, string> = { "Content-Type": "application/x-www-form-urlencoded" };
+    if (this.clientSecret) {
+      const credentials = Buffer.from(`${this.clientId}:${this.clientSecret}`).toString("base64");
+      headers.Authorization = `Basic ${credentials}`;
+    }
+
+    return fetch(process.env.FITBIT_TOKEN_URL || TOKEN_URL, {
+      method: "POST",
+      headers,
+      body: new URLSearchParams({ client_id: this.clientId!, ...params }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+    });
+  }
+
   private async refreshAccessToken(): Promise<boolean> {
     if (!this.refreshToken || !this.clientId || !this.clientSecret) {
       console.warn("Cannot refresh token: missing refresh_token, client_id, or client_secret");
@@ -129,55 +259,152 @@ export class FitbitClient {
     }
 
     try {
-      const credentials = Buffer.from(`${this.clientId}:${this.clientSecret}`).toString("base64");
-      const response = await fetch(TOKEN_URL, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/x-www-form-urlencoded",
-          Authorization: `Basic ${credentials}`,
-        },
-        body: new URLSearchParams({
-          grant_type: "refresh_token",
-          refresh_token: this.refreshToken,
-        }),
-        signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+      const response = await this.postToken({
+        grant_type: "refresh_token",
+        refresh_token: this.refreshToken,
       });
 
       if (response.ok) {
         const tokenData = (await response.json()) as TokenData;
         await this.saveToken(tokenData);
         console.log("Successfully refreshed access token");
+        recordTokenRefresh(this.userId, true);
         return true;
       } else {
         console.error("Token refresh failed:", response.status, await response.text());
+        recordTokenRefresh(this.userId, false);
         return false;
       }
     } catch (e) {
       console.error("Token refresh request failed:", e);
+      recordTokenRefresh(this.userId, false);
       return false;
     }
   }
 
+  /**
+   * Exchange an OAuth2 authorization code (PKCE) for tokens and persist them
+   */
+  async exchangeAuthorizationCode(code: string, codeVerifier: string, redirectUri: string): Promise<TokenStatus> {
+    if (!this.clientId) {
+      throw new FitbitAPIError(500, "CLIENT_ID is not configured");
+    }
+
+    let response: Response;
+    try {
+      response = await this.postToken({
+        grant_type: "authorization_code",
+        code,
+        code_verifier: codeVerifier,
+        redirect_uri: redirectUri,
+      });
+    } catch (e) {
+      throw new FitbitAPIError(503, `Token request failed: ${e}`);
+    }
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new FitbitAPIError(response.status, `Authorization code exchange failed: ${text.slice(0, 200)}`);
+    }
+
+    await this.saveToken((await response.json()) as TokenData);
+    console.log(`Completed OAuth2 authorization for ${this.userId}`);
+    return this.getTokenStatus();
+  }
+
+  async getTokenStatus(): Promise<TokenStatus> {
+    if (this.demoData) {
+      return {
+        authenticated: true,
+        fitbit_user_id: this.demoData.encoded_id,
+        expires_at: null,
+        expired: null,
+        scopes: [...FITBIT_SCOPES].sort(),
+        can_refresh: false,
+      };
+    }
+    await this.loadTokenFromSecretManager();
+    const expiresAt = this.tokenData?.expires_at ?? null;
+    return {
+      authenticated: !!this.accessToken,
+      fitbit_user_id: this.tokenData?.user_id ?? null,
+      expires_at: expiresAt,
+      expired: expiresAt ? Date.parse(expiresAt) <= Date.now() : null,
+      scopes: this.tokenData?.scope ? this.tokenData.scope.split(" ").sort() : [],
+      can_refresh: !!(this.refreshToken && this.clientId && this.clientSecret),
+    };
+  }
+
   private async request<T = Record<string, unknown>>(
     endpoint: string,
     params?: Record<string, string>
   ): Promise<T> {
+    const context = getRequestContext();
+    // Demo responses are cached apart from real ones, which a file or SQLite cache may still hold
+    const user = this.demoData ? `demo:${demoSeed()}:${this.userId}` : this.userId;
+    const key = `${user}:${cacheKey(endpoint, params)}`;
+
+    if (this.cache && !context?.fresh) {
+      try {
+        const cached = await this.cache.get(key);
+        if (cached) {
+          if (context) context.cache.hits++;
+          return cached.data as T;
+        }
+      } catch (e) {
+        console.warn("Cache read failed:", e);
+      }
+    }
+
+    const data = await this.fetchFromApi<T>(endpoint, params);
+    if (context) context.cache.misses++;
+
+    if (this.cache) {
+      try {
+        await this.cache.set(key, { data, expires_at: Date.now() + ttlFor(endpoint, params) * 1000 });
+      } catch (e) {
+        console.warn("Cache write failed:", e);
+      }
+    }
+
+    return data;
+  }
+
+  private async fetchFromApi<T>(
+    endpoint: string,
+    params?: Record<string, string>
+  ): Promise<T> {
+    if (this.demoData) return this.fetchFromDemoData<T>(endpoint, params);
+
+    await this.loadTokenFromSecretManager();
     if (!this.accessToken) {
       throw new FitbitAPIError(401, "No access token available. Run authentication first.");
     }
 
-    const url = new URL(`${BASE_URL}${endpoint}`);
+    // FITBIT_API_URL points at a stand-in such as fake-fitbit-server.ts
+    const url = new URL(`${process.env.FITBIT_API_URL || BASE_URL}${endpoint}`);
     if (params) {
       Object.entries(params).forEach(([key, value]) => {
         url.searchParams.set(key, value);
       });
     }
 
+    const timeout = parseInt(process.env.FITBIT_REQUEST_TIMEOUT_MS || "") || REQUEST_TIMEOUT;
     const makeRequest = async (): Promise<Response> => {
-      return fetch(url.toString(), {
-        headers: { Authorization: `Bearer ${this.accessToken}` },
-        signal: AbortSignal.timeout(REQUEST_TIMEOUT),
-      });
+      const started = performance.now();
+      const elapsed = () => (performance.now() - started) / 1000;
+      try {
+        const response = await fetch(url.toString(), {
+          headers: { Authorization: `Bearer ${this.accessToken}` },
+          signal: AbortSignal.timeout(timeout),
+        });
+        recordFitbitRequest(this.userId, endpoint, String(response.status), elapsed(), response.headers);
+        return response;
+      } catch (e) {
+        const status = e instanceof Error && e.name === "TimeoutError" ? "timeout" : "error";
+        recordFitbitRequest(this.userId, endpoint, status, elapsed(), null);
+        throw e;
+      }
     };
 
     let response: Response;
@@ -185,7 +412,7 @@ export class FitbitClient {
       response = await makeRequest();
     } catch (e) {
       if (e instanceof Error && e.name === "TimeoutError") {
-        throw new FitbitAPIError(504, `Request timed out after ${REQUEST_TIMEOUT / 1000} seconds`);
+        throw new FitbitAPIError(504, `Request timed out after ${timeout / 1000} seconds`);
       }
       throw new FitbitAPIError(503, `Request failed: ${e}`);
     }
@@ -198,7 +425,7 @@ export class FitbitClient {
           response = await makeRequest();
         } catch (e) {
           if (e instanceof Error && e.name === "TimeoutError") {
-            throw new FitbitAPIError(504, `Request timed out after ${REQUEST_TIMEOUT / 1000} seconds`);
+            throw new FitbitAPIError(504, `Request timed out after ${timeout / 1000} seconds`);
           }
           throw new FitbitAPIError(503, `Request failed: ${e}`);
         }
@@ -219,6 +446,15 @@ export class FitbitClient {
     return response.json() as Promise<T>;
   }
 
+  private async fetchFromDemoData<T>(endpoint: string, params?: Record<string, string>): Promise<T> {
+    try {
+      return fitbitApiResponse(this.demoData!, endpoint, new URLSearchParams(params)) as T;
+    } catch (e) {
+      if (e instanceof FitbitPayloadError) throw new FitbitAPIError(e.status, e.message);
+      throw e;
+    }
+  }
+
   // =========================================================================
   // Sleep Endpoints
   // =========================================================================
@@ -332,14 +568,43 @@ export class FitbitClient {
   getActiveZoneMinutesRange(startDate: string, endDate: string) {
     return this.request(`/1/user/-/activities/active-zone-minutes/date/${startDate}/${endDate}.json`);
   }
+
+  // =========================================================================
+  // Profile
+  // =========================================================================
+
+  getProfile() {
+    return this.request("/1/user/-/profile.json");
+  }
 }
 
-// Singleton instance
-let client: FitbitClient | null = null;
+// One client per user
+const clients = new Map<string, FitbitClient>();
 
-export function getFitbitClient(): FitbitClient {
+/**
+ * Get the client for a user, defaulting to the user selected by the current request
+ */
+export function getFitbitClient(userId = getRequestContext()?.userId ?? DEFAULT_USER_ID): FitbitClient {
+  let client = clients.get(userId);
   if (!client) {
-    client = new FitbitClient();
+    client = new FitbitClient(userId);
+    clients.set(userId, client);
   }
   return client;
 }
+
+/**
+ * Users with stored tokens (local files) or an active client in this process
+ */
+export function listKnownUserIds(): string[] {
+  const userIds = new Set<string>(clients.keys());
+  if (process.env.FITBIT_TOKEN || existsSync(TOKEN_FILE) || isDemoMode()) userIds.add(DEFAULT_USER_ID);
+  if (existsSync(USER_TOKEN_DIR)) {
+    for (const file of readdirSync(USER_TOKEN_DIR)) {
+      const userId = file.slice(0, -".json".length);
+      // Files saved under IDs that are no longer valid can't be reached by any request
+      if (file.endsWith(".json") && USER_ID_PATTERN.test(userId)) userIds.add(userId);
+    }
+  }
+  return [...userIds].sort();
+}
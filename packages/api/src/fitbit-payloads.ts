@@ -0,0 +1,474 @@
+/**
+ * Fitbit Web API responses built from a day-by-day model of someone's data.
+ * The fake Fitbit server and demo mode both answer through this, so every
+ * endpoint FitbitClient calls gets the shapes, range limits and errors that
+ * Fitbit uses.
+ */
+import { addDays, daysBetween } from "./utils.js";
+
+// Longest range Fitbit accepts per endpoint
+const RANGE_LIMITS: Record<string, number> = {
+  sleep: 100,
+  hrv: 30,
+  spo2: 30,
+  br: 30,
+  temp: 30,
+  cardioscore: 30,
+  heart: 1095,
+  azm: 1095,
+  activities: 1095,
+};
+
+// Fitbit's default zones for a max heart rate of about 185
+export const HEART_RATE_ZONES = [
+  { name: "Out of Range", min: 30, max: 98 },
+  { name: "Fat Burn", min: 98, max: 123 },
+  { name: "Cardio", min: 123, max: 151 },
+  { name: "Peak", min: 151, max: 220 },
+];
+
+export interface SleepPeriodModel {
+  start: number; // Minutes from midnight of the date, negative for the evening before
+  minutes: number; // Time in bed
+  awake: number;
+  stages: { deep: number; rem: number } | null; // Light is the rest; null for short "classic" logs
+  main: boolean; // Fitbit's isMainSleep
+}
+
+export interface WorkoutModel {
+  name: string;
+  start: number; // Minute of the day
+  minutes: number;
+  average_hr: number | null; // null when logged without a tracker
+  zone_minutes: [number, number, number, number] | null; // Out of range, fat burn, cardio, peak
+  steps: number | null;
+  distance_km: number | null;
+  calories: number;
+  manual: boolean;
+}
+
+export interface DayModel {
+  sleep: SleepPeriodModel[]; // Periods ending on the date
+  hrv: { daily: number; deep: number };
+  spo2: { avg: number; min: number; max: number };
+  breathing_rate: number;
+  skin_temp: number; // Nightly deviation from baseline
+  vo2_max: number; // Low end of Fitbit's 4-wide range
+  resting_hr: number;
+  zone_minutes: { fat_burn: number; cardio: number; peak: number };
+  heart_rate(): number[]; // BPM for each minute of the day
+  activity: {
+    steps: number;
+    floors: number;
+    distance_km: number;
+    calories_bmr: number;
+    activity_calories: number;
+    sedentary_minutes: number;
+    lightly_active_minutes: number;
+    fairly_active_minutes: number;
+    very_active_minutes: number;
+  };
+  workout: WorkoutModel | null;
+}
+
+export interface FitbitDataSource {
+  display_name: string;
+  encoded_id: string; // Fitbit user ID
+  timezone: string; // Profile timezone
+  lastDate(): string; // Newest date with data
+  day(date: string): DayModel;
+}
+
+export class FitbitPayloadError extends Error {
+  constructor(
+    public status: number,
+    public errorType: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "FitbitPayloadError";
+  }
+}
+
+// Deterministic value in [0, 1) for a key and a name, for generated data
+export function noise(key: string, name: string): number {
+  let hash = 2166136261;
+  for (const char of `${key}:${name}`) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 16777619);
+  }
+  return (hash >>> 0) / 4294967296;
+}
+
+export function between(key: string, name: string, min: number, max: number, decimals = 0): number {
+  const factor = 10 ** decimals;
+  return Math.round((min + noise(key, name) * (max - min)) * factor) / factor;
+}
+
+function clock(date: string, minutesFromMidnight: number): string {
+  const d = new Date(Date.parse(`${date}T00:00:00Z`) + minutesFromMidnight * 60000);
+  return d.toISOString().slice(0, 23);
+}
+
+// "+03:00" for the timezone's offset at noon on date
+function utcOffset(date: string, timezone: string): string {
+  const name = new Intl.DateTimeFormat("en-US", { timeZone: timezone, timeZoneName: "longOffset" })
+    .formatToParts(new Date(`${date}T12:00:00Z`))
+    .find((p) => p.type === "timeZoneName")?.value;
+  return !name || name === "GMT" ? "+00:00" : name.slice(3);
+}
+
+function dateRange(start: string, end: string): string[] {
+  const dates: string[] = [];
+  for (let date = start; date <= end; date = addDays(date, 1)) dates.push(date);
+  return dates;
+}
+
+function logId(date: string, kind: number): number {
+  return 40000000000 + Number(date.replace(/-/g, "")) * 10 + kind;
+}
+
+function requireDate(query: URLSearchParams, name: string): string {
+  const value = query.get(name) || "";
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) throw new FitbitPayloadError(400, "validation", `Invalid ${name}: ${value}`);
+  return value;
+}
+
+function checkRange(start: string, end: string, limit: number): void {
+  if (start > end) throw new FitbitPayloadError(400, "validation", "Start date must be before end date");
+  if (daysBetween(start, end) > limit) {
+    throw new FitbitPayloadError(400, "validation", `The time range cannot be longer than ${limit} days`);
+  }
+}
+
+// =========================================================================
+// Entries for one date
+// =========================================================================
+
+function sleepLogs(date: string, day: DayModel): Array<Record<string, unknown>> {
+  return day.sleep.map((period, i) => {
+    const asleep = period.minutes - period.awake;
+    const common = {
+      dateOfSleep: date,
+      duration: period.minutes * 60000,
+      efficiency: Math.round((asleep / period.minutes) * 100),
+      endTime: clock(date, period.start + period.minutes),
+      infoCode: 0,
+      isMainSleep: period.main,
+      logId: logId(date, i + 1),
+      logType: "auto_detected",
+      minutesAfterWakeup: 0,
+      minutesAsleep: asleep,
+      minutesAwake: period.awake,
+      minutesToFallAsleep: 0,
+      startTime: clock(date, period.start),
+      timeInBed: period.minutes,
+    };
+
+    if (!period.stages) {
+      const restless = Math.floor(period.awake / 2);
+      const summary = {
+        asleep: { count: 0, minutes: asleep },
+        awake: { count: 1, minutes: period.awake - restless },
+        restless: { count: 2, minutes: restless },
+      };
+      return { ...common, levels: { data: [], summary }, type: "classic" };
+    }
+
+    const { deep, rem } = period.stages;
+    const stage = (count: number, minutes: number) => ({ count, minutes, thirtyDayAvgMinutes: minutes });
+    const summary = {
+      deep: stage(4, deep),
+      light: stage(28, asleep - deep - rem),
+      rem: stage(8, rem),
+      wake: stage(30, period.awake),
+    };
+    return { ...common, levels: { data: [], shortData: [], summary }, type: "stages" };
+  });
+}
+
+function hrvEntry(date: string, day: DayModel) {
+  return { value: { dailyRmssd: day.hrv.daily, deepRmssd: day.hrv.deep }, dateTime: date };
+}
+
+function spo2Entry(date: string, day: DayModel) {
+  return { dateTime: date, value: { ...day.spo2 } };
+}
+
+function breathingRateEntry(date: string, day: DayModel) {
+  return { value: { breathingRate: day.breathing_rate }, dateTime: date };
+}
+
+function skinTempEntry(date: string, day: DayModel) {
+  return { dateTime: date, value: { nightlyRelative: day.skin_temp }, logType: "dedicated_temp_sensor" };
+}
+
+function cardioScoreEntry(date: string, day: DayModel) {
+  return { dateTime: date, value: { vo2Max: `${day.vo2_max}-${day.vo2_max + 4}` } };
+}
+
+function heartRateEntry(date: string, day: DayModel) {
+  const zones = day.zone_minutes;
+  const minutes = [1440 - zones.fat_burn - zones.cardio - zones.peak, zones.fat_burn, zones.cardio, zones.peak];
+  const caloriesPerMinute = [1.2, 6.5, 9.8, 12.5];
+  return {
+    dateTime: date,
+    value: {
+      customHeartRateZones: [],
+      heartRateZones: HEART_RATE_ZONES.map((zone, i) => ({
+        ...zone,
+        minutes: minutes[i],
+        caloriesOut: Math.round(minutes[i] * caloriesPerMinute[i] * 100) / 100,
+      })),
+      restingHeartRate: day.resting_hr,
+    },
+  };
+}
+
+function heartRateIntraday(day: DayModel) {
+  const dataset = day.heart_rate().map((value, minute) => ({
+    time: `${String(Math.floor(minute / 60)).padStart(2, "0")}:${String(minute % 60).padStart(2, "0")}:00`,
+    value,
+  }));
+  return { dataset, datasetInterval: 1, datasetType: "minute" };
+}
+
+function azmEntry(date: string, day: DayModel) {
+  const zones = day.zone_minutes;
+  return {
+    dateTime: date,
+    value: {
+      activeZoneMinutes: zones.fat_burn + 2 * (zones.cardio + zones.peak),
+      fatBurnActiveZoneMinutes: zones.fat_burn,
+      cardioActiveZoneMinutes: 2 * zones.cardio,
+      peakActiveZoneMinutes: 2 * zones.peak,
+    },
+  };
+}
+
+function activitySummary(date: string, day: DayModel) {
+  const activity = day.activity;
+  return {
+    activeScore: -1,
+    activityCalories: activity.activity_calories,
+    caloriesBMR: activity.calories_bmr,
+    caloriesOut: activity.calories_bmr + activity.activity_calories,
+    distances: [{ activity: "total", distance: activity.distance_km }],
+    fairlyActiveMinutes: activity.fairly_active_minutes,
+    floors: activity.floors,
+    heartRateZones: heartRateEntry(date, day).value.heartRateZones,
+    lightlyActiveMinutes: activity.lightly_active_minutes,
+    restingHeartRate: day.resting_hr,
+    sedentaryMinutes: activity.sedentary_minutes,
+    steps: activity.steps,
+    veryActiveMinutes: activity.very_active_minutes,
+  };
+}
+
+const TIME_SERIES: Record<string, (day: DayModel) => number> = {
+  steps: (day) => day.activity.steps,
+  calories: (day) => day.activity.calories_bmr + day.activity.activity_calories,
+  distance: (day) => day.activity.distance_km,
+  floors: (day) => day.activity.floors,
+  minutesSedentary: (day) => day.activity.sedentary_minutes,
+  minutesLightlyActive: (day) => day.activity.lightly_active_minutes,
+  minutesFairlyActive: (day) => day.activity.fairly_active_minutes,
+  minutesVeryActive: (day) => day.activity.very_active_minutes,
+};
+
+function activityLog(date: string, day: DayModel, timezone: string): Record<string, unknown> | null {
+  const workout = day.workout;
+  if (!workout) return null;
+
+  const hours = String(Math.floor(workout.start / 60)).padStart(2, "0");
+  const minutes = String(workout.start % 60).padStart(2, "0");
+  const entry: Record<string, unknown> = {
+    activeDuration: workout.minutes * 60000,
+    activityName: workout.name,
+    calories: workout.calories,
+    duration: (workout.minutes + 2) * 60000,
+    lastModified: `${date}T19:00:00.000Z`,
+    logId: logId(date, 5),
+    logType: workout.manual ? "manual" : "auto_detected",
+    startTime: `${date}T${hours}:${minutes}:00.000${utcOffset(date, timezone)}`,
+  };
+
+  if (workout.average_hr) entry.averageHeartRate = workout.average_hr;
+  if (workout.zone_minutes) {
+    const zones = workout.zone_minutes;
+    entry.heartRateZones = HEART_RATE_ZONES.map((zone, i) => ({ ...zone, minutes: zones[i] }));
+    entry.activeZoneMinutes = {
+      totalMinutes: zones[1] + 2 * (zones[2] + zones[3]),
+      minutesInHeartRateZones: HEART_RATE_ZONES.map((zone, i) => ({ zoneName: zone.name, minutes: zones[i] })),
+    };
+  }
+  if (workout.steps) entry.steps = workout.steps;
+  if (workout.distance_km) {
+    entry.distance = workout.distance_km;
+    entry.distanceUnit = "Kilometer";
+  }
+  return entry;
+}
+
+/**
+ * Fitbit-shaped entries for one date, e.g. for checking API output in tests
+ */
+export const fitbitEntries = {
+  sleepLogs,
+  hrv: hrvEntry,
+  spo2: spo2Entry,
+  breathingRate: breathingRateEntry,
+  skinTemp: skinTempEntry,
+  cardioScore: cardioScoreEntry,
+  heartRate: heartRateEntry,
+  azm: azmEntry,
+  activity: activitySummary,
+  activityLog,
+};
+
+// =========================================================================
+// Endpoints
+// =========================================================================
+
+type Handler = (match: RegExpMatchArray, query: URLSearchParams, source: FitbitDataSource) => unknown;
+const DATE = "(\\d{4}-\\d{2}-\\d{2})";
+
+const withData = (source: FitbitDataSource, dates: string[]) => dates.filter((date) => date <= source.lastDate());
+
+// A date or a start/end range, with the payload built from the dates that have data
+function dated(pattern: string, limitKey: string, payload: (source: FitbitDataSource, dates: string[], single: boolean) => unknown): Array<[RegExp, Handler]> {
+  return [
+    [new RegExp(`^${pattern}/date/${DATE}\\.json$`), (m, _q, source) => payload(source, withData(source, [m[1]]), true)],
+    [
+      new RegExp(`^${pattern}/date/${DATE}/${DATE}\\.json$`),
+      (m, _q, source) => {
+        checkRange(m[1], m[2], RANGE_LIMITS[limitKey]);
+        return payload(source, withData(source, dateRange(m[1], m[2])), false);
+      },
+    ],
+  ];
+}
+
+function entries<T>(source: FitbitDataSource, dates: string[], entry: (date: string, day: DayModel) => T): T[] {
+  return dates.map((date) => entry(date, source.day(date)));
+}
+
+const ENDPOINTS: Array<[RegExp, Handler]> = [
+  ...dated("/1\\.2/user/-/sleep", "sleep", (source, dates, single) => {
+    const sleep = dates
+      .flatMap((date) => sleepLogs(date, source.day(date)))
+      .sort((a, b) => String(b.startTime).localeCompare(String(a.startTime)));
+    if (!single) return { sleep };
+    const minutesAsleep = sleep.reduce((sum, s) => sum + (s.minutesAsleep as number), 0);
+    const timeInBed = sleep.reduce((sum, s) => sum + (s.timeInBed as number), 0);
+    return { sleep, summary: { totalMinutesAsleep: minutesAsleep, totalSleepRecords: sleep.length, totalTimeInBed: timeInBed } };
+  }),
+  [
+    /^\/1\.2\/user\/-\/sleep\/list\.json$/,
+    (_m, q, source) => {
+      const before = requireDate(q, "beforeDate");
+      const limit = Math.min(parseInt(q.get("limit") || "") || 100, 100);
+      const sleep = withData(source, dateRange(addDays(before, -limit), addDays(before, -1)))
+        .reverse()
+        .flatMap((date) => sleepLogs(date, source.day(date)))
+        .slice(0, limit);
+      return { pagination: { beforeDate: before, limit, next: "", offset: 0, previous: "", sort: "desc" }, sleep };
+    },
+  ],
+  ...dated("/1/user/-/hrv", "hrv", (source, dates) => ({ hrv: entries(source, dates, hrvEntry) })),
+  // SpO2 for one date is a bare entry, ranges are a bare array
+  ...dated("/1/user/-/spo2", "spo2", (source, dates, single) => {
+    const list = entries(source, dates, spo2Entry);
+    return single ? list[0] || {} : list;
+  }),
+  ...dated("/1/user/-/br", "br", (source, dates) => ({ br: entries(source, dates, breathingRateEntry) })),
+  ...dated("/1/user/-/temp/skin", "temp", (source, dates) => ({ tempSkin: entries(source, dates, skinTempEntry) })),
+  ...dated("/1/user/-/cardioscore", "cardioscore", (source, dates) => ({ cardioScore: entries(source, dates, cardioScoreEntry) })),
+  [
+    new RegExp(`^/1/user/-/activities/heart/date/${DATE}/1d/(1sec|1min|5min|15min)\\.json$`),
+    (m, _q, source) => {
+      const dates = withData(source, [m[1]]);
+      return {
+        "activities-heart": entries(source, dates, heartRateEntry),
+        "activities-heart-intraday": dates.length ? heartRateIntraday(source.day(m[1])) : { dataset: [], datasetInterval: 1, datasetType: "minute" },
+      };
+    },
+  ],
+  [
+    new RegExp(`^/1/user/-/activities/heart/date/${DATE}/${DATE}\\.json$`),
+    (m, _q, source) => {
+      checkRange(m[1], m[2], RANGE_LIMITS.heart);
+      return { "activities-heart": entries(source, withData(source, dateRange(m[1], m[2])), heartRateEntry) };
+    },
+  ],
+  [
+    new RegExp(`^/1/user/-/activities/active-zone-minutes/date/${DATE}/1d\\.json$`),
+    (m, _q, source) => ({ "activities-active-zone-minutes": entries(source, withData(source, [m[1]]), azmEntry) }),
+  ],
+  [
+    new RegExp(`^/1/user/-/activities/active-zone-minutes/date/${DATE}/${DATE}\\.json$`),
+    (m, _q, source) => {
+      checkRange(m[1], m[2], RANGE_LIMITS.azm);
+      return { "activities-active-zone-minutes": entries(source, withData(source, dateRange(m[1], m[2])), azmEntry) };
+    },
+  ],
+  [
+    new RegExp(`^/1/user/-/activities/(\\w+)/date/${DATE}/${DATE}\\.json$`),
+    (m, _q, source) => {
+      const series = TIME_SERIES[m[1]];
+      if (!series) throw new FitbitPayloadError(400, "validation", `Invalid resource: ${m[1]}`);
+      checkRange(m[2], m[3], RANGE_LIMITS.activities);
+      return {
+        [`activities-${m[1]}`]: entries(source, withData(source, dateRange(m[2], m[3])), (date, day) => ({ dateTime: date, value: String(series(day)) })),
+      };
+    },
+  ],
+  [
+    new RegExp(`^/1/user/-/activities/date/${DATE}\\.json$`),
+    (m, _q, source) => {
+      const day = withData(source, [m[1]]).length ? source.day(m[1]) : null;
+      return {
+        activities: [],
+        goals: { activeMinutes: 30, caloriesOut: 2600, distance: 8.05, floors: 10, steps: 10000 },
+        summary: day ? activitySummary(m[1], day) : { steps: 0, caloriesOut: 0, floors: 0, distances: [] },
+      };
+    },
+  ],
+  [
+    /^\/1\/user\/-\/activities\/list\.json$/,
+    (_m, q, source) => {
+      const before = requireDate(q, "beforeDate");
+      const limit = Math.min(parseInt(q.get("limit") || "") || 20, 100);
+      const activities = withData(source, dateRange(addDays(before, -365), addDays(before, -1)))
+        .reverse()
+        .map((date) => activityLog(date, source.day(date), source.timezone))
+        .filter((entry) => entry !== null)
+        .slice(0, limit);
+      return { activities, pagination: { beforeDate: before, limit, next: "", offset: 0, previous: "", sort: "desc" } };
+    },
+  ],
+  [
+    /^\/1\/user\/-\/profile\.json$/,
+    (_m, _q, source) => ({
+      user: {
+        displayName: source.display_name,
+        encodedId: source.encoded_id,
+        memberSince: "2021-03-14",
+        offsetFromUTCMillis: Date.parse("2000-01-01T00:00:00Z") - Date.parse(`2000-01-01T00:00:00${utcOffset(source.lastDate(), source.timezone)}`),
+        timezone: source.timezone,
+      },
+    }),
+  ],
+];
+
+/**
+ * The response body Fitbit would send for a GET of path, throws
+ * FitbitPayloadError for bad requests and unknown endpoints
+ */
+export function fitbitApiResponse(source: FitbitDataSource, path: string, query: URLSearchParams): unknown {
+  for (const [pattern, handler] of ENDPOINTS) {
+    const match = path.match(pattern);
+    if (match) return handler(match, query, source);
+  }
+  throw new FitbitPayloadError(404, "not_found", `The API you are requesting could not be found: ${path}`);
+}
@@ -0,0 +1,59 @@
+/**
+ * Fitbit Web API usage for GET /metrics: requests by endpoint and status,
+ * latency, rate limiting, token refreshes and the hourly quota left.
+ */
+import { Counter, Gauge, Histogram } from "./prometheus.js";
+
+const HOURLY_QUOTA = 150; // Requests per user, reset at the top of each hour
+const HOUR_MS = 60 * 60 * 1000;
+
+const requests = new Counter("fitbit_api_requests_total", "Fitbit Web API requests by endpoint and HTTP status");
+const rateLimited = new Counter("fitbit_api_rate_limited_total", "Fitbit Web API requests refused with 429");
+const tokenRefreshes = new Counter("fitbit_token_refreshes_total", "Access token refreshes by result");
+const duration = new Histogram("fitbit_api_request_duration_seconds", "Fitbit Web API request latency", [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]);
+
+// What Fitbit last reported about each user's quota, else the requests counted this hour
+const quotas = new Map<string, { hour: number; requests: number; remaining: number | null }>();
+
+/**
+ * Endpoint with dates and IDs replaced, so each day isn't a label value of its own;
+ * the leading API version is kept
+ */
+export function endpointLabel(endpoint: string): string {
+  return endpoint.replace(/\d{4}-\d{2}-\d{2}/g, "{date}").replace(/(?<!^)\/\d+(?=[/.]|$)/g, "/{id}");
+}
+
+/**
+ * Record a finished request: status is the HTTP status, "timeout" or "error"
+ */
+export function recordFitbitRequest(userId: string, endpoint: string, status: string, seconds: number, headers: Headers | null): void {
+  const label = endpointLabel(endpoint);
+  requests.inc({ user: userId, endpoint: label, status });
+  duration.observe({ endpoint: label }, seconds);
+  if (status === "429") rateLimited.inc({ user: userId });
+
+  const hour = Math.floor(Date.now() / HOUR_MS);
+  const quota = quotas.get(userId);
+  const current = quota?.hour === hour ? quota : { hour, requests: 0, remaining: null };
+  current.requests++;
+  const remaining = parseInt(headers?.get("fitbit-rate-limit-remaining") ?? "");
+  if (!isNaN(remaining)) current.remaining = remaining;
+  quotas.set(userId, current);
+}
+
+export function recordTokenRefresh(userId: string, succeeded: boolean): void {
+  tokenRefreshes.inc({ user: userId, result: succeeded ? "success" : "failure" });
+}
+
+export function renderFitbitUsage(): string {
+  const hour = Math.floor(Date.now() / HOUR_MS);
+  const remaining = new Gauge("fitbit_api_quota_remaining", "Estimated Fitbit Web API requests left this hour");
+  for (const [userId, quota] of quotas) {
+    if (quota.hour !== hour) remaining.set({ user: userId }, HOURLY_QUOTA);
+    else remaining.set({ user: userId }, quota.remaining ?? Math.max(0, HOURLY_QUOTA - quota.requests));
+  }
+  const reset = new Gauge("fitbit_api_quota_reset_seconds", "Seconds until the Fitbit Web API quota resets");
+  reset.set({}, Math.ceil(((hour + 1) * HOUR_MS - Date.now()) / 1000));
+
+  return [requests, rateLimited, tokenRefreshes, duration, remaining, reset].map((metric) => metric.render()).join("");
+}
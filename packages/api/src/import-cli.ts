@@ -0,0 +1,30 @@
+/**
+ * Import a Fitbit data export (Takeout zip or extracted folder) into the metric store:
+ *   npm run import -w @fitbitbot/api -- <archive.zip|folder> [--user ID]
+ */
+import "dotenv/config";
+import { parseArgs } from "util";
+import { DEFAULT_USER_ID, normalizeUserId } from "./fitbit-client.js";
+import { getMetricStore } from "./metric-store.js";
+import { importTakeout } from "./takeout-import.js";
+
+const { values, positionals } = parseArgs({
+  options: {
+    user: { type: "string" },
+  },
+  allowPositionals: true,
+});
+
+if (positionals.length !== 1) {
+  console.error("Usage: npm run import -w @fitbitbot/api -- <archive.zip|folder> [--user ID]");
+  process.exit(1);
+}
+
+const userId = normalizeUserId(values.user ?? DEFAULT_USER_ID);
+if (!userId) {
+  console.error("User ID may only contain letters, digits and - (max 64)");
+  process.exit(1);
+}
+
+const result = await importTakeout(positionals[0], userId, getMetricStore());
+console.log(JSON.stringify(result, null, 2));
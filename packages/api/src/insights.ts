@@ -0,0 +1,168 @@
+/**
+ * Rule-based insights shared by all routes.
+ * Rules are declarative: a metric, a baseline window, a threshold and a
+ * severity. Users can override any of these per rule in their settings.
+ */
+import { getUserSettings } from "./user-settings.js";
+import { addDays, average, round } from "./utils.js";
+
+export type InsightMetric =
+  | "sleep_hours"
+  | "sleep_efficiency"
+  | "hrv_rmssd"
+  | "resting_hr"
+  | "spo2_avg"
+  | "breathing_rate"
+  | "temp_deviation"
+  | "steps"
+  | "active_zone_minutes";
+
+export type InsightSeverity = "info" | "warning" | "alert";
+
+export interface InsightRule {
+  id: string;
+  metric: InsightMetric;
+  baseline_days: number;
+  // "above"/"below" compare percent difference from the baseline average;
+  // "outside" compares the value itself (for metrics already relative to baseline)
+  condition: "above" | "below" | "outside";
+  threshold: number; // Percent for above/below, absolute value for outside
+  severity: InsightSeverity;
+  note: string; // Placeholders: {current} {baseline} {percent} {days}
+  enabled?: boolean;
+}
+
+export interface Insight {
+  rule_id: string;
+  metric: InsightMetric;
+  severity: InsightSeverity;
+  current_value: number;
+  baseline_average: number | null;
+  baseline_days: number;
+  percent_difference: number | null;
+  comparison: "above" | "below";
+  note: string;
+}
+
+export interface MetricSeries {
+  metric: InsightMetric;
+  date: string; // Date of the current value
+  current: number | null;
+  history: Array<{ date: string; value: number | null }>;
+}
+
+export const DEFAULT_INSIGHT_RULES: InsightRule[] = [
+  { id: "sleep_short", metric: "sleep_hours", baseline_days: 7, condition: "below", threshold: 15, severity: "warning", note: "Slept {current}h, {percent}% less than your {days}-day average of {baseline}h" },
+  { id: "sleep_long", metric: "sleep_hours", baseline_days: 7, condition: "above", threshold: 15, severity: "info", note: "Slept {current}h, {percent}% more than your {days}-day average of {baseline}h" },
+  { id: "sleep_efficiency_low", metric: "sleep_efficiency", baseline_days: 7, condition: "below", threshold: 5, severity: "info", note: "Sleep efficiency {current}% is below your usual {baseline}%" },
+  { id: "hrv_low", metric: "hrv_rmssd", baseline_days: 7, condition: "below", threshold: 10, severity: "warning", note: "HRV {current} ms is {percent}% below your {days}-day average of {baseline} ms" },
+  { id: "hrv_high", metric: "hrv_rmssd", baseline_days: 7, condition: "above", threshold: 10, severity: "info", note: "HRV {current} ms is {percent}% above your {days}-day average of {baseline} ms" },
+  { id: "resting_hr_elevated", metric: "resting_hr", baseline_days: 7, condition: "above", threshold: 5, severity: "warning", note: "Resting HR {current} bpm is {percent}% above your {days}-day average of {baseline} bpm" },
+  { id: "resting_hr_low", metric: "resting_hr", baseline_days: 7, condition: "below", threshold: 5, severity: "info", note: "Resting HR {current} bpm is {percent}% below your {days}-day average of {baseline} bpm" },
+  { id: "spo2_low", metric: "spo2_avg", baseline_days: 14, condition: "below", threshold: 2, severity: "warning", note: "Average SpO2 {current}% is below your usual {baseline}%" },
+  { id: "breathing_rate_elevated", metric: "breathing_rate", baseline_days: 14, condition: "above", threshold: 10, severity: "warning", note: "Breathing rate {current}/min is {percent}% above your usual {baseline}/min" },
+  { id: "temperature_deviation", metric: "temp_deviation", baseline_days: 0, condition: "outside", threshold: 0.5, severity: "warning", note: "Skin temperature is {current}°C off your baseline" },
+  { id: "steps_low", metric: "steps", baseline_days: 7, condition: "below", threshold: 30, severity: "info", note: "{current} steps, {percent}% below your {days}-day average of {baseline}" },
+  { id: "steps_high", metric: "steps", baseline_days: 7, condition: "above", threshold: 30, severity: "info", note: "{current} steps, {percent}% above your {days}-day average of {baseline}" },
+  { id: "azm_high", metric: "active_zone_minutes", baseline_days: 7, condition: "above", threshold: 50, severity: "info", note: "{current} Active Zone Minutes, {percent}% above your {days}-day average of {baseline}" },
+];
+
+/**
+ * Default rules with the user's overrides applied
+ */
+export function getInsightRules(userId: string): InsightRule[] {
+  const overrides = getUserSettings(userId).insight_rules || {};
+  return DEFAULT_INSIGHT_RULES.map((rule) => ({ ...rule, ...overrides[rule.id] }));
+}
+
+/**
+ * Longest baseline window any active rule needs for these metrics
+ */
+export function baselineDaysFor(userId: string, metrics: InsightMetric[]): number {
+  const days = getInsightRules(userId)
+    .filter((rule) => rule.enabled !== false && metrics.includes(rule.metric))
+    .map((rule) => rule.baseline_days);
+  return Math.max(7, ...days);
+}
+
+function formatNote(template: string, values: Record<string, number | null>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values && values[key] !== null ? String(values[key]) : match
+  );
+}
+
+function evaluateRule(rule: InsightRule, series: MetricSeries): Insight | null {
+  if (series.current === null) return null;
+
+  if (rule.condition === "outside") {
+    if (Math.abs(series.current) < rule.threshold) return null;
+    return {
+      rule_id: rule.id,
+      metric: rule.metric,
+      severity: rule.severity,
+      current_value: series.current,
+      baseline_average: null,
+      baseline_days: rule.baseline_days,
+      percent_difference: null,
+      comparison: series.current > 0 ? "above" : "below",
+      note: formatNote(rule.note, { current: Math.abs(series.current), baseline: null, percent: null, days: rule.baseline_days }),
+    };
+  }
+
+  // Baseline: the rule's window of days before the current value
+  const windowStart = addDays(series.date, -rule.baseline_days);
+  const values = series.history
+    .filter((h) => h.date >= windowStart && h.date < series.date && h.value !== null)
+    .map((h) => h.value!);
+  const baseline = average(values, 2);
+  if (!baseline) return null;
+
+  const percent = round(((series.current - baseline) / baseline) * 100, 1);
+  const triggered = rule.condition === "above" ? percent >= rule.threshold : percent <= -rule.threshold;
+  if (!triggered) return null;
+
+  return {
+    rule_id: rule.id,
+    metric: rule.metric,
+    severity: rule.severity,
+    current_value: series.current,
+    baseline_average: baseline,
+    baseline_days: rule.baseline_days,
+    percent_difference: percent,
+    comparison: rule.condition,
+    note: formatNote(rule.note, { current: series.current, baseline, percent: Math.abs(percent), days: rule.baseline_days }),
+  };
+}
+
+const SEVERITY_ORDER: Record<InsightSeverity, number> = { alert: 0, warning: 1, info: 2 };
+
+/**
+ * Evaluate the user's rules against a set of metric series, most severe first
+ */
+export function buildInsights(userId: string, series: MetricSeries[]): Insight[] {
+  const rules = getInsightRules(userId).filter((rule) => rule.enabled !== false);
+  const insights: Insight[] = [];
+
+  for (const s of series) {
+    for (const rule of rules) {
+      if (rule.metric !== s.metric) continue;
+      const insight = evaluateRule(rule, s);
+      if (insight) insights.push(insight);
+    }
+  }
+
+  return insights.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
+
+/**
+ * Series for history routes: the most recent record is compared to the ones before it
+ */
+export function latestVsHistory(
+  metric: InsightMetric,
+  records: Array<{ date: string; value: number | null }>
+): MetricSeries | null {
+  const sorted = records.filter((r) => r.value !== null).sort((a, b) => a.date.localeCompare(b.date));
+  if (!sorted.length) return null;
+  const latest = sorted[sorted.length - 1];
+  return { metric, date: latest.date, current: latest.value, history: sorted.slice(0, -1) };
+}
@@ -0,0 +1,145 @@
+/**
+ * Intraday heart rate analysis: peak, time above thresholds, exercise bouts
+ * and heart rate recovery after each bout.
+ * Analysis always runs on minute data; coarser detail levels only change the
+ * returned series.
+ */
+import { round } from "./utils.js";
+
+export const INTRADAY_DETAILS = { "1min": 1, "5min": 5, "15min": 15 } as const;
+export type IntradayDetail = keyof typeof INTRADAY_DETAILS;
+
+export const DEFAULT_HR_THRESHOLDS = [100, 120, 140, 160];
+
+const DEFAULT_BOUT_THRESHOLD = 120; // Used when Fitbit doesn't report a cardio zone
+const MIN_BOUT_MINUTES = 10;
+const MAX_BOUT_GAP_MINUTES = 2; // Short dips below the threshold don't end a bout
+
+export interface HeartRateSample {
+  minute: number; // Minutes since midnight
+  bpm: number;
+}
+
+export interface ExerciseBout {
+  start_time: string;
+  end_time: string;
+  duration_minutes: number;
+  average_bpm: number;
+  peak_bpm: number;
+  end_bpm: number;
+  recovery_1min: number | null; // Drop in bpm one minute after the bout ends
+  recovery_2min: number | null;
+}
+
+export interface IntradayAnalysis {
+  samples: number;
+  average_bpm: number | null;
+  peak: { bpm: number; time: string } | null;
+  lowest: { bpm: number; time: string } | null;
+  time_above: Array<{ threshold_bpm: number; minutes: number }>;
+  bout_threshold_bpm: number;
+  bouts: ExerciseBout[];
+}
+
+export function parseIntradayDataset(dataset: Array<{ time: string; value: number }> | undefined): HeartRateSample[] {
+  return (dataset || [])
+    .map((point) => {
+      const [h, m] = point.time.split(":").map(Number);
+      return { minute: h * 60 + m, bpm: point.value };
+    })
+    .sort((a, b) => a.minute - b.minute);
+}
+
+export function minuteToTime(minute: number): string {
+  const h = String(Math.floor(minute / 60)).padStart(2, "0");
+  const m = String(minute % 60).padStart(2, "0");
+  return `${h}:${m}:00`;
+}
+
+/**
+ * Average minute samples into buckets of the given size
+ */
+export function downsample(samples: HeartRateSample[], bucketMinutes: number): HeartRateSample[] {
+  if (bucketMinutes <= 1) return samples;
+
+  const buckets = new Map<number, number[]>();
+  for (const sample of samples) {
+    const bucket = Math.floor(sample.minute / bucketMinutes) * bucketMinutes;
+    if (!buckets.has(bucket)) buckets.set(bucket, []);
+    buckets.get(bucket)!.push(sample.bpm);
+  }
+  return [...buckets.entries()].map(([minute, values]) => ({
+    minute,
+    bpm: Math.round(values.reduce((a, b) => a + b, 0) / values.length),
+  }));
+}
+
+/**
+ * Sustained stretches at or above the threshold, with recovery after each
+ */
+export function detectBouts(samples: HeartRateSample[], threshold: number): ExerciseBout[] {
+  const byMinute = new Map(samples.map((s) => [s.minute, s.bpm]));
+  const bouts: ExerciseBout[] = [];
+
+  let current: HeartRateSample[] = [];
+  const close = () => {
+    if (current.length && current[current.length - 1].minute - current[0].minute + 1 >= MIN_BOUT_MINUTES) {
+      const start = current[0].minute;
+      const end = current[current.length - 1].minute;
+      const values = current.map((s) => s.bpm);
+      const endBpm = byMinute.get(end)!;
+      const after1 = byMinute.get(end + 1);
+      const after2 = byMinute.get(end + 2);
+      bouts.push({
+        start_time: minuteToTime(start),
+        end_time: minuteToTime(end),
+        duration_minutes: end - start + 1,
+        average_bpm: Math.round(values.reduce((a, b) => a + b, 0) / values.length),
+        peak_bpm: Math.max(...values),
+        end_bpm: endBpm,
+        recovery_1min: after1 !== undefined ? endBpm - after1 : null,
+        recovery_2min: after2 !== undefined ? endBpm - after2 : null,
+      });
+    }
+    current = [];
+  };
+
+  for (const sample of samples) {
+    if (sample.bpm < threshold) continue;
+    const last = current[current.length - 1];
+    if (last && sample.minute - last.minute > MAX_BOUT_GAP_MINUTES + 1) close();
+    current.push(sample);
+  }
+  close();
+
+  return bouts;
+}
+
+export function analyzeIntraday(
+  samples: HeartRateSample[],
+  thresholds: number[],
+  boutThreshold = DEFAULT_BOUT_THRESHOLD
+): IntradayAnalysis {
+  let peak: HeartRateSample | null = null;
+  let lowest: HeartRateSample | null = null;
+  for (const sample of samples) {
+    if (!peak || sample.bpm > peak.bpm) peak = sample;
+    if (!lowest || sample.bpm < lowest.bpm) lowest = sample;
+  }
+
+  return {
+    samples: samples.length,
+    average_bpm: samples.length ? round(samples.reduce((sum, s) => sum + s.bpm, 0) / samples.length, 1) : null,
+    peak: peak ? { bpm: peak.bpm, time: minuteToTime(peak.minute) } : null,
+    lowest: lowest ? { bpm: lowest.bpm, time: minuteToTime(lowest.minute) } : null,
+    // Minute samples, so each sample at or above a threshold is one minute
+    time_above: [...thresholds]
+      .sort((a, b) => a - b)
+      .map((threshold) => ({
+        threshold_bpm: threshold,
+        minutes: samples.filter((s) => s.bpm >= threshold).length,
+      })),
+    bout_threshold_bpm: boutThreshold,
+    bouts: detectBouts(samples, boutThreshold),
+  };
+}
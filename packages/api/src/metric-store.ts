@@ -0,0 +1,312 @@
+/**
+ * Local time-series store for Fitbit metrics.
+ * Raw Fitbit entries are kept per metric and date so history routes can
+ * rebuild the same response shapes the live API returns, for any range the
+ * sync job has covered.
+ */
+import { mkdirSync } from "fs";
+import { DatabaseSync } from "node:sqlite";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+import { demoPath, isDemoMode } from "./demo-data.js";
+import { FitbitClient, DEFAULT_USER_ID } from "./fitbit-client.js";
+import { addDays, daysBetween } from "./utils.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const STORE_FILE = join(__dirname, "..", "..", "..", "output", "metrics.db");
+
+export const MAX_HISTORY_DAYS = 3650; // Served from the store
+export const LIVE_MAX_DAYS = 90; // Served live when the store doesn't cover the range
+
+export type MetricName =
+  | "sleep"
+  | "hrv"
+  | "spo2"
+  | "breathing_rate"
+  | "skin_temp"
+  | "resting_hr"
+  | "steps"
+  | "azm"
+  | "cardio_fitness";
+
+export interface StoredEntry {
+  date: string;
+  key: string; // Distinguishes multiple entries per day (sleep logs)
+  data: unknown;
+}
+
+interface MetricDefinition {
+  chunkDays: number; // Largest range Fitbit accepts in one request
+  fetch(client: FitbitClient, startDate: string, endDate: string): Promise<unknown>;
+  extract(raw: unknown): StoredEntry[];
+  toResponse(entries: unknown[]): unknown;
+}
+
+type DatedEntry = { dateTime: string };
+
+/**
+ * Definition for the common `{ [field]: [{ dateTime, value }] }` response shape
+ */
+function datedSeries(
+  field: string,
+  chunkDays: number,
+  fetch: MetricDefinition["fetch"]
+): MetricDefinition {
+  return {
+    chunkDays,
+    fetch,
+    extract: (raw) =>
+      (((raw as Record<string, unknown>)[field] as DatedEntry[] | undefined) || []).map((entry) => ({
+        date: entry.dateTime,
+        key: "",
+        data: entry,
+      })),
+    toResponse: (entries) => ({ [field]: entries }),
+  };
+}
+
+export const METRICS: Record<MetricName, MetricDefinition> = {
+  sleep: {
+    chunkDays: 100,
+    fetch: (client, start, end) => client.getSleepRange(start, end),
+    extract: (raw) =>
+      (((raw as { sleep?: Array<Record<string, unknown>> }).sleep) || []).map((entry) => ({
+        date: entry.dateOfSleep as string,
+        key: String(entry.logId ?? entry.startTime),
+        data: entry,
+      })),
+    toResponse: (entries) => ({ sleep: entries }),
+  },
+  hrv: datedSeries("hrv", 30, (client, start, end) => client.getHrvRange(start, end)),
+  // SpO2 ranges come back as a bare array
+  spo2: {
+    chunkDays: 30,
+    fetch: (client, start, end) => client.getSpo2Range(start, end),
+    extract: (raw) =>
+      (Array.isArray(raw) ? (raw as DatedEntry[]) : []).map((entry) => ({
+        date: entry.dateTime,
+        key: "",
+        data: entry,
+      })),
+    toResponse: (entries) => entries,
+  },
+  breathing_rate: datedSeries("br", 30, (client, start, end) => client.getBreathingRateRange(start, end)),
+  skin_temp: datedSeries("tempSkin", 30, (client, start, end) => client.getTemperatureRange(start, end)),
+  resting_hr: datedSeries("activities-heart", 365, (client, start, end) => client.getHeartRateRange(start, end)),
+  steps: datedSeries("activities-steps", 365, (client, start, end) =>
+    client.getActivityTimeSeries("steps", start, end)
+  ),
+  azm: datedSeries("activities-active-zone-minutes", 365, (client, start, end) =>
+    client.getActiveZoneMinutesRange(start, end)
+  ),
+  cardio_fitness: datedSeries("cardioScore", 30, (client, start, end) => client.getCardioFitnessRange(start, end)),
+};
+
+export interface SyncState {
+  user_id: string;
+  metric: MetricName;
+  oldest_date: string;
+  newest_date: string;
+  last_synced_at: string;
+}
+
+export class MetricStore {
+  private db: DatabaseSync;
+
+  constructor(path = STORE_FILE) {
+    mkdirSync(dirname(path), { recursive: true });
+    this.db = new DatabaseSync(path);
+    this.migrate();
+  }
+
+  private migrate(): void {
+    // Stores created before multi-user support have no user_id: keep their data for the default user
+    const columns = this.db.prepare("PRAGMA table_info(metric_entries)").all() as Array<{ name: string }>;
+    if (columns.length && !columns.some((c) => c.name === "user_id")) {
+      this.db.exec(`
+        ALTER TABLE metric_entries RENAME TO metric_entries_v1;
+        ALTER TABLE sync_state RENAME TO sync_state_v1;
+      `);
+    }
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS metric_entries (
+        user_id TEXT NOT NULL,
+        metric TEXT NOT NULL,
+        date TEXT NOT NULL,
+        entry_key TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (user_id, metric, date, entry_key)
+      );
+      CREATE TABLE IF NOT EXISTS sync_state (
+        user_id TEXT NOT NULL,
+        metric TEXT NOT NULL,
+        oldest_date TEXT NOT NULL,
+        newest_date TEXT NOT NULL,
+        last_synced_at TEXT NOT NULL,
+        PRIMARY KEY (user_id, metric)
+      );
+    `);
+
+    const legacy = this.db.prepare("SELECT name FROM sqlite_master WHERE name = 'metric_entries_v1'").get();
+    if (legacy) {
+      this.db.exec(`
+        INSERT INTO metric_entries SELECT '${DEFAULT_USER_ID}', metric, date, entry_key, data FROM metric_entries_v1;
+        INSERT INTO sync_state SELECT '${DEFAULT_USER_ID}', metric, oldest_date, newest_date, last_synced_at FROM sync_state_v1;
+        DROP TABLE metric_entries_v1;
+        DROP TABLE sync_state_v1;
+      `);
+    }
+  }
+
+  /**
+   * Replace all entries of a metric within a date range
+   */
+  replaceRange(userId: string, metric: MetricName, startDate: string, endDate: string, entries: StoredEntry[]): void {
+    const remove = this.db.prepare(
+      "DELETE FROM metric_entries WHERE user_id = ? AND metric = ? AND date BETWEEN ? AND ?"
+    );
+    const insert = this.db.prepare(
+      "INSERT OR REPLACE INTO metric_entries (user_id, metric, date, entry_key, data) VALUES (?, ?, ?, ?, ?)"
+    );
+
+    this.db.exec("BEGIN");
+    try {
+      remove.run(userId, metric, startDate, endDate);
+      for (const entry of entries) {
+        insert.run(userId, metric, entry.date, entry.key, JSON.stringify(entry.data));
+      }
+      this.db.exec("COMMIT");
+    } catch (e) {
+      this.db.exec("ROLLBACK");
+      throw e;
+    }
+  }
+
+  /**
+   * Add entries whose date and key aren't stored yet, returns how many were added
+   */
+  insertMissing(userId: string, metric: MetricName, entries: StoredEntry[]): number {
+    const insert = this.db.prepare(
+      "INSERT OR IGNORE INTO metric_entries (user_id, metric, date, entry_key, data) VALUES (?, ?, ?, ?, ?)"
+    );
+
+    let added = 0;
+    this.db.exec("BEGIN");
+    try {
+      for (const entry of entries) {
+        added += Number(insert.run(userId, metric, entry.date, entry.key, JSON.stringify(entry.data)).changes);
+      }
+      this.db.exec("COMMIT");
+    } catch (e) {
+      this.db.exec("ROLLBACK");
+      throw e;
+    }
+    return added;
+  }
+
+  getEntries(userId: string, metric: MetricName, startDate: string, endDate: string): unknown[] {
+    const rows = this.db
+      .prepare(
+        "SELECT data FROM metric_entries WHERE user_id = ? AND metric = ? AND date BETWEEN ? AND ? ORDER BY date, entry_key"
+      )
+      .all(userId, metric, startDate, endDate) as Array<{ data: string }>;
+    return rows.map((row) => JSON.parse(row.data));
+  }
+
+  getSyncState(userId: string, metric: MetricName): SyncState | null {
+    const row = this.db.prepare("SELECT * FROM sync_state WHERE user_id = ? AND metric = ?").get(userId, metric);
+    return (row as SyncState | undefined) ?? null;
+  }
+
+  getAllSyncStates(userId: string): SyncState[] {
+    return this.db
+      .prepare("SELECT * FROM sync_state WHERE user_id = ? ORDER BY metric")
+      .all(userId) as unknown as SyncState[];
+  }
+
+  /**
+   * Widen the synced date range of a metric to include the given range
+   */
+  markSynced(userId: string, metric: MetricName, startDate: string, endDate: string): void {
+    const current = this.getSyncState(userId, metric);
+    const oldest = current && current.oldest_date < startDate ? current.oldest_date : startDate;
+    const newest = current && current.newest_date > endDate ? current.newest_date : endDate;
+    this.db
+      .prepare(
+        "INSERT OR REPLACE INTO sync_state (user_id, metric, oldest_date, newest_date, last_synced_at) VALUES (?, ?, ?, ?, ?)"
+      )
+      .run(userId, metric, oldest, newest, new Date().toISOString());
+  }
+
+  covers(userId: string, metric: MetricName, startDate: string, endDate: string): boolean {
+    const state = this.getSyncState(userId, metric);
+    return !!state && state.oldest_date <= startDate && state.newest_date >= endDate;
+  }
+}
+
+// Singleton instance
+let store: MetricStore | null = null;
+
+export function getMetricStore(): MetricStore {
+  if (!store) {
+    // Demo mode gets a store of its own, so real history is never served as demo data or vice versa
+    const path = process.env.METRIC_STORE_PATH || STORE_FILE;
+    store = new MetricStore(isDemoMode() ? demoPath(path) : path);
+  }
+  return store;
+}
+
+/**
+ * The range readRange serves for these metrics: the requested one when the
+ * store covers it or it can be fetched live, else the most recent
+ * LIVE_MAX_DAYS, with truncated set. History routes report the start_date
+ * served, so a shortened range is never passed off as the requested one.
+ */
+export function servedRange(
+  userId: string,
+  metrics: MetricName[],
+  startDate: string,
+  endDate: string
+): { start_date: string; truncated: boolean } {
+  const store = getMetricStore();
+  if (daysBetween(startDate, endDate) <= LIVE_MAX_DAYS || metrics.every((metric) => store.covers(userId, metric, startDate, endDate))) {
+    return { start_date: startDate, truncated: false };
+  }
+  return { start_date: addDays(endDate, -(LIVE_MAX_DAYS - 1)), truncated: true };
+}
+
+/**
+ * Read a metric range in the live Fitbit response shape.
+ * Uses the local store when it covers the range, otherwise fetches live in
+ * API-sized chunks, limited to the most recent LIVE_MAX_DAYS (see servedRange).
+ */
+export async function readRange<T = unknown>(
+  client: FitbitClient,
+  metric: MetricName,
+  startDate: string,
+  endDate: string
+): Promise<{ data: T; source: "store" | "live"; start_date: string; truncated: boolean }> {
+  const definition = METRICS[metric];
+  const store = getMetricStore();
+
+  if (store.covers(client.userId, metric, startDate, endDate)) {
+    const entries = store.getEntries(client.userId, metric, startDate, endDate);
+    return { data: definition.toResponse(entries) as T, source: "store", start_date: startDate, truncated: false };
+  }
+
+  const { start_date: liveStart, truncated } = servedRange(client.userId, [metric], startDate, endDate);
+
+  if (daysBetween(liveStart, endDate) <= definition.chunkDays) {
+    const data = await definition.fetch(client, liveStart, endDate);
+    return { data: data as T, source: "live", start_date: liveStart, truncated };
+  }
+
+  const entries: unknown[] = [];
+  for (let chunkStart = liveStart; chunkStart <= endDate; chunkStart = addDays(chunkStart, definition.chunkDays)) {
+    const chunkEnd = [addDays(chunkStart, definition.chunkDays - 1), endDate].sort()[0];
+    const raw = await definition.fetch(client, chunkStart, chunkEnd);
+    entries.push(...definition.extract(raw).map((entry) => entry.data));
+  }
+  return { data: definition.toResponse(entries) as T, source: "live", start_date: liveStart, truncated };
+}
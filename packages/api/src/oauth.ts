@@ -0,0 +1,86 @@
+/**
+ * Fitbit OAuth2 authorization code flow with PKCE.
+ * Pending authorizations live in memory: a login has to finish on the same
+ * instance within AUTH_REQUEST_TTL_MS.
+ */
+import { createHash, randomBytes } from "crypto";
+
+const AUTHORIZE_URL = "https://www.fitbit.com/oauth2/authorize";
+const AUTH_REQUEST_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+// Everything the API routes read
+export const FITBIT_SCOPES = [
+  "activity",
+  "cardio_fitness",
+  "heartrate",
+  "oxygen_saturation",
+  "profile",
+  "respiratory_rate",
+  "sleep",
+  "temperature",
+];
+
+interface PendingAuthorization {
+  userId: string;
+  codeVerifier: string;
+  redirectUri: string;
+  createdAt: number;
+}
+
+const pending = new Map<string, PendingAuthorization>();
+
+function base64Url(buffer: Buffer): string {
+  return buffer.toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Create a PKCE code verifier and its S256 challenge
+ */
+export function createPkcePair(): { codeVerifier: string; codeChallenge: string } {
+  const codeVerifier = base64Url(randomBytes(64));
+  const codeChallenge = base64Url(createHash("sha256").update(codeVerifier).digest());
+  return { codeVerifier, codeChallenge };
+}
+
+/**
+ * Start an authorization: remember the verifier and build the Fitbit consent URL
+ */
+export function createAuthorizationRequest(
+  userId: string,
+  clientId: string,
+  redirectUri: string
+): { url: string; state: string } {
+  const now = Date.now();
+  for (const [state, request] of pending) {
+    if (now - request.createdAt > AUTH_REQUEST_TTL_MS) pending.delete(state);
+  }
+
+  const { codeVerifier, codeChallenge } = createPkcePair();
+  const state = base64Url(randomBytes(16));
+  pending.set(state, { userId, codeVerifier, redirectUri, createdAt: now });
+
+  const url = new URL(process.env.FITBIT_AUTHORIZE_URL || AUTHORIZE_URL);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: clientId,
+    redirect_uri: redirectUri,
+    scope: FITBIT_SCOPES.join(" "),
+    code_challenge: codeChallenge,
+    code_challenge_method: "S256",
+    state,
+  }).toString();
+
+  return { url: url.toString(), state };
+}
+
+/**
+ * Look up and forget a pending authorization, null if unknown or expired
+ */
+export function consumeAuthorizationRequest(state: string): PendingAuthorization | null {
+  const request = pending.get(state);
+  pending.delete(state);
+  if (!request || Date.now() - request.createdAt > AUTH_REQUEST_TTL_MS) {
+    return null;
+  }
+  return request;
+}
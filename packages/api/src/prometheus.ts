@@ -0,0 +1,104 @@
+/**
+ * Prometheus text exposition: counters, gauges and histograms with labels,
+ * held in memory and rendered by GET /metrics.
+ */
+export type Labels = Record<string, string>;
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+abstract class Metric<T> {
+  protected series = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private type: "counter" | "gauge" | "histogram"
+  ) {}
+
+  protected entry(labels: Labels, initial: () => T): { labels: Labels; value: T } {
+    const key = JSON.stringify(Object.entries(labels).sort());
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, value: initial() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  protected abstract samples(labels: Labels, value: T): string[];
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    for (const { labels, value } of this.series.values()) lines.push(...this.samples(labels, value));
+    return lines.join("\n") + "\n";
+  }
+}
+
+export class Counter extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  inc(labels: Labels = {}, by = 1): void {
+    this.entry(labels, () => 0).value += by;
+  }
+
+  protected samples(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+  }
+}
+
+export class Gauge extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  set(labels: Labels, value: number): void {
+    this.entry(labels, () => 0).value = value;
+  }
+
+  protected samples(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+  }
+}
+
+export class Histogram extends Metric<{ buckets: number[]; sum: number; count: number }> {
+  constructor(
+    name: string,
+    help: string,
+    private bounds: number[] // Upper bounds, ascending; +Inf is implied
+  ) {
+    super(name, help, "histogram");
+  }
+
+  observe(labels: Labels, value: number): void {
+    const entry = this.entry(labels, () => ({ buckets: this.bounds.map(() => 0), sum: 0, count: 0 })).value;
+    this.bounds.forEach((bound, i) => {
+      if (value <= bound) entry.buckets[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  protected samples(labels: Labels, value: { buckets: number[]; sum: number; count: number }): string[] {
+    return [
+      ...this.bounds.map((bound, i) => `${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${value.buckets[i]}`),
+      `${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${value.count}`,
+      `${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`,
+      `${this.name}_count${formatLabels(labels)} ${value.count}`,
+    ];
+  }
+}
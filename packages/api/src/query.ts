@@ -0,0 +1,92 @@
+/**
+ * Date and date-range query parameters shared by all routes.
+ * Routes are anchored to `date` (or `start`/`end`) instead of "now"; when
+ * omitted they fall back to today or the `days` before yesterday as before.
+ */
+import { Request } from "express";
+import { z } from "zod";
+import { MAX_HISTORY_DAYS } from "./metric-store.js";
+import { addDays, daysBetween, today, yesterday } from "./utils.js";
+
+export interface QueryIssue {
+  param: string;
+  message: string;
+}
+
+export class InvalidQueryError extends Error {
+  constructor(public issues: QueryIssue[]) {
+    super(issues.map((issue) => `${issue.param}: ${issue.message}`).join("; "));
+    this.name = "InvalidQueryError";
+  }
+}
+
+export const dateParam = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date as YYYY-MM-DD")
+  .refine((value) => addDays(value, 0) === value, "Not a calendar date")
+  .refine((value) => value <= today(), "Date is in the future");
+
+/**
+ * Parse req.query with a zod schema, throwing InvalidQueryError (400) on failure
+ */
+export function parseQuery<T extends z.ZodTypeAny>(req: Request, schema: T): z.infer<T> {
+  const result = schema.safeParse(req.query);
+  if (!result.success) {
+    throw new InvalidQueryError(
+      result.error.issues.map((issue) => ({ param: issue.path.join(".") || "query", message: issue.message }))
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Single date parameter, defaulting to today
+ */
+export function parseDate(req: Request, param = "date", defaultDate = today()): string {
+  const query = parseQuery(req, z.object({ [param]: dateParam.optional() }));
+  return (query[param] as string | undefined) ?? defaultDate;
+}
+
+export interface DateRange {
+  start: string;
+  end: string;
+  days: number;
+}
+
+export interface DateRangeOptions {
+  defaultDays: number;
+  maxDays?: number;
+  defaultEnd?: string; // Defaults to yesterday, the last complete day
+}
+
+/**
+ * `start`/`end` dates, or `days` ending at `end` (or starting at `start`)
+ */
+export function parseDateRange(req: Request, options: DateRangeOptions): DateRange {
+  const maxDays = options.maxDays ?? MAX_HISTORY_DAYS;
+  const query = parseQuery(
+    req,
+    z.object({
+      start: dateParam.optional(),
+      end: dateParam.optional(),
+      days: z.coerce.number().int().min(1).max(maxDays).optional(),
+    })
+  );
+
+  const days = query.days ?? options.defaultDays;
+  let end = query.end ?? options.defaultEnd ?? yesterday();
+  if (query.start && !query.end) {
+    end = query.days ? addDays(query.start, days - 1) : end;
+    if (end > today()) end = today();
+  }
+  const start = query.start ?? addDays(end, -(days - 1));
+
+  if (start > end) {
+    throw new InvalidQueryError([{ param: "start", message: "start must not be after end" }]);
+  }
+  if (daysBetween(start, end) > maxDays) {
+    throw new InvalidQueryError([{ param: "start", message: `Range is limited to ${maxDays} days` }]);
+  }
+
+  return { start, end, days: daysBetween(start, end) };
+}
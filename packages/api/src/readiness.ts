@@ -0,0 +1,181 @@
+/**
+ * Readiness score: a deterministic 0-100 score from last night's recovery
+ * signals, each compared to the user's own rolling baseline.
+ */
+import { average, round } from "./utils.js";
+
+export const READINESS_BASELINE_DAYS = 28;
+
+export type TrainingLoad = "high" | "moderate" | "light" | "rest";
+export type ReadinessComponentName = "hrv" | "resting_hr" | "sleep" | "temperature";
+
+// Relative weight of each component; missing components are re-weighted away
+const WEIGHTS: Record<ReadinessComponentName, number> = {
+  hrv: 0.35,
+  sleep: 0.3,
+  resting_hr: 0.25,
+  temperature: 0.1,
+};
+
+// Minimum score for each training load, checked in order
+const LOAD_THRESHOLDS: Array<{ load: TrainingLoad; min_score: number }> = [
+  { load: "high", min_score: 80 },
+  { load: "moderate", min_score: 60 },
+  { load: "light", min_score: 40 },
+  { load: "rest", min_score: 0 },
+];
+
+export interface ReadinessInputs {
+  hrv: { today: number | null; history: number[] };
+  resting_hr: { today: number | null; history: number[] };
+  sleep: {
+    today_hours: number | null;
+    today_efficiency: number | null;
+    history_hours: number[];
+    history_efficiency: number[];
+  };
+  temperature_deviation: number | null; // Fitbit's nightlyRelative, already vs personal baseline
+}
+
+export interface ReadinessComponent {
+  value: number | null;
+  baseline: number | null;
+  percent_difference: number | null;
+  score: number | null;
+  weight: number;
+  note: string;
+}
+
+export interface ReadinessResult {
+  score: number | null;
+  recommended_training_load: TrainingLoad | null;
+  components: Record<ReadinessComponentName, ReadinessComponent>;
+  missing_components: ReadinessComponentName[];
+  rationale: string[];
+}
+
+function clampScore(value: number): number {
+  return Math.round(Math.min(100, Math.max(0, value)));
+}
+
+function percentDifference(value: number, baseline: number): number {
+  return round(((value - baseline) / baseline) * 100, 1);
+}
+
+function emptyComponent(name: ReadinessComponentName, note: string): ReadinessComponent {
+  return { value: null, baseline: null, percent_difference: null, score: null, weight: WEIGHTS[name], note };
+}
+
+// At baseline: 75. Each 1% below baseline costs 2.5 points (-10% => 50, -30% => 0)
+function hrvComponent(today: number | null, history: number[]): ReadinessComponent {
+  const baseline = average(history, 1);
+  if (today === null || baseline === null) return emptyComponent("hrv", "No HRV reading or baseline");
+
+  const pct = percentDifference(today, baseline);
+  return {
+    value: today,
+    baseline,
+    percent_difference: pct,
+    score: clampScore(75 + 2.5 * pct),
+    weight: WEIGHTS.hrv,
+    note: pct <= -10 ? "HRV well below baseline" : pct >= 5 ? "HRV above baseline" : "HRV near baseline",
+  };
+}
+
+// At baseline: 75. RHR moves less than HRV, so each 1% above baseline costs 5 points
+function restingHrComponent(today: number | null, history: number[]): ReadinessComponent {
+  const baseline = average(history, 1);
+  if (today === null || baseline === null) return emptyComponent("resting_hr", "No resting heart rate or baseline");
+
+  const pct = percentDifference(today, baseline);
+  return {
+    value: today,
+    baseline,
+    percent_difference: pct,
+    score: clampScore(75 - 5 * pct),
+    weight: WEIGHTS.resting_hr,
+    note: pct >= 5 ? "Resting HR elevated" : pct <= -3 ? "Resting HR below baseline" : "Resting HR near baseline",
+  };
+}
+
+// At baseline: 75, adjusted by duration vs baseline and efficiency points vs baseline
+function sleepComponent(inputs: ReadinessInputs["sleep"]): ReadinessComponent {
+  const baseline = average(inputs.history_hours, 2);
+  if (inputs.today_hours === null || baseline === null) return emptyComponent("sleep", "No sleep record or baseline");
+
+  const pct = percentDifference(inputs.today_hours, baseline);
+  const baselineEfficiency = average(inputs.history_efficiency, 1);
+  const efficiencyDiff =
+    inputs.today_efficiency !== null && baselineEfficiency !== null ? inputs.today_efficiency - baselineEfficiency : 0;
+
+  return {
+    value: inputs.today_hours,
+    baseline,
+    percent_difference: pct,
+    score: clampScore(75 + 2 * pct + 2 * efficiencyDiff),
+    weight: WEIGHTS.sleep,
+    note: pct <= -15 ? "Short night vs usual" : pct >= 10 ? "Longer sleep than usual" : "Typical sleep duration",
+  };
+}
+
+// Deviations within 0.2°C are normal; 1.0°C or more scores 0
+function temperatureComponent(deviation: number | null): ReadinessComponent {
+  if (deviation === null) return emptyComponent("temperature", "No skin temperature reading");
+
+  const excess = Math.max(0, Math.abs(deviation) - 0.2);
+  return {
+    value: deviation,
+    baseline: 0,
+    percent_difference: null,
+    score: clampScore(100 - (excess / 0.8) * 100),
+    weight: WEIGHTS.temperature,
+    note: Math.abs(deviation) >= 0.5 ? "Skin temperature off baseline" : "Skin temperature normal",
+  };
+}
+
+export function computeReadiness(inputs: ReadinessInputs): ReadinessResult {
+  const components: Record<ReadinessComponentName, ReadinessComponent> = {
+    hrv: hrvComponent(inputs.hrv.today, inputs.hrv.history),
+    resting_hr: restingHrComponent(inputs.resting_hr.today, inputs.resting_hr.history),
+    sleep: sleepComponent(inputs.sleep),
+    temperature: temperatureComponent(inputs.temperature_deviation),
+  };
+
+  const names = Object.keys(components) as ReadinessComponentName[];
+  const available = names.filter((name) => components[name].score !== null);
+  const missing = names.filter((name) => components[name].score === null);
+
+  if (!available.length) {
+    return {
+      score: null,
+      recommended_training_load: null,
+      components,
+      missing_components: missing,
+      rationale: ["Not enough data to compute readiness"],
+    };
+  }
+
+  const totalWeight = available.reduce((sum, name) => sum + WEIGHTS[name], 0);
+  const score = clampScore(
+    available.reduce((sum, name) => sum + components[name].score! * WEIGHTS[name], 0) / totalWeight
+  );
+
+  let load = LOAD_THRESHOLDS.find((t) => score >= t.min_score)!.load;
+  const rationale = available.map((name) => `${components[name].note} (${components[name].score}/100)`);
+
+  // Suppressed HRV together with a poor night means rest, whatever the total says
+  const hrvPct = components.hrv.percent_difference;
+  const sleepScore = components.sleep.score;
+  if (hrvPct !== null && hrvPct < -10 && sleepScore !== null && sleepScore < 50 && load !== "rest") {
+    load = "rest";
+    rationale.push("HRV more than 10% below baseline after a poor night: rest day recommended");
+  }
+
+  return {
+    score,
+    recommended_training_load: load,
+    components,
+    missing_components: missing,
+    rationale,
+  };
+}
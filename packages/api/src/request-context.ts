@@ -0,0 +1,51 @@
+/**
+ * Per-request context shared with FitbitClient without threading it through every route.
+ */
+import { AsyncLocalStorage } from "async_hooks";
+import { Request, Response, NextFunction } from "express";
+import { DEFAULT_USER_ID, normalizeUserId } from "./fitbit-client.js";
+
+export interface RequestContext {
+  userId: string; // Selected with the X-User-Id header or ?user=
+  fresh: boolean; // Skip cached responses (?fresh=1)
+  cache: { hits: number; misses: number };
+  timezone?: string; // Set by the userTimeZone middleware, see timezone.ts
+  timezone_source?: "settings" | "fitbit_profile" | "default";
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Express middleware: selects the user, sets up the request context and
+ * reports cache usage in X-Cache-* response headers.
+ */
+export function requestContext(req: Request, res: Response, next: NextFunction): void {
+  const requested = (req.headers["x-user-id"] as string | undefined) || (req.query.user as string | undefined) || DEFAULT_USER_ID;
+  // Case-insensitive: Alice and alice are the same user
+  const userId = normalizeUserId(String(requested));
+  if (!userId) {
+    res.status(400).json({ error: "invalid_user", message: "User ID may only contain letters, digits and - (max 64)" });
+    return;
+  }
+
+  const fresh = req.query.fresh === "1" || req.query.fresh === "true";
+  const context: RequestContext = { userId, fresh, cache: { hits: 0, misses: 0 } };
+
+  const json = res.json.bind(res);
+  res.json = (body?: unknown) => {
+    const { hits, misses } = context.cache;
+    if (hits || misses) {
+      const status = fresh ? "BYPASS" : !misses ? "HIT" : !hits ? "MISS" : "PARTIAL";
+      res.setHeader("X-Cache", status);
+      res.setHeader("X-Cache-Hits", String(hits));
+      res.setHeader("X-Cache-Misses", String(misses));
+    }
+    return json(body);
+  };
+
+  storage.run(context, () => next());
+}
@@ -1,19 +1,40 @@
 import { Router, Request, Response } from "express";
 import { getFitbitClient } from "../fitbit-client.js";
-import { formatDate, daysAgo } from "../utils.js";
+import { addDays, hourOf, today } from "../utils.js";
+import { readRange } from "../metric-store.js";
+import { parseDate, parseDateRange } from "../query.js";
+import { buildInsights, baselineDaysFor, latestVsHistory } from "../insights.js";
+import { getExercises, summarizeExercises } from "../exercises.js";
 
 export const activityRouter = Router();
 
-// GET /activity/today
-activityRouter.get("/today", async (_req: Request, res: Response) => {
+// GET /activity/today?date=
+activityRouter.get("/today", async (req: Request, res: Response) => {
   const client = getFitbitClient();
-  const today = formatDate(new Date());
+  const date = parseDate(req);
 
-  const rawData = await client.getActivityByDate(today) as { summary?: Record<string, unknown>; goals?: Record<string, unknown> };
+  const rawData = await client.getActivityByDate(date) as { summary?: Record<string, unknown>; goals?: Record<string, unknown> };
   const summary = rawData.summary || {};
 
+  // Steps so far today vs full previous days, so only flag today once the day is well underway
+  let insights: ReturnType<typeof buildInsights> = [];
+  if (date < today() || hourOf(new Date()) >= 18) {
+    try {
+      const baselineStart = addDays(date, -baselineDaysFor(client.userId, ["steps"]));
+      const { data: stepsHistory } = await readRange<{ "activities-steps"?: Array<{ dateTime: string; value: string }> }>(client, "steps", baselineStart, addDays(date, -1));
+      insights = buildInsights(client.userId, [{
+        metric: "steps",
+        date,
+        current: (summary.steps as number) ?? null,
+        history: (stepsHistory["activities-steps"] || []).map((e) => ({ date: e.dateTime, value: parseInt(e.value) || null })),
+      }]);
+    } catch (e) {
+      console.log("Steps history fetch failed:", e);
+    }
+  }
+
   res.json({
-    date: today,
+    date,
     steps: summary.steps || null,
     calories_out: summary.caloriesOut || null,
     floors: summary.floors || null,
@@ -23,19 +44,16 @@ activityRouter.get("/today", async (_req: Request, res: Response) => {
     fairly_active_minutes: summary.fairlyActiveMinutes || null,
     very_active_minutes: summary.veryActiveMinutes || null,
     raw_data: rawData,
-    insights: [],
+    insights,
   });
 });
 
-// GET /activity/history
+// GET /activity/history?days= or ?start=&end=
 activityRouter.get("/history", async (req: Request, res: Response) => {
-  const days = Math.min(Math.max(parseInt(req.query.days as string) || 14, 1), 90);
+  const { start, end: endDate, days } = parseDateRange(req, { defaultDays: 14 });
   const client = getFitbitClient();
 
-  const startDate = formatDate(daysAgo(days));
-  const endDate = formatDate(daysAgo(1));
-
-  const stepsRaw = await client.getActivityTimeSeries("steps", startDate, endDate) as { "activities-steps"?: Array<{ dateTime: string; value: string }> };
+  const { data: stepsRaw, source, start_date: startDate, truncated } = await readRange<{ "activities-steps"?: Array<{ dateTime: string; value: string }> }>(client, "steps", start, endDate);
 
   const records = (stepsRaw["activities-steps"] || []).map((entry) => ({
     date: entry.dateTime,
@@ -50,11 +68,34 @@ activityRouter.get("/history", async (req: Request, res: Response) => {
     steps: stepsValues.length ? Math.round(stepsValues.reduce((a, b) => a + b, 0) / stepsValues.length) : null,
   };
 
+  const stepsSeries = latestVsHistory("steps", records.map((r) => ({ date: r.date, value: r.steps })));
+
   res.json({
     days_requested: days,
+    start_date: startDate,
+    end_date: endDate,
+    truncated,
+    source,
     records,
     averages,
     raw_data: stepsRaw,
-    insights: [],
+    insights: buildInsights(client.userId, stepsSeries ? [stepsSeries] : []),
+  });
+});
+
+// GET /activity/exercises?days= or ?start=&end= - Logged and auto-detected workouts with intensity
+activityRouter.get("/exercises", async (req: Request, res: Response) => {
+  const { start: startDate, end: endDate, days } = parseDateRange(req, { defaultDays: 7, maxDays: 30, defaultEnd: today() });
+  const client = getFitbitClient();
+
+  const { exercises, raw } = await getExercises(client, startDate, addDays(endDate, 1));
+
+  res.json({
+    days_requested: days,
+    start_date: startDate,
+    end_date: endDate,
+    exercises,
+    summary: summarizeExercises(exercises),
+    raw_data: raw,
   });
 });
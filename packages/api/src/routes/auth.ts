@@ -0,0 +1,62 @@
+import { Router, Request, Response } from "express";
+import { getFitbitClient } from "../fitbit-client.js";
+import { getRequestContext } from "../request-context.js";
+import { createAuthorizationRequest, consumeAuthorizationRequest, FITBIT_SCOPES } from "../oauth.js";
+import { forgetProfileTimeZone } from "../timezone.js";
+
+export const authRouter = Router();
+
+function redirectUriFor(req: Request): string {
+  return process.env.FITBIT_REDIRECT_URI || `${req.protocol}://${req.get("host")}/auth/callback`;
+}
+
+// GET /auth/login?user= - Redirect to the Fitbit consent page
+authRouter.get("/login", (req: Request, res: Response) => {
+  const clientId = process.env.CLIENT_ID;
+  if (!clientId) {
+    res.status(500).json({ error: "not_configured", message: "CLIENT_ID is not configured" });
+    return;
+  }
+
+  const { url } = createAuthorizationRequest(getRequestContext()!.userId, clientId, redirectUriFor(req));
+  res.redirect(url);
+});
+
+// GET /auth/callback - Fitbit redirects here with the authorization code
+authRouter.get("/callback", async (req: Request, res: Response) => {
+  const { code, state, error, error_description: errorDescription } = req.query as Record<string, string | undefined>;
+
+  if (error) {
+    res.status(400).json({ error: "authorization_denied", message: errorDescription || error });
+    return;
+  }
+
+  if (!code || !state) {
+    res.status(400).json({ error: "invalid_request", message: "code and state are required" });
+    return;
+  }
+
+  const pending = consumeAuthorizationRequest(state);
+  if (!pending) {
+    res.status(400).json({ error: "invalid_state", message: "Unknown or expired state. Start again at /auth/login." });
+    return;
+  }
+
+  const client = getFitbitClient(pending.userId);
+  const status = await client.exchangeAuthorizationCode(code, pending.codeVerifier, pending.redirectUri);
+  forgetProfileTimeZone(pending.userId);
+  res.json({ message: "Fitbit account connected", user_id: pending.userId, ...status });
+});
+
+// GET /auth/status - Token expiry and granted scopes
+authRouter.get("/status", async (_req: Request, res: Response) => {
+  const client = getFitbitClient();
+  const status = await client.getTokenStatus();
+
+  res.json({
+    user_id: client.userId,
+    ...status,
+    required_scopes: FITBIT_SCOPES,
+    missing_scopes: status.authenticated ? FITBIT_SCOPES.filter((s) => !status.scopes.includes(s)) : FITBIT_SCOPES,
+  });
+});
@@ -0,0 +1,65 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { getFitbitClient } from "../fitbit-client.js";
+import { LIVE_MAX_DAYS, METRICS, MetricName, getMetricStore, readRange } from "../metric-store.js";
+import { InvalidQueryError, parseDateRange, parseQuery } from "../query.js";
+import { daysBetween } from "../utils.js";
+import { EXPORT_FORMATS, createExportWriter, exportRecords } from "../export.js";
+
+export const exportRouter = Router();
+
+const METRIC_NAMES = Object.keys(METRICS) as [MetricName, ...MetricName[]];
+
+// GET /export?metrics=hrv,spo2&format=csv|ndjson|fhir&days= or ?start=&end= - Stream metrics for clinicians and notebooks
+exportRouter.get("/", async (req: Request, res: Response) => {
+  const { start: startDate, end: endDate } = parseDateRange(req, { defaultDays: 30 });
+  const query = parseQuery(
+    req,
+    z.object({
+      metrics: z
+        .string()
+        .transform((value) => value.split(","))
+        .pipe(z.array(z.enum(METRIC_NAMES)))
+        .optional(),
+      format: z.enum(EXPORT_FORMATS).default("ndjson"),
+    })
+  );
+  const client = getFitbitClient();
+  const metrics = query.metrics ?? METRIC_NAMES;
+
+  // readRange would cut unsynced ranges to the last LIVE_MAX_DAYS, and a file that silently starts later than asked is worse than none
+  if (daysBetween(startDate, endDate) > LIVE_MAX_DAYS) {
+    const unsynced = metrics.filter((metric) => !getMetricStore().covers(client.userId, metric, startDate, endDate));
+    if (unsynced.length) {
+      throw new InvalidQueryError([
+        { param: "start", message: `Ranges over ${LIVE_MAX_DAYS} days need synced data; not synced for this range: ${unsynced.join(", ")}` },
+      ]);
+    }
+  }
+
+  const writer = createExportWriter(query.format, client.userId);
+
+  for (const [i, metric] of metrics.entries()) {
+    let data: unknown;
+    try {
+      ({ data } = await readRange(client, metric, startDate, endDate));
+    } catch (e) {
+      // Nothing is written before the first metric arrives, so its errors still get a status
+      if (!res.headersSent) throw e;
+      console.log(`Export of ${metric} failed:`, e);
+      // Cut the download short so the client can't mistake it for a complete file
+      res.destroy();
+      return;
+    }
+
+    if (i === 0) {
+      res.setHeader("Content-Type", writer.content_type);
+      res.setHeader("Content-Disposition", `attachment; filename="fitbit-${startDate}-${endDate}.${writer.extension}"`);
+      res.write(writer.begin());
+    }
+    for (const record of exportRecords(metric, data, startDate, endDate)) {
+      res.write(writer.write(record));
+    }
+  }
+  res.end(writer.end());
+});
@@ -1,15 +1,29 @@
 import { Router, Request, Response } from "express";
 import { getFitbitClient } from "../fitbit-client.js";
-import { formatDate, daysAgo } from "../utils.js";
+import { z } from "zod";
+import { addDays } from "../utils.js";
+import { readRange } from "../metric-store.js";
+import { parseDate, parseDateRange, parseQuery } from "../query.js";
+import { buildInsights, baselineDaysFor, latestVsHistory } from "../insights.js";
+import { getUserSettings, heartRateThresholdsSchema } from "../user-settings.js";
+import {
+  analyzeIntraday,
+  downsample,
+  minuteToTime,
+  parseIntradayDataset,
+  DEFAULT_HR_THRESHOLDS,
+  INTRADAY_DETAILS,
+  IntradayDetail,
+} from "../intraday.js";
 
 export const heartRateRouter = Router();
 
-// GET /heart-rate/today
-heartRateRouter.get("/today", async (_req: Request, res: Response) => {
+// GET /heart-rate/today?date=
+heartRateRouter.get("/today", async (req: Request, res: Response) => {
   const client = getFitbitClient();
-  const today = formatDate(new Date());
+  const date = parseDate(req);
 
-  const rawData = await client.getHeartRateByDate(today) as {
+  const rawData = await client.getHeartRateByDate(date) as {
     "activities-heart"?: Array<{
       dateTime: string;
       value: {
@@ -37,29 +51,42 @@ heartRateRouter.get("/today", async (_req: Request, res: Response) => {
     }
   }
 
+  let insights: ReturnType<typeof buildInsights> = [];
+  if (restingHeartRate) {
+    try {
+      const baselineStart = addDays(date, -baselineDaysFor(client.userId, ["resting_hr"]));
+      const { data: history } = await readRange<{ "activities-heart"?: Array<{ dateTime: string; value: { restingHeartRate?: number } }> }>(client, "resting_hr", baselineStart, addDays(date, -1));
+      insights = buildInsights(client.userId, [{
+        metric: "resting_hr",
+        date,
+        current: restingHeartRate,
+        history: (history["activities-heart"] || []).map((e) => ({ date: e.dateTime, value: e.value?.restingHeartRate || null })),
+      }]);
+    } catch (e) {
+      console.log("Resting heart rate history fetch failed:", e);
+    }
+  }
+
   res.json({
-    date: today,
+    date,
     resting_heart_rate: restingHeartRate,
     zones,
     raw_data: rawData,
-    insights: [],
+    insights,
   });
 });
 
-// GET /heart-rate/resting/history
+// GET /heart-rate/resting/history?days= or ?start=&end=
 heartRateRouter.get("/resting/history", async (req: Request, res: Response) => {
-  const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 90);
+  const { start, end: endDate, days } = parseDateRange(req, { defaultDays: 30 });
   const client = getFitbitClient();
 
-  const startDate = formatDate(daysAgo(days));
-  const endDate = formatDate(daysAgo(1));
-
-  const rawData = await client.getHeartRateRange(startDate, endDate) as {
+  const { data: rawData, source, start_date: startDate, truncated } = await readRange<{
     "activities-heart"?: Array<{
       dateTime: string;
       value: { restingHeartRate?: number };
     }>;
-  };
+  }>(client, "resting_hr", start, endDate);
 
   const records: Array<{ date: string; value: number | null }> = [];
   const values: number[] = [];
@@ -76,13 +103,75 @@ heartRateRouter.get("/resting/history", async (req: Request, res: Response) => {
   // Sort by date descending
   records.sort((a, b) => b.date.localeCompare(a.date));
 
+  const rhrSeries = latestVsHistory("resting_hr", records);
+
   res.json({
     days_requested: days,
+    start_date: startDate,
+    end_date: endDate,
+    truncated,
+    source,
     records,
     average: values.length ? Math.round((values.reduce((a, b) => a + b, 0) / values.length) * 10) / 10 : null,
     min_value: values.length ? Math.min(...values) : null,
     max_value: values.length ? Math.max(...values) : null,
     raw_data: rawData,
-    insights: [],
+    insights: buildInsights(client.userId, rhrSeries ? [rhrSeries] : []),
+  });
+});
+
+// GET /heart-rate/intraday?date=&detail=1min|5min|15min&thresholds=100,140
+heartRateRouter.get("/intraday", async (req: Request, res: Response) => {
+  const client = getFitbitClient();
+  const date = parseDate(req);
+  const query = parseQuery(req, z.object({
+    detail: z.enum(Object.keys(INTRADAY_DETAILS) as [IntradayDetail, ...IntradayDetail[]]).default("1min"),
+    thresholds: z
+      .string()
+      .regex(/^\d+(,\d+)*$/, "Expected comma-separated bpm values, e.g. 100,140")
+      .transform((value) => value.split(",").map(Number))
+      .pipe(heartRateThresholdsSchema)
+      .optional(),
+  }));
+  const detail = query.detail;
+  const thresholds = query.thresholds || getUserSettings(client.userId).heart_rate_thresholds || DEFAULT_HR_THRESHOLDS;
+
+  // Always fetch minute data: bouts and recovery need it, and it shares the cache with /today
+  const rawData = await client.getHeartRateByDate(date, "1min") as {
+    "activities-heart"?: Array<{
+      dateTime: string;
+      value: {
+        restingHeartRate?: number;
+        heartRateZones?: Array<{ name: string; minutes: number; min?: number; max?: number }>;
+      };
+    }>;
+    "activities-heart-intraday"?: { dataset?: Array<{ time: string; value: number }> };
+  };
+
+  const daily = rawData["activities-heart"]?.[0]?.value;
+  const zones = (daily?.heartRateZones || []).map((zone) => ({
+    name: zone.name,
+    minutes: zone.minutes,
+    min_hr: zone.min || null,
+    max_hr: zone.max || null,
+  }));
+
+  // Bouts start at the user's cardio zone when Fitbit reports one
+  const cardioZone = zones.find((zone) => zone.name === "Cardio");
+  const samples = parseIntradayDataset(rawData["activities-heart-intraday"]?.dataset);
+  const analysis = analyzeIntraday(samples, thresholds, cardioZone?.min_hr ?? undefined);
+
+  res.json({
+    date,
+    detail,
+    resting_heart_rate: daily?.restingHeartRate || null,
+    ...analysis,
+    zones,
+    // Flat rows for Grafana timeseries panels
+    series: downsample(samples, INTRADAY_DETAILS[detail]).map((sample) => ({
+      time: `${date}T${minuteToTime(sample.minute)}`,
+      bpm: sample.bpm,
+    })),
+    raw_data: { "activities-heart": rawData["activities-heart"] },
   });
 });
@@ -0,0 +1,61 @@
+import { Router, Request, Response } from "express";
+import { createWriteStream } from "fs";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { pipeline } from "stream/promises";
+import { getFitbitClient } from "../fitbit-client.js";
+import { getMetricStore } from "../metric-store.js";
+import { importTakeout } from "../takeout-import.js";
+import { ZipError } from "../zip.js";
+
+export const importRouter = Router();
+
+const MAX_UPLOAD_BYTES = 32 * 1024 * 1024; // Cloud Run's request limit; IMPORT_MAX_BYTES overrides
+
+class UploadTooLargeError extends Error {}
+
+/**
+ * Pass the first maxBytes of the upload through, whatever Content-Length said, and fail at
+ * the end if there was more. The rest is read and dropped so the client still gets an answer.
+ */
+function limitBytes(maxBytes: number) {
+  return async function* (source: AsyncIterable<Buffer>) {
+    let received = 0;
+    for await (const chunk of source) {
+      received += chunk.length;
+      if (received <= maxBytes) yield chunk;
+    }
+    if (received > maxBytes) throw new UploadTooLargeError();
+  };
+}
+
+// POST /import - Import a Fitbit data export zip sent as the request body
+importRouter.post("/", async (req: Request, res: Response) => {
+  const client = getFitbitClient();
+  const maxBytes = parseInt(process.env.IMPORT_MAX_BYTES || "") || MAX_UPLOAD_BYTES;
+  const tooLarge = () =>
+    res.status(413).json({ error: "payload_too_large", message: `Uploads are limited to ${maxBytes} bytes; use npm run import for larger archives` });
+  if (parseInt(req.headers["content-length"] || "0") > maxBytes) {
+    tooLarge();
+    return;
+  }
+
+  // Zip entries are read from the end of the file, so spool the upload to disk first
+  const dir = await mkdtemp(join(tmpdir(), "fitbitbot-import-"));
+  const path = join(dir, "export.zip");
+
+  try {
+    await pipeline(req, limitBytes(maxBytes), createWriteStream(path));
+    res.json(await importTakeout(path, client.userId, getMetricStore()));
+  } catch (e) {
+    if (e instanceof UploadTooLargeError) {
+      tooLarge();
+      return;
+    }
+    if (!(e instanceof ZipError)) throw e;
+    res.status(400).json({ error: "invalid_archive", message: e.message });
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,90 @@
+import { Router, Request, Response } from "express";
+import { listKnownUserIds } from "../fitbit-client.js";
+import { renderFitbitUsage } from "../fitbit-usage.js";
+import { getMetricStore, MetricName } from "../metric-store.js";
+import { Gauge } from "../prometheus.js";
+import { SleepRecord, groupSleepDays } from "../sleep-periods.js";
+import { addDays } from "../utils.js";
+
+export const metricsRouter = Router();
+
+const LOOKBACK_DAYS = 14; // How far back the latest value may be before a gauge is left out
+const HRV_BASELINE_DAYS = 7; // Nights before the latest HRV averaged for its baseline
+
+type DatedValue<T> = { dateTime: string; value?: T };
+
+/**
+ * Latest value of a metric from the store, never from Fitbit, so scrapes cost no quota
+ */
+function latest<T>(userId: string, metric: MetricName, read: (entry: T) => number | null | undefined): { date: string; value: number } | null {
+  const state = getMetricStore().getSyncState(userId, metric);
+  if (!state) return null;
+
+  const entries = getMetricStore().getEntries(userId, metric, addDays(state.newest_date, -(LOOKBACK_DAYS - 1)), state.newest_date) as Array<DatedValue<T>>;
+  for (const entry of entries.reverse()) {
+    const value = entry.value === undefined ? null : read(entry.value);
+    if (typeof value === "number") return { date: entry.dateTime, value };
+  }
+  return null;
+}
+
+function latestSleep(userId: string, read: (sleep: SleepRecord) => number | null): { date: string; value: number } | null {
+  const state = getMetricStore().getSyncState(userId, "sleep");
+  if (!state) return null;
+
+  const entries = getMetricStore().getEntries(userId, "sleep", addDays(state.newest_date, -LOOKBACK_DAYS), state.newest_date) as Array<Record<string, unknown>>;
+  const day = groupSleepDays(entries).filter((d) => d.main_sleep && read(d.main_sleep)).pop();
+  return day ? { date: day.date, value: read(day.main_sleep!)! } : null;
+}
+
+/**
+ * Average HRV over the nights before the latest one, as in the morning snapshot
+ */
+function hrvBaseline(userId: string, latestDate: string): number | null {
+  const entries = getMetricStore().getEntries(userId, "hrv", addDays(latestDate, -HRV_BASELINE_DAYS), addDays(latestDate, -1)) as Array<
+    DatedValue<{ dailyRmssd?: number }>
+  >;
+  const values = entries.map((e) => e.value?.dailyRmssd).filter((v): v is number => typeof v === "number");
+  return values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+}
+
+function renderHealthGauges(): string {
+  const gauges = {
+    resting_hr: new Gauge("fitbit_resting_heart_rate_bpm", "Latest resting heart rate"),
+    hrv: new Gauge("fitbit_hrv_rmssd_ms", "Latest nightly HRV (RMSSD)"),
+    sleep: new Gauge("fitbit_sleep_hours", "Latest main sleep duration"),
+    sleep_efficiency: new Gauge("fitbit_sleep_efficiency_percent", "Latest main sleep efficiency"),
+    spo2: new Gauge("fitbit_spo2_percent", "Latest nightly average SpO2"),
+    skin_temp: new Gauge("fitbit_skin_temp_deviation_celsius", "Latest nightly skin temperature deviation from baseline"),
+    steps: new Gauge("fitbit_steps", "Steps on the latest synced day, so far for today"),
+  };
+  const hrvBaselineGauge = new Gauge("fitbit_hrv_baseline_rmssd_ms", `Average HRV (RMSSD) over the ${HRV_BASELINE_DAYS} nights before the latest`);
+  const dates = new Gauge("fitbit_latest_date_timestamp_seconds", "Date of the latest value of each health gauge, as a Unix timestamp");
+
+  for (const userId of listKnownUserIds()) {
+    const values = {
+      resting_hr: latest<{ restingHeartRate?: number }>(userId, "resting_hr", (v) => v.restingHeartRate),
+      hrv: latest<{ dailyRmssd?: number }>(userId, "hrv", (v) => v.dailyRmssd),
+      sleep: latestSleep(userId, (s) => s.duration_hours),
+      sleep_efficiency: latestSleep(userId, (s) => s.efficiency),
+      spo2: latest<{ avg?: number }>(userId, "spo2", (v) => v.avg),
+      skin_temp: latest<{ nightlyRelative?: number }>(userId, "skin_temp", (v) => v.nightlyRelative),
+      steps: latest<string>(userId, "steps", (v) => (v === "" ? null : Number(v))),
+    };
+    for (const [metric, latestValue] of Object.entries(values) as Array<[keyof typeof gauges, { date: string; value: number } | null]>) {
+      if (!latestValue) continue;
+      gauges[metric].set({ user: userId }, latestValue.value);
+      dates.set({ user: userId, metric }, Date.parse(`${latestValue.date}T00:00:00Z`) / 1000);
+    }
+
+    const baseline = values.hrv && hrvBaseline(userId, values.hrv.date);
+    if (baseline) hrvBaselineGauge.set({ user: userId }, Math.round(baseline * 10) / 10);
+  }
+
+  return [...Object.values(gauges), hrvBaselineGauge, dates].map((gauge) => gauge.render()).join("");
+}
+
+// GET /metrics - Prometheus exposition: latest synced health values and Fitbit API usage
+metricsRouter.get("/", (_req: Request, res: Response) => {
+  res.type("text/plain; version=0.0.4; charset=utf-8").send(renderHealthGauges() + renderFitbitUsage());
+});
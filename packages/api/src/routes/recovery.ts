@@ -1,13 +1,21 @@
 import { Router, Request, Response } from "express";
 import { getFitbitClient } from "../fitbit-client.js";
-import { formatDate, daysAgo } from "../utils.js";
+import { addDays, average, round, rollingAverage, minMax, parseVo2Max, CardioFitness } from "../utils.js";
+import { readRange, servedRange } from "../metric-store.js";
+import { parseDate, parseDateRange } from "../query.js";
+import { computeReadiness, ReadinessInputs, READINESS_BASELINE_DAYS } from "../readiness.js";
+import { detectAlerts, AlertInputs, ALERT_BASELINE_DAYS } from "../alerts.js";
+import { buildInsights, baselineDaysFor, latestVsHistory, MetricSeries } from "../insights.js";
+import { groupSleepDays } from "../sleep-periods.js";
 
 export const recoveryRouter = Router();
 
-// GET /recovery/today
-recoveryRouter.get("/today", async (_req: Request, res: Response) => {
+const ROLLING_DAYS = 7;
+
+// GET /recovery/today?date=
+recoveryRouter.get("/today", async (req: Request, res: Response) => {
   const client = getFitbitClient();
-  const today = formatDate(new Date());
+  const date = parseDate(req);
 
   const rawData: Record<string, unknown> = {};
   let hrv = null;
@@ -15,18 +23,34 @@ recoveryRouter.get("/today", async (_req: Request, res: Response) => {
   let breathingRate = null;
   let temperature = null;
 
+  const series: MetricSeries[] = [];
+  const baselineDays = baselineDaysFor(client.userId, ["hrv_rmssd", "spo2_avg", "breathing_rate"]);
+  const baselineStart = addDays(date, -baselineDays);
+  const baselineEnd = addDays(date, -1);
+
   // HRV
   try {
-    const hrvRaw = await client.getHrvByDate(today) as { hrv?: Array<{ dateTime: string; value: { dailyRmssd?: number; deepRmssd?: number } }> };
+    const hrvRaw = await client.getHrvByDate(date) as { hrv?: Array<{ dateTime: string; value: { dailyRmssd?: number; deepRmssd?: number } }> };
     rawData.hrv = hrvRaw;
     if (hrvRaw.hrv?.[0]) {
       const entry = hrvRaw.hrv[0];
       hrv = {
-        date: entry.dateTime || today,
+        date: entry.dateTime || date,
         daily_rmssd: entry.value?.dailyRmssd || null,
         deep_rmssd: entry.value?.deepRmssd || null,
-        vs_baseline_percent: null,
+        vs_baseline_percent: null as number | null,
       };
+
+      const { data: history } = await readRange<{ hrv?: Array<{ dateTime: string; value: { dailyRmssd?: number } }> }>(client, "hrv", baselineStart, baselineEnd);
+      const hrvHistory = (history.hrv || []).map((e) => ({ date: e.dateTime, value: e.value?.dailyRmssd || null }));
+      series.push({ metric: "hrv_rmssd", date, current: hrv.daily_rmssd, history: hrvHistory });
+
+      // vs_baseline_percent uses the 7-day average, like the morning report
+      const weekValues = hrvHistory.filter((h) => h.date >= addDays(date, -7) && h.value).map((h) => h.value!);
+      const weekAverage = average(weekValues, 2);
+      if (weekAverage && hrv.daily_rmssd) {
+        hrv.vs_baseline_percent = round(((hrv.daily_rmssd - weekAverage) / weekAverage) * 100, 1);
+      }
     }
   } catch (e) {
     console.log("HRV fetch failed:", e);
@@ -34,15 +58,23 @@ recoveryRouter.get("/today", async (_req: Request, res: Response) => {
 
   // SpO2
   try {
-    const spo2Raw = await client.getSpo2ByDate(today) as { dateTime?: string; value?: { avg?: number; min?: number; max?: number } };
+    const spo2Raw = await client.getSpo2ByDate(date) as { dateTime?: string; value?: { avg?: number; min?: number; max?: number } };
     rawData.spo2 = spo2Raw;
     if (spo2Raw.value) {
       spo2 = {
-        date: spo2Raw.dateTime || today,
+        date: spo2Raw.dateTime || date,
         avg: spo2Raw.value.avg || null,
         min: spo2Raw.value.min || null,
         max: spo2Raw.value.max || null,
       };
+
+      const { data: history } = await readRange<Array<{ dateTime: string; value: { avg?: number } }>>(client, "spo2", baselineStart, baselineEnd);
+      series.push({
+        metric: "spo2_avg",
+        date,
+        current: spo2.avg,
+        history: (Array.isArray(history) ? history : []).map((e) => ({ date: e.dateTime, value: e.value?.avg || null })),
+      });
     }
   } catch (e) {
     console.log("SpO2 fetch failed:", e);
@@ -50,14 +82,22 @@ recoveryRouter.get("/today", async (_req: Request, res: Response) => {
 
   // Breathing rate
   try {
-    const brRaw = await client.getBreathingRateByDate(today) as { br?: Array<{ dateTime: string; value: { breathingRate?: number } }> };
+    const brRaw = await client.getBreathingRateByDate(date) as { br?: Array<{ dateTime: string; value: { breathingRate?: number } }> };
     rawData.breathing_rate = brRaw;
     if (brRaw.br?.[0]) {
       const entry = brRaw.br[0];
       breathingRate = {
-        date: entry.dateTime || today,
+        date: entry.dateTime || date,
         breathing_rate: entry.value?.breathingRate || null,
       };
+
+      const { data: history } = await readRange<{ br?: Array<{ dateTime: string; value: { breathingRate?: number } }> }>(client, "breathing_rate", baselineStart, baselineEnd);
+      series.push({
+        metric: "breathing_rate",
+        date,
+        current: breathingRate.breathing_rate,
+        history: (history.br || []).map((e) => ({ date: e.dateTime, value: e.value?.breathingRate || null })),
+      });
     }
   } catch (e) {
     console.log("Breathing rate fetch failed:", e);
@@ -65,63 +105,414 @@ recoveryRouter.get("/today", async (_req: Request, res: Response) => {
 
   // Temperature
   try {
-    const tempRaw = await client.getTemperatureByDate(today) as { tempSkin?: Array<{ dateTime: string; value: { nightlyRelative?: number } }> };
+    const tempRaw = await client.getTemperatureByDate(date) as { tempSkin?: Array<{ dateTime: string; value: { nightlyRelative?: number } }> };
     rawData.temperature = tempRaw;
     if (tempRaw.tempSkin?.[0]) {
       const entry = tempRaw.tempSkin[0];
       temperature = {
-        date: entry.dateTime || today,
+        date: entry.dateTime || date,
         nightly_relative: entry.value?.nightlyRelative || null,
       };
+      series.push({ metric: "temp_deviation", date, current: temperature.nightly_relative, history: [] });
     }
   } catch (e) {
     console.log("Temperature fetch failed:", e);
   }
 
+  // Cardio fitness
+  let cardioFitness = null;
+  try {
+    const cardioRaw = await client.getCardioFitnessByDate(date) as { cardioScore?: Array<{ dateTime: string; value?: { vo2Max?: string } }> };
+    rawData.cardio_fitness = cardioRaw;
+    const entry = cardioRaw.cardioScore?.[0];
+    if (entry) {
+      cardioFitness = { date: entry.dateTime || date, ...parseVo2Max(entry.value?.vo2Max) };
+    }
+  } catch (e) {
+    console.log("Cardio fitness fetch failed:", e);
+  }
+
   res.json({
-    date: today,
+    date,
     hrv,
     spo2,
     breathing_rate: breathingRate,
     temperature,
-    cardio_fitness: null,
+    cardio_fitness: cardioFitness,
     raw_data: rawData,
-    insights: [],
+    insights: buildInsights(client.userId, series),
   });
 });
 
-// GET /recovery/history
+// GET /recovery/history?days= or ?start=&end=
 recoveryRouter.get("/history", async (req: Request, res: Response) => {
-  const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 90);
+  const { start, end: endDate, days } = parseDateRange(req, { defaultDays: 30 });
   const client = getFitbitClient();
+  // Every signal covers the same days, even when only some are synced
+  const { start_date: startDate, truncated } = servedRange(client.userId, ["hrv", "spo2", "breathing_rate", "skin_temp", "cardio_fitness"], start, endDate);
 
-  const startDate = formatDate(daysAgo(days));
-  const endDate = formatDate(daysAgo(1));
+  const sources: Array<"store" | "live"> = [];
+  const rawData: Record<string, unknown> = {};
 
-  const hrvRaw = await client.getHrvRange(startDate, endDate) as { hrv?: Array<{ dateTime: string; value: { dailyRmssd?: number; deepRmssd?: number } }> };
+  const { data: hrvRaw, source } = await readRange<{ hrv?: Array<{ dateTime: string; value: { dailyRmssd?: number; deepRmssd?: number } }> }>(client, "hrv", startDate, endDate);
+  rawData.hrv = hrvRaw;
+  sources.push(source);
 
   const hrvRecords = (hrvRaw.hrv || []).map((entry) => ({
     date: entry.dateTime,
     daily_rmssd: entry.value?.dailyRmssd || null,
     deep_rmssd: entry.value?.deepRmssd || null,
+    daily_rmssd_7d_avg: null as number | null,
   }));
 
-  // Sort by date descending
-  hrvRecords.sort((a, b) => b.date.localeCompare(a.date));
+  // SpO2
+  let spo2Records: Array<{ date: string; avg: number | null; min: number | null; max: number | null; avg_7d_avg: number | null }> = [];
+  try {
+    const { data, source } = await readRange<Array<{ dateTime: string; value?: { avg?: number; min?: number; max?: number } }>>(client, "spo2", startDate, endDate);
+    rawData.spo2 = data;
+    sources.push(source);
+    spo2Records = (Array.isArray(data) ? data : []).map((entry) => ({
+      date: entry.dateTime,
+      avg: entry.value?.avg || null,
+      min: entry.value?.min || null,
+      max: entry.value?.max || null,
+      avg_7d_avg: null,
+    }));
+  } catch (e) {
+    console.log("SpO2 history fetch failed:", e);
+  }
+
+  // Breathing rate
+  let breathingRateRecords: Array<{ date: string; breathing_rate: number | null; breathing_rate_7d_avg: number | null }> = [];
+  try {
+    const { data, source } = await readRange<{ br?: Array<{ dateTime: string; value?: { breathingRate?: number } }> }>(client, "breathing_rate", startDate, endDate);
+    rawData.breathing_rate = data;
+    sources.push(source);
+    breathingRateRecords = (data.br || []).map((entry) => ({
+      date: entry.dateTime,
+      breathing_rate: entry.value?.breathingRate || null,
+      breathing_rate_7d_avg: null,
+    }));
+  } catch (e) {
+    console.log("Breathing rate history fetch failed:", e);
+  }
+
+  // Skin temperature
+  let temperatureRecords: Array<{ date: string; nightly_relative: number | null; nightly_relative_7d_avg: number | null }> = [];
+  try {
+    const { data, source } = await readRange<{ tempSkin?: Array<{ dateTime: string; value?: { nightlyRelative?: number } }> }>(client, "skin_temp", startDate, endDate);
+    rawData.temperature = data;
+    sources.push(source);
+    temperatureRecords = (data.tempSkin || []).map((entry) => ({
+      date: entry.dateTime,
+      nightly_relative: entry.value?.nightlyRelative ?? null,
+      nightly_relative_7d_avg: null,
+    }));
+  } catch (e) {
+    console.log("Temperature history fetch failed:", e);
+  }
+
+  // Cardio fitness
+  let cardioFitnessRecords: Array<{ date: string } & CardioFitness> = [];
+  try {
+    const { data, source } = await readRange<{ cardioScore?: Array<{ dateTime: string; value?: { vo2Max?: string } }> }>(client, "cardio_fitness", startDate, endDate);
+    rawData.cardio_fitness = data;
+    sources.push(source);
+    cardioFitnessRecords = (data.cardioScore || []).map((entry) => ({
+      date: entry.dateTime,
+      ...parseVo2Max(entry.value?.vo2Max),
+    }));
+  } catch (e) {
+    console.log("Cardio fitness history fetch failed:", e);
+  }
+
+  // Trailing 7-day averages
+  const hrvRolling = rollingAverage(hrvRecords.map((r) => ({ date: r.date, value: r.daily_rmssd })), ROLLING_DAYS);
+  for (const r of hrvRecords) r.daily_rmssd_7d_avg = hrvRolling.get(r.date) ?? null;
+  const spo2Rolling = rollingAverage(spo2Records.map((r) => ({ date: r.date, value: r.avg })), ROLLING_DAYS);
+  for (const r of spo2Records) r.avg_7d_avg = spo2Rolling.get(r.date) ?? null;
+  const brRolling = rollingAverage(breathingRateRecords.map((r) => ({ date: r.date, value: r.breathing_rate })), ROLLING_DAYS);
+  for (const r of breathingRateRecords) r.breathing_rate_7d_avg = brRolling.get(r.date) ?? null;
+  const tempRolling = rollingAverage(temperatureRecords.map((r) => ({ date: r.date, value: r.nightly_relative })), ROLLING_DAYS, 2);
+  for (const r of temperatureRecords) r.nightly_relative_7d_avg = tempRolling.get(r.date) ?? null;
+
+  const values = {
+    hrv_rmssd: hrvRecords.filter((r) => r.daily_rmssd).map((r) => r.daily_rmssd!),
+    spo2_avg: spo2Records.filter((r) => r.avg).map((r) => r.avg!),
+    breathing_rate: breathingRateRecords.filter((r) => r.breathing_rate).map((r) => r.breathing_rate!),
+    temp_deviation: temperatureRecords.filter((r) => r.nightly_relative !== null).map((r) => r.nightly_relative!),
+    vo2_max: cardioFitnessRecords.filter((r) => r.vo2_max).map((r) => r.vo2_max!),
+  };
 
-  const hrvValues = hrvRecords.filter((r) => r.daily_rmssd).map((r) => r.daily_rmssd!);
   const averages = {
-    hrv_rmssd: hrvValues.length ? Math.round((hrvValues.reduce((a, b) => a + b, 0) / hrvValues.length) * 10) / 10 : null,
+    hrv_rmssd: average(values.hrv_rmssd),
+    spo2_avg: average(values.spo2_avg),
+    breathing_rate: average(values.breathing_rate),
+    temp_deviation: average(values.temp_deviation, 2),
+    vo2_max: average(values.vo2_max),
+  };
+
+  const ranges = {
+    hrv_rmssd: minMax(values.hrv_rmssd),
+    spo2_avg: minMax(values.spo2_avg),
+    breathing_rate: minMax(values.breathing_rate),
+    temp_deviation: minMax(values.temp_deviation),
+    vo2_max: minMax(values.vo2_max),
   };
 
+  // Flat series for Grafana: one row per date with every signal, oldest first
+  const dates = [...new Set([
+    ...hrvRecords.map((r) => r.date),
+    ...spo2Records.map((r) => r.date),
+    ...breathingRateRecords.map((r) => r.date),
+    ...temperatureRecords.map((r) => r.date),
+    ...cardioFitnessRecords.map((r) => r.date),
+  ])].sort();
+  const series = dates.map((date) => {
+    const hrv = hrvRecords.find((r) => r.date === date);
+    const spo2 = spo2Records.find((r) => r.date === date);
+    const br = breathingRateRecords.find((r) => r.date === date);
+    const temp = temperatureRecords.find((r) => r.date === date);
+    const cardio = cardioFitnessRecords.find((r) => r.date === date);
+    return {
+      date,
+      hrv_rmssd: hrv?.daily_rmssd ?? null,
+      hrv_rmssd_7d_avg: hrv?.daily_rmssd_7d_avg ?? null,
+      spo2_avg: spo2?.avg ?? null,
+      spo2_min: spo2?.min ?? null,
+      spo2_max: spo2?.max ?? null,
+      spo2_avg_7d_avg: spo2?.avg_7d_avg ?? null,
+      breathing_rate: br?.breathing_rate ?? null,
+      breathing_rate_7d_avg: br?.breathing_rate_7d_avg ?? null,
+      temp_deviation: temp?.nightly_relative ?? null,
+      temp_deviation_7d_avg: temp?.nightly_relative_7d_avg ?? null,
+      vo2_max: cardio?.vo2_max ?? null,
+    };
+  });
+
+  // Sort by date descending
+  for (const records of [hrvRecords, spo2Records, breathingRateRecords, temperatureRecords, cardioFitnessRecords]) {
+    records.sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  const insightSeries = [
+    latestVsHistory("hrv_rmssd", hrvRecords.map((r) => ({ date: r.date, value: r.daily_rmssd }))),
+    latestVsHistory("spo2_avg", spo2Records.map((r) => ({ date: r.date, value: r.avg }))),
+    latestVsHistory("breathing_rate", breathingRateRecords.map((r) => ({ date: r.date, value: r.breathing_rate }))),
+  ].filter((s): s is MetricSeries => s !== null);
+
   res.json({
     days_requested: days,
+    start_date: startDate,
+    end_date: endDate,
+    truncated,
+    source: sources.every((s) => s === "store") ? "store" : "live",
+    rolling_average_days: ROLLING_DAYS,
     hrv_records: hrvRecords,
-    spo2_records: [],
-    breathing_rate_records: [],
-    temperature_records: [],
+    spo2_records: spo2Records,
+    breathing_rate_records: breathingRateRecords,
+    temperature_records: temperatureRecords,
+    cardio_fitness_records: cardioFitnessRecords,
     averages,
-    raw_data: { hrv: hrvRaw },
-    insights: [],
+    ranges,
+    series,
+    raw_data: rawData,
+    insights: buildInsights(client.userId, insightSeries),
+  });
+});
+
+// GET /recovery/readiness?date= - Deterministic 0-100 readiness score
+recoveryRouter.get("/readiness", async (req: Request, res: Response) => {
+  const client = getFitbitClient();
+  const date = parseDate(req);
+  const baselineStart = addDays(date, -READINESS_BASELINE_DAYS);
+
+  const inputs: ReadinessInputs = {
+    hrv: { today: null, history: [] },
+    resting_hr: { today: null, history: [] },
+    sleep: { today_hours: null, today_efficiency: null, history_hours: [], history_efficiency: [] },
+    temperature_deviation: null,
+  };
+  // Same data with dates, for insights
+  const history = {
+    hrv_rmssd: [] as Array<{ date: string; value: number }>,
+    resting_hr: [] as Array<{ date: string; value: number }>,
+    sleep_hours: [] as Array<{ date: string; value: number }>,
+  };
+
+  // HRV
+  try {
+    const { data } = await readRange<{ hrv?: Array<{ dateTime: string; value: { dailyRmssd?: number } }> }>(client, "hrv", baselineStart, date);
+    for (const entry of data.hrv || []) {
+      const rmssd = entry.value?.dailyRmssd;
+      if (!rmssd) continue;
+      if (entry.dateTime === date) inputs.hrv.today = rmssd;
+      else {
+        inputs.hrv.history.push(rmssd);
+        history.hrv_rmssd.push({ date: entry.dateTime, value: rmssd });
+      }
+    }
+  } catch (e) {
+    console.log("HRV fetch failed:", e);
+  }
+
+  // Resting HR
+  try {
+    const { data } = await readRange<{ "activities-heart"?: Array<{ dateTime: string; value: { restingHeartRate?: number } }> }>(client, "resting_hr", baselineStart, date);
+    for (const entry of data["activities-heart"] || []) {
+      const rhr = entry.value?.restingHeartRate;
+      if (!rhr) continue;
+      if (entry.dateTime === date) inputs.resting_hr.today = rhr;
+      else {
+        inputs.resting_hr.history.push(rhr);
+        history.resting_hr.push({ date: entry.dateTime, value: rhr });
+      }
+    }
+  } catch (e) {
+    console.log("Resting HR fetch failed:", e);
+  }
+
+  // Sleep
+  try {
+    const { data } = await readRange<{ sleep?: Array<Record<string, unknown>> }>(client, "sleep", baselineStart, date);
+    for (const day of groupSleepDays(data.sleep || [], baselineStart, date)) {
+      const record = day.main_sleep;
+      if (!record) continue;
+      if (record.date === date) {
+        inputs.sleep.today_hours = record.duration_hours;
+        inputs.sleep.today_efficiency = record.efficiency;
+      } else {
+        if (record.duration_hours) {
+          inputs.sleep.history_hours.push(record.duration_hours);
+          history.sleep_hours.push({ date: record.date, value: record.duration_hours });
+        }
+        if (record.efficiency) inputs.sleep.history_efficiency.push(record.efficiency);
+      }
+    }
+  } catch (e) {
+    console.log("Sleep fetch failed:", e);
+  }
+
+  // Temperature
+  try {
+    const tempRaw = await client.getTemperatureByDate(date) as { tempSkin?: Array<{ value: { nightlyRelative?: number } }> };
+    inputs.temperature_deviation = tempRaw.tempSkin?.[0]?.value?.nightlyRelative ?? null;
+  } catch (e) {
+    console.log("Temperature fetch failed:", e);
+  }
+
+  const series: MetricSeries[] = [
+    { metric: "hrv_rmssd", date, current: inputs.hrv.today, history: history.hrv_rmssd },
+    { metric: "resting_hr", date, current: inputs.resting_hr.today, history: history.resting_hr },
+    { metric: "sleep_hours", date, current: inputs.sleep.today_hours, history: history.sleep_hours },
+    { metric: "temp_deviation", date, current: inputs.temperature_deviation, history: [] },
+  ];
+
+  res.json({
+    date,
+    baseline_days: READINESS_BASELINE_DAYS,
+    ...computeReadiness(inputs),
+    insights: buildInsights(client.userId, series),
+  });
+});
+
+const ALERT_RECENT_DAYS = 3;
+
+// GET /recovery/alerts?date= - Multi-signal early warning vs personal baselines
+recoveryRouter.get("/alerts", async (req: Request, res: Response) => {
+  const client = getFitbitClient();
+  const date = parseDate(req);
+  const firstDay = addDays(date, -(ALERT_RECENT_DAYS - 1));
+  const rangeStart = addDays(firstDay, -ALERT_BASELINE_DAYS);
+
+  // Nightly values per signal, keyed by date
+  const nights = {
+    hrv: new Map<string, number>(),
+    resting_hr: new Map<string, number>(),
+    breathing_rate: new Map<string, number>(),
+    spo2: new Map<string, number>(),
+    temperature: new Map<string, number>(),
+  };
+
+  try {
+    const { data } = await readRange<{ hrv?: Array<{ dateTime: string; value: { dailyRmssd?: number } }> }>(client, "hrv", rangeStart, date);
+    for (const entry of data.hrv || []) {
+      if (entry.value?.dailyRmssd) nights.hrv.set(entry.dateTime, entry.value.dailyRmssd);
+    }
+  } catch (e) {
+    console.log("HRV fetch failed:", e);
+  }
+
+  try {
+    const { data } = await readRange<{ "activities-heart"?: Array<{ dateTime: string; value: { restingHeartRate?: number } }> }>(client, "resting_hr", rangeStart, date);
+    for (const entry of data["activities-heart"] || []) {
+      if (entry.value?.restingHeartRate) nights.resting_hr.set(entry.dateTime, entry.value.restingHeartRate);
+    }
+  } catch (e) {
+    console.log("Resting HR fetch failed:", e);
+  }
+
+  try {
+    const { data } = await readRange<{ br?: Array<{ dateTime: string; value?: { breathingRate?: number } }> }>(client, "breathing_rate", rangeStart, date);
+    for (const entry of data.br || []) {
+      if (entry.value?.breathingRate) nights.breathing_rate.set(entry.dateTime, entry.value.breathingRate);
+    }
+  } catch (e) {
+    console.log("Breathing rate fetch failed:", e);
+  }
+
+  try {
+    const { data } = await readRange<Array<{ dateTime: string; value?: { avg?: number } }>>(client, "spo2", rangeStart, date);
+    for (const entry of Array.isArray(data) ? data : []) {
+      if (entry.value?.avg) nights.spo2.set(entry.dateTime, entry.value.avg);
+    }
+  } catch (e) {
+    console.log("SpO2 fetch failed:", e);
+  }
+
+  try {
+    const { data } = await readRange<{ tempSkin?: Array<{ dateTime: string; value?: { nightlyRelative?: number } }> }>(client, "skin_temp", firstDay, date);
+    for (const entry of data.tempSkin || []) {
+      if (entry.value?.nightlyRelative !== undefined) nights.temperature.set(entry.dateTime, entry.value.nightlyRelative);
+    }
+  } catch (e) {
+    console.log("Temperature fetch failed:", e);
+  }
+
+  // Each day is compared to the baseline nights before it
+  const inputsFor = (day: string): AlertInputs => {
+    const baselineStart = addDays(day, -ALERT_BASELINE_DAYS);
+    const signal = (values: Map<string, number>) => ({
+      today: values.get(day) ?? null,
+      history: [...values.entries()].filter(([d]) => d >= baselineStart && d < day).map(([, v]) => v),
+    });
+    return {
+      hrv: signal(nights.hrv),
+      resting_hr: signal(nights.resting_hr),
+      breathing_rate: signal(nights.breathing_rate),
+      spo2: signal(nights.spo2),
+      temperature: nights.temperature.get(day) ?? null,
+    };
+  };
+
+  const recentDays = [];
+  for (let day = firstDay; day <= date; day = addDays(day, 1)) {
+    const result = detectAlerts(inputsFor(day));
+    recentDays.push({ date: day, severity: result.severity, contributing_signals: result.contributing_signals });
+  }
+
+  // Nights in a row, ending today, with a warning or alert
+  let consecutiveDays = 0;
+  for (const day of [...recentDays].reverse()) {
+    if (day.severity !== "warning" && day.severity !== "alert") break;
+    consecutiveDays++;
+  }
+
+  res.json({
+    date,
+    baseline_days: ALERT_BASELINE_DAYS,
+    ...detectAlerts(inputsFor(date)),
+    consecutive_days: consecutiveDays,
+    recent_days: recentDays,
   });
 });
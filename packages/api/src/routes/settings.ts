@@ -0,0 +1,51 @@
+import { Router, Request, Response } from "express";
+import { getFitbitClient } from "../fitbit-client.js";
+import { getUserSettings, updateUserSettings, userSettingsSchema } from "../user-settings.js";
+import { getInsightRules } from "../insights.js";
+import { resolveTimeZone } from "../timezone.js";
+
+export const settingsRouter = Router();
+
+// GET /settings - User settings and the insight rules they produce
+settingsRouter.get("/", async (_req: Request, res: Response) => {
+  const userId = getFitbitClient().userId;
+  res.json({
+    user_id: userId,
+    settings: getUserSettings(userId),
+    timezone: await resolveTimeZone(userId),
+    insight_rules: getInsightRules(userId),
+  });
+});
+
+// PATCH /settings - Merge overrides, e.g. { "insight_rules": { "hrv_low": { "threshold": 15 } } }
+settingsRouter.patch("/", async (req: Request, res: Response) => {
+  const parsed = userSettingsSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({
+      error: "invalid_settings",
+      message: "Settings did not match the expected shape",
+      issues: parsed.error.issues,
+    });
+    return;
+  }
+
+  const userId = getFitbitClient().userId;
+  const unknownRules = Object.keys(parsed.data.insight_rules || {}).filter(
+    (ruleId) => !getInsightRules(userId).some((rule) => rule.id === ruleId)
+  );
+  if (unknownRules.length) {
+    res.status(400).json({
+      error: "invalid_settings",
+      message: `Unknown insight rule: ${unknownRules.join(", ")}`,
+    });
+    return;
+  }
+
+  const settings = updateUserSettings(userId, parsed.data);
+  res.json({
+    user_id: userId,
+    settings,
+    timezone: await resolveTimeZone(userId),
+    insight_rules: getInsightRules(userId),
+  });
+});
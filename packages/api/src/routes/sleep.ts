@@ -1,181 +1,161 @@
 import { Router, Request, Response } from "express";
 import { getFitbitClient } from "../fitbit-client.js";
-import { formatDate, daysAgo } from "../utils.js";
+import { z } from "zod";
+import { addDays, average, today } from "../utils.js";
+import { readRange } from "../metric-store.js";
+import { parseDate, parseDateRange, parseQuery } from "../query.js";
+import { buildInsights, baselineDaysFor, latestVsHistory, MetricSeries } from "../insights.js";
+import { getUserSettings } from "../user-settings.js";
+import { DEFAULT_SLEEP_NEED_HOURS, SleepPeriod, analyzeSleepConsistency } from "../sleep-consistency.js";
+import { SleepDay, SleepRecord, groupSleepDays, sleepDayFor } from "../sleep-periods.js";
 
 export const sleepRouter = Router();
 
-interface SleepStages {
-  deep: number | null;
-  deep_percent: number | null;
-  light: number | null;
-  light_percent: number | null;
-  rem: number | null;
-  rem_percent: number | null;
-  wake: number | null;
-}
-
-interface SleepRecord {
-  date: string;
-  start_time: string | null;
-  end_time: string | null;
-  duration_hours: number | null;
-  time_in_bed_minutes: number | null;
-  minutes_asleep: number | null;
-  minutes_awake: number | null;
-  efficiency: number | null;
-  stages: SleepStages | null;
-  is_main_sleep: boolean;
-}
+type SleepRangeResponse = { sleep?: Array<Record<string, unknown>> };
 
-export function parseSleepRecord(entry: Record<string, unknown>): SleepRecord {
-  let stages: SleepStages | null = null;
-
-  const levels = entry.levels as Record<string, unknown> | undefined;
-  if (levels?.summary) {
-    const summary = levels.summary as Record<string, { minutes?: number }>;
-    const deep = summary.deep?.minutes ?? null;
-    const light = summary.light?.minutes ?? null;
-    const rem = summary.rem?.minutes ?? null;
-    const wake = summary.wake?.minutes ?? null;
-
-    const totalSleep = (deep || 0) + (light || 0) + (rem || 0);
-
-    stages = {
-      deep,
-      deep_percent: deep && totalSleep ? Math.round((deep / totalSleep) * 1000) / 10 : null,
-      light,
-      light_percent: light && totalSleep ? Math.round((light / totalSleep) * 1000) / 10 : null,
-      rem,
-      rem_percent: rem && totalSleep ? Math.round((rem / totalSleep) * 1000) / 10 : null,
-      wake,
-    };
-  }
-
-  const minutesAsleep = (entry.minutesAsleep as number) || 0;
-  const durationHours = minutesAsleep ? Math.round((minutesAsleep / 60) * 100) / 100 : null;
-
-  return {
-    date: (entry.dateOfSleep as string) || "",
-    start_time: (entry.startTime as string) || null,
-    end_time: (entry.endTime as string) || null,
-    duration_hours: durationHours,
-    time_in_bed_minutes: (entry.timeInBed as number) || null,
-    minutes_asleep: (entry.minutesAsleep as number) || null,
-    minutes_awake: (entry.minutesAwake as number) || null,
-    efficiency: (entry.efficiency as number) || null,
-    stages,
-    is_main_sleep: (entry.isMainSleep as boolean) ?? true,
-  };
+function mainSleeps(days: SleepDay[]): SleepRecord[] {
+  return days.map((d) => d.main_sleep).filter((s): s is SleepRecord => s !== null);
 }
 
-// GET /sleep/last-night
-sleepRouter.get("/last-night", async (_req: Request, res: Response) => {
+// GET /sleep/last-night?date= - The night ending on date (default today), with the day's naps
+sleepRouter.get("/last-night", async (req: Request, res: Response) => {
   const client = getFitbitClient();
-  const today = formatDate(new Date());
-
-  const rawData = await client.getSleepByDate(today);
-  const sleepArray = (rawData as { sleep?: unknown[] }).sleep || [];
-
-  let sleepRecord: SleepRecord | null = null;
-  for (const entry of sleepArray) {
-    const record = entry as Record<string, unknown>;
-    if (record.isMainSleep) {
-      sleepRecord = parseSleepRecord(record);
-      break;
+  const date = parseDate(req);
+
+  // The day before too: sleep days start at 18:00 the evening before
+  const rawData = (await client.getSleepRange(addDays(date, -1), date)) as SleepRangeResponse;
+  const day = sleepDayFor(rawData.sleep || [], date);
+  const sleepRecord = day.main_sleep;
+
+  // Compare to recent nights
+  const series: MetricSeries[] = [];
+  if (sleepRecord) {
+    try {
+      const baselineStart = addDays(date, -baselineDaysFor(client.userId, ["sleep_hours", "sleep_efficiency"]));
+      const { data } = await readRange<SleepRangeResponse>(client, "sleep", baselineStart, addDays(date, -1));
+      const history = mainSleeps(groupSleepDays(data.sleep || [], baselineStart, addDays(date, -1)));
+
+      series.push(
+        { metric: "sleep_hours", date, current: sleepRecord.duration_hours, history: history.map((r) => ({ date: r.date, value: r.duration_hours })) },
+        { metric: "sleep_efficiency", date, current: sleepRecord.efficiency, history: history.map((r) => ({ date: r.date, value: r.efficiency })) }
+      );
+    } catch (e) {
+      console.log("Sleep history fetch failed:", e);
     }
   }
-  if (!sleepRecord && sleepArray.length > 0) {
-    sleepRecord = parseSleepRecord(sleepArray[0] as Record<string, unknown>);
-  }
 
   res.json({
+    date,
     sleep: sleepRecord,
+    naps: day.naps,
+    nap_minutes: day.nap_minutes,
+    total_sleep_hours: day.total_hours,
     raw_data: rawData,
-    insights: [],
+    insights: buildInsights(client.userId, series),
   });
 });
 
-// GET /sleep/history
+// GET /sleep/history?days= or ?start=&end=
 sleepRouter.get("/history", async (req: Request, res: Response) => {
-  const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 90);
+  const { start, end: endDate, days } = parseDateRange(req, { defaultDays: 30 });
   const client = getFitbitClient();
 
-  const startDate = formatDate(daysAgo(days));
-  const endDate = formatDate(daysAgo(1));
+  const { data: rawData, source, start_date: startDate, truncated } = await readRange<SleepRangeResponse>(client, "sleep", start, endDate);
+  const sleepDays = groupSleepDays(rawData.sleep || [], startDate, endDate).reverse();
 
-  const rawData = await client.getSleepRange(startDate, endDate);
-  const sleepArray = (rawData as { sleep?: unknown[] }).sleep || [];
-
-  const records: SleepRecord[] = [];
-  for (const entry of sleepArray) {
-    const record = entry as Record<string, unknown>;
-    if (record.isMainSleep) {
-      records.push(parseSleepRecord(record));
-    }
-  }
-
-  // Sort by date descending
-  records.sort((a, b) => b.date.localeCompare(a.date));
+  const records = mainSleeps(sleepDays);
+  const naps = sleepDays.flatMap((d) => d.naps);
+  const dailyTotals = sleepDays.map((d) => ({
+    date: d.date,
+    main_sleep_hours: d.main_sleep?.duration_hours ?? null,
+    nap_count: d.naps.length,
+    nap_minutes: d.nap_minutes,
+    total_hours: d.total_hours,
+  }));
 
   // Calculate averages
   const durations = records.filter((r) => r.duration_hours).map((r) => r.duration_hours!);
   const efficiencies = records.filter((r) => r.efficiency).map((r) => r.efficiency!);
 
   const averages = {
-    duration_hours: durations.length ? Math.round((durations.reduce((a, b) => a + b, 0) / durations.length) * 100) / 100 : null,
-    efficiency: efficiencies.length ? Math.round((efficiencies.reduce((a, b) => a + b, 0) / efficiencies.length) * 10) / 10 : null,
+    duration_hours: average(durations, 2),
+    efficiency: average(efficiencies),
+    total_hours: average(sleepDays.map((d) => d.total_hours), 2),
+    nap_minutes: average(sleepDays.map((d) => d.nap_minutes)),
   };
 
+  const series = [
+    latestVsHistory("sleep_hours", records.map((r) => ({ date: r.date, value: r.duration_hours }))),
+    latestVsHistory("sleep_efficiency", records.map((r) => ({ date: r.date, value: r.efficiency }))),
+  ].filter((s): s is MetricSeries => s !== null);
+
   res.json({
     days_requested: days,
+    start_date: startDate,
+    end_date: endDate,
+    truncated,
+    source,
     records,
+    naps,
+    daily_totals: dailyTotals,
     averages,
     raw_data: rawData,
-    insights: [],
+    insights: buildInsights(client.userId, series),
   });
 });
 
 // GET /sleep/stages-history (flat format for Grafana)
 sleepRouter.get("/stages-history", async (req: Request, res: Response) => {
-  const days = Math.min(Math.max(parseInt(req.query.days as string) || 14, 1), 30);
+  const { start, end: endDate } = parseDateRange(req, { defaultDays: 14, defaultEnd: today() });
   const client = getFitbitClient();
 
-  const startDate = formatDate(daysAgo(days));
-  const endDate = formatDate(new Date());
-
-  const rawData = await client.getSleepRange(startDate, endDate);
-  const sleepArray = (rawData as { sleep?: unknown[] }).sleep || [];
-
-  const records: Array<{
-    date: string;
-    deep: number;
-    light: number;
-    rem: number;
-    wake: number;
-    total_sleep: number;
-    efficiency: number | null;
-  }> = [];
-
-  for (const entry of sleepArray) {
-    const record = entry as Record<string, unknown>;
-    if (record.isMainSleep) {
-      const levels = record.levels as Record<string, unknown> | undefined;
-      const summary = (levels?.summary as Record<string, { minutes?: number }>) || {};
-
-      records.push({
-        date: (record.dateOfSleep as string) || "",
-        deep: summary.deep?.minutes || 0,
-        light: summary.light?.minutes || 0,
-        rem: summary.rem?.minutes || 0,
-        wake: summary.wake?.minutes || 0,
-        total_sleep: (record.minutesAsleep as number) || 0,
-        efficiency: (record.efficiency as number) || null,
+  const { data: rawData, start_date: startDate, truncated } = await readRange<SleepRangeResponse>(client, "sleep", start, endDate);
+
+  // Ascending for chart display; stages are the main sleep's, totals include naps
+  const records = groupSleepDays(rawData.sleep || [], startDate, endDate).map((day) => ({
+    date: day.date,
+    deep: day.main_sleep?.stages?.deep || 0,
+    light: day.main_sleep?.stages?.light || 0,
+    rem: day.main_sleep?.stages?.rem || 0,
+    wake: day.main_sleep?.stages?.wake || 0,
+    total_sleep: day.main_sleep?.minutes_asleep || 0,
+    efficiency: day.main_sleep?.efficiency ?? null,
+    nap_minutes: day.nap_minutes,
+    total_sleep_all: day.total_minutes_asleep,
+  }));
+
+  res.json({ start_date: startDate, end_date: endDate, truncated, records });
+});
+
+// GET /sleep/consistency?days= or ?start=&end=&sleep_need= - Timing variability, regularity, social jet lag, sleep debt and chronotype
+sleepRouter.get("/consistency", async (req: Request, res: Response) => {
+  const { start, end: endDate, days } = parseDateRange(req, { defaultDays: 28 });
+  const query = parseQuery(req, z.object({ sleep_need: z.coerce.number().min(4).max(12).optional() }));
+  const client = getFitbitClient();
+  const sleepNeed = query.sleep_need ?? getUserSettings(client.userId).sleep_need_hours ?? DEFAULT_SLEEP_NEED_HOURS;
+
+  const { data: rawData, source, start_date: startDate, truncated } = await readRange<SleepRangeResponse>(client, "sleep", start, endDate);
+
+  const periods: SleepPeriod[] = [];
+  for (const day of groupSleepDays(rawData.sleep || [], startDate, endDate)) {
+    const sleep = day.main_sleep;
+    if (sleep?.start_time && sleep.end_time && sleep.minutes_asleep) {
+      periods.push({
+        date: day.date,
+        start_time: sleep.start_time,
+        end_time: sleep.end_time,
+        minutes_asleep: sleep.minutes_asleep,
+        nap_minutes: day.nap_minutes,
       });
     }
   }
 
-  // Sort by date ascending for chart display
-  records.sort((a, b) => a.date.localeCompare(b.date));
-
-  res.json({ records });
+  res.json({
+    days_requested: days,
+    start_date: startDate,
+    end_date: endDate,
+    truncated,
+    source,
+    ...analyzeSleepConsistency(periods, { start: startDate, end: endDate }, sleepNeed),
+  });
 });
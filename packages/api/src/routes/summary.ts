@@ -1,25 +1,33 @@
 import { Router, Request, Response } from "express";
-import { getFitbitClient, FitbitAPIError } from "../fitbit-client.js";
-import { formatDate, daysAgo } from "../utils.js";
-import { parseSleepRecord } from "./sleep.js";
+import { getFitbitClient } from "../fitbit-client.js";
+import { addDays, currentTimeZone, dayOfWeek, round, average, yesterday } from "../utils.js";
+import { parseDate } from "../query.js";
+import { readRange } from "../metric-store.js";
+import { buildInsights, baselineDaysFor, InsightMetric, MetricSeries } from "../insights.js";
+import { getExercises, summarizeExercises } from "../exercises.js";
+import { SleepRecord, groupSleepDays, sleepDayFor } from "../sleep-periods.js";
 
 export const summaryRouter = Router();
 
-// GET /summary/grafana-snapshot - Flat data for Grafana
-summaryRouter.get("/grafana-snapshot", async (_req: Request, res: Response) => {
+type SleepRangeResponse = { sleep?: Array<Record<string, unknown>> };
+type HrvRangeResponse = { hrv?: Array<{ dateTime: string; value: { dailyRmssd?: number } }> };
+
+// GET /summary/grafana-snapshot?date= - Flat data for Grafana
+summaryRouter.get("/grafana-snapshot", async (req: Request, res: Response) => {
   const client = getFitbitClient();
-  const today = formatDate(new Date());
-  const weekAgo = formatDate(daysAgo(7));
-  const yesterday = formatDate(daysAgo(1));
+  const date = parseDate(req);
+  const weekAgo = addDays(date, -7);
+  const yesterday = addDays(date, -1);
 
   const result: Record<string, unknown> = {
-    date: today,
+    date,
     sleep_hours: null,
     sleep_efficiency: null,
     sleep_deep_min: null,
     sleep_light_min: null,
     sleep_rem_min: null,
     sleep_wake_min: null,
+    nap_minutes: null,
     hrv_rmssd: null,
     hrv_vs_baseline_pct: null,
     spo2_avg: null,
@@ -30,25 +38,23 @@ summaryRouter.get("/grafana-snapshot", async (_req: Request, res: Response) => {
 
   // Sleep
   try {
-    const sleepRaw = await client.getSleepByDate(today) as { sleep?: Array<Record<string, unknown>> };
-    for (const entry of sleepRaw.sleep || []) {
-      if (entry.isMainSleep) {
-        result.sleep_hours = Math.round(((entry.minutesAsleep as number) || 0) / 60 * 100) / 100;
-        result.sleep_efficiency = entry.efficiency;
-        const levels = entry.levels as Record<string, unknown> | undefined;
-        const summary = (levels?.summary as Record<string, { minutes?: number }>) || {};
-        result.sleep_deep_min = summary.deep?.minutes || null;
-        result.sleep_light_min = summary.light?.minutes || null;
-        result.sleep_rem_min = summary.rem?.minutes || null;
-        result.sleep_wake_min = summary.wake?.minutes || null;
-        break;
-      }
+    const sleepRaw = await client.getSleepRange(yesterday, date) as SleepRangeResponse;
+    const day = sleepDayFor(sleepRaw.sleep || [], date);
+    const main = day.main_sleep;
+    if (main) {
+      result.sleep_hours = main.duration_hours;
+      result.sleep_efficiency = main.efficiency;
+      result.sleep_deep_min = main.stages?.deep || null;
+      result.sleep_light_min = main.stages?.light || null;
+      result.sleep_rem_min = main.stages?.rem || null;
+      result.sleep_wake_min = main.stages?.wake || null;
     }
+    result.nap_minutes = day.nap_minutes;
   } catch (e) { /* ignore */ }
 
   // HRV with baseline
   try {
-    const hrvRaw = await client.getHrvByDate(today) as { hrv?: Array<{ value: { dailyRmssd?: number } }> };
+    const hrvRaw = await client.getHrvByDate(date) as { hrv?: Array<{ value: { dailyRmssd?: number } }> };
     if (hrvRaw.hrv?.[0]) {
       result.hrv_rmssd = hrvRaw.hrv[0].value?.dailyRmssd || null;
 
@@ -67,84 +73,96 @@ summaryRouter.get("/grafana-snapshot", async (_req: Request, res: Response) => {
 
   // SpO2
   try {
-    const spo2Raw = await client.getSpo2ByDate(today) as { value?: { avg?: number } };
+    const spo2Raw = await client.getSpo2ByDate(date) as { value?: { avg?: number } };
     result.spo2_avg = spo2Raw.value?.avg || null;
   } catch (e) { /* ignore */ }
 
   // Breathing rate
   try {
-    const brRaw = await client.getBreathingRateByDate(today) as { br?: Array<{ value: { breathingRate?: number } }> };
+    const brRaw = await client.getBreathingRateByDate(date) as { br?: Array<{ value: { breathingRate?: number } }> };
     result.breathing_rate = brRaw.br?.[0]?.value?.breathingRate || null;
   } catch (e) { /* ignore */ }
 
   // Temperature
   try {
-    const tempRaw = await client.getTemperatureByDate(today) as { tempSkin?: Array<{ value: { nightlyRelative?: number } }> };
+    const tempRaw = await client.getTemperatureByDate(date) as { tempSkin?: Array<{ value: { nightlyRelative?: number } }> };
     result.temp_deviation = tempRaw.tempSkin?.[0]?.value?.nightlyRelative || null;
   } catch (e) { /* ignore */ }
 
   // Resting HR
   try {
-    const hrRaw = await client.getHeartRateByDate(today) as { "activities-heart"?: Array<{ value: { restingHeartRate?: number } }> };
+    const hrRaw = await client.getHeartRateByDate(date) as { "activities-heart"?: Array<{ value: { restingHeartRate?: number } }> };
     result.resting_hr = hrRaw["activities-heart"]?.[0]?.value?.restingHeartRate || null;
   } catch (e) { /* ignore */ }
 
   res.json(result);
 });
 
-// GET /summary/morning-report - Comprehensive AI coaching context
-summaryRouter.get("/morning-report", async (_req: Request, res: Response) => {
+// GET /summary/morning-report?date= - Comprehensive AI coaching context
+summaryRouter.get("/morning-report", async (req: Request, res: Response) => {
   const client = getFitbitClient();
   const now = new Date();
-  const today = formatDate(now);
-  const yesterday = formatDate(daysAgo(1));
-  const weekAgo = formatDate(daysAgo(7));
+  const date = parseDate(req);
+  const yesterday = addDays(date, -1);
+  const weekAgo = addDays(date, -7);
+  // History covers the longest insight baseline; comparisons and trends use the last 7 days of it
+  const historyStart = addDays(date, -baselineDaysFor(client.userId, ["sleep_hours", "sleep_efficiency", "hrv_rmssd", "resting_hr", "steps"]));
 
-  const insights: Array<{ metric: string; current_value: unknown; baseline_average?: number; comparison?: string; percent_difference?: number; note?: string }> = [];
+  const series: MetricSeries[] = [];
 
   // Fetch cached data upfront
-  let cachedSleepHistory: { sleep?: Array<Record<string, unknown>> } | null = null;
-  let cachedHrvHistory: { hrv?: Array<{ dateTime: string; value: { dailyRmssd?: number } }> } | null = null;
+  let cachedSleepHistory: SleepRangeResponse | null = null;
+  let cachedHrvHistory: HrvRangeResponse | null = null;
 
   try {
-    cachedSleepHistory = await client.getSleepRange(weekAgo, yesterday) as typeof cachedSleepHistory;
+    cachedSleepHistory = (await readRange<SleepRangeResponse>(client, "sleep", historyStart, yesterday)).data;
   } catch (e) { /* ignore */ }
 
   try {
-    cachedHrvHistory = await client.getHrvRange(weekAgo, yesterday) as typeof cachedHrvHistory;
+    cachedHrvHistory = (await readRange<HrvRangeResponse>(client, "hrv", historyStart, yesterday)).data;
   } catch (e) { /* ignore */ }
 
+  const sleepDays = groupSleepDays(cachedSleepHistory?.sleep || [], historyStart, yesterday);
+  const sleepHistory = sleepDays.map((d) => d.main_sleep).filter((s): s is SleepRecord => s !== null);
+  const weekSleepHistory = cachedSleepHistory ? sleepHistory.filter((s) => s.date >= weekAgo) : null;
+  const weekHrvHistory = cachedHrvHistory?.hrv?.filter((e) => e.dateTime >= weekAgo);
+
   // Last night's sleep
-  let lastNightSleep = null;
+  let lastNightSleep: SleepRecord | null = null;
   let sleepComparison = null;
 
+  // Naps count towards the sleep day they're in, so today's are still to come
+  const yesterdaySleepDay = sleepDays.find((d) => d.date === yesterday);
+  const yesterdaySleep = {
+    nap_count: yesterdaySleepDay?.naps.length || 0,
+    nap_minutes: yesterdaySleepDay?.nap_minutes || 0,
+    total_hours: yesterdaySleepDay?.total_hours ?? null,
+  };
+
   try {
-    const sleepRaw = await client.getSleepByDate(today) as { sleep?: Array<Record<string, unknown>> };
-    for (const entry of sleepRaw.sleep || []) {
-      if (entry.isMainSleep) {
-        lastNightSleep = parseSleepRecord(entry);
-        break;
-      }
+    // The day before too: sleep days start at 18:00 the evening before
+    const sleepRaw = await client.getSleepRange(yesterday, date) as SleepRangeResponse;
+    lastNightSleep = sleepDayFor(sleepRaw.sleep || [], date).main_sleep;
+
+    if (lastNightSleep && weekSleepHistory?.length) {
+      const durations = weekSleepHistory.filter((r) => r.duration_hours).map((r) => r.duration_hours!);
+      const avgDuration = durations.reduce((a, b) => a + b, 0) / durations.length;
+      const efficiencies = weekSleepHistory.filter((r) => r.efficiency).map((r) => r.efficiency!);
+      const avgEfficiency = efficiencies.length ? efficiencies.reduce((a, b) => a + b, 0) / efficiencies.length : 0;
+
+      sleepComparison = {
+        vs_7day_avg_duration_hours: Math.round(avgDuration * 100) / 100,
+        vs_7day_avg_efficiency: avgEfficiency ? Math.round(avgEfficiency * 10) / 10 : null,
+        duration_diff_hours: lastNightSleep.duration_hours ? Math.round((lastNightSleep.duration_hours - avgDuration) * 100) / 100 : null,
+        efficiency_diff: lastNightSleep.efficiency && avgEfficiency ? Math.round((lastNightSleep.efficiency - avgEfficiency) * 10) / 10 : null,
+      };
     }
 
-    if (lastNightSleep && cachedSleepHistory?.sleep) {
-      const historyRecords = cachedSleepHistory.sleep
-        .filter((s) => s.isMainSleep && s.dateOfSleep !== lastNightSleep!.date)
-        .map((s) => parseSleepRecord(s));
-
-      if (historyRecords.length) {
-        const durations = historyRecords.filter((r) => r.duration_hours).map((r) => r.duration_hours!);
-        const avgDuration = durations.reduce((a, b) => a + b, 0) / durations.length;
-        const efficiencies = historyRecords.filter((r) => r.efficiency).map((r) => r.efficiency!);
-        const avgEfficiency = efficiencies.length ? efficiencies.reduce((a, b) => a + b, 0) / efficiencies.length : 0;
-
-        sleepComparison = {
-          vs_7day_avg_duration_hours: Math.round(avgDuration * 100) / 100,
-          vs_7day_avg_efficiency: avgEfficiency ? Math.round(avgEfficiency * 10) / 10 : null,
-          duration_diff_hours: lastNightSleep.duration_hours ? Math.round((lastNightSleep.duration_hours - avgDuration) * 100) / 100 : null,
-          efficiency_diff: lastNightSleep.efficiency && avgEfficiency ? Math.round((lastNightSleep.efficiency - avgEfficiency) * 10) / 10 : null,
-        };
-      }
+    if (lastNightSleep) {
+      series.push(
+        { metric: "sleep_hours", date, current: lastNightSleep.duration_hours, history: sleepHistory.map((r) => ({ date: r.date, value: r.duration_hours })) },
+        { metric: "sleep_efficiency", date, current: lastNightSleep.efficiency, history: sleepHistory.map((r) => ({ date: r.date, value: r.efficiency })) }
+      );
     }
   } catch (e) { /* ignore */ }
 
@@ -173,6 +191,27 @@ summaryRouter.get("/morning-report", async (_req: Request, res: Response) => {
         peak: (azmData.peakActiveZoneMinutes as number) || null,
       };
     } catch (e) { /* ignore */ }
+
+    // Steps vs the days before yesterday
+    try {
+      const { data: stepsHistory } = await readRange<{ "activities-steps"?: Array<{ dateTime: string; value: string }> }>(client, "steps", addDays(yesterday, -baselineDaysFor(client.userId, ["steps"])), addDays(yesterday, -1));
+      series.push({
+        metric: "steps",
+        date: yesterday,
+        current: (yesterdayActivity.steps as number) || null,
+        history: (stepsHistory["activities-steps"] || []).map((e) => ({ date: e.dateTime, value: parseInt(e.value) || null })),
+      });
+    } catch (e) { /* ignore */ }
+  } catch (e) { /* ignore */ }
+
+  // Exercise over the past week, up to the end of yesterday
+  let exerciseSummary = null;
+  try {
+    const { exercises } = await getExercises(client, weekAgo, date);
+    exerciseSummary = {
+      yesterday: exercises.filter((e) => e.date === yesterday),
+      past_week: summarizeExercises(exercises),
+    };
   } catch (e) { /* ignore */ }
 
   // Recovery
@@ -180,13 +219,13 @@ summaryRouter.get("/morning-report", async (_req: Request, res: Response) => {
   let hrvData = null;
 
   try {
-    const hrvRaw = await client.getHrvByDate(today) as { hrv?: Array<{ dateTime: string; value: { dailyRmssd?: number; deepRmssd?: number } }> };
+    const hrvRaw = await client.getHrvByDate(date) as { hrv?: Array<{ dateTime: string; value: { dailyRmssd?: number; deepRmssd?: number } }> };
     if (hrvRaw.hrv?.[0]) {
       const entry = hrvRaw.hrv[0];
       let vsBaselinePercent = null;
 
-      if (cachedHrvHistory?.hrv) {
-        const hrvValues = cachedHrvHistory.hrv
+      if (weekHrvHistory) {
+        const hrvValues = weekHrvHistory
           .filter((e) => e.value?.dailyRmssd)
           .map((e) => e.value.dailyRmssd!);
         if (hrvValues.length && entry.value?.dailyRmssd) {
@@ -196,11 +235,18 @@ summaryRouter.get("/morning-report", async (_req: Request, res: Response) => {
       }
 
       hrvData = {
-        date: entry.dateTime || today,
+        date: entry.dateTime || date,
         daily_rmssd: entry.value?.dailyRmssd || null,
         deep_rmssd: entry.value?.deepRmssd || null,
         vs_baseline_percent: vsBaselinePercent,
       };
+
+      series.push({
+        metric: "hrv_rmssd",
+        date,
+        current: hrvData.daily_rmssd,
+        history: (cachedHrvHistory?.hrv || []).map((e) => ({ date: e.dateTime, value: e.value?.dailyRmssd || null })),
+      });
     }
   } catch (e) { /* ignore */ }
 
@@ -209,8 +255,18 @@ summaryRouter.get("/morning-report", async (_req: Request, res: Response) => {
   // Resting HR
   let restingHeartRate = null;
   try {
-    const hrRaw = await client.getHeartRateByDate(today) as { "activities-heart"?: Array<{ value: { restingHeartRate?: number } }> };
+    const hrRaw = await client.getHeartRateByDate(date) as { "activities-heart"?: Array<{ value: { restingHeartRate?: number } }> };
     restingHeartRate = hrRaw["activities-heart"]?.[0]?.value?.restingHeartRate || null;
+
+    if (restingHeartRate) {
+      const { data: rhrHistory } = await readRange<{ "activities-heart"?: Array<{ dateTime: string; value: { restingHeartRate?: number } }> }>(client, "resting_hr", historyStart, yesterday);
+      series.push({
+        metric: "resting_hr",
+        date,
+        current: restingHeartRate,
+        history: (rhrHistory["activities-heart"] || []).map((e) => ({ date: e.dateTime, value: e.value?.restingHeartRate || null })),
+      });
+    }
   } catch (e) { /* ignore */ }
 
   // Trends
@@ -219,16 +275,16 @@ summaryRouter.get("/morning-report", async (_req: Request, res: Response) => {
     const sleepDurations: number[] = [];
     const hrvValues: number[] = [];
 
-    if (cachedSleepHistory?.sleep) {
-      for (const entry of cachedSleepHistory.sleep) {
-        if (entry.isMainSleep && entry.minutesAsleep) {
-          sleepDurations.push((entry.minutesAsleep as number) / 60);
+    if (weekSleepHistory) {
+      for (const record of weekSleepHistory) {
+        if (record.minutes_asleep) {
+          sleepDurations.push(record.minutes_asleep / 60);
         }
       }
     }
 
-    if (cachedHrvHistory?.hrv) {
-      for (const entry of cachedHrvHistory.hrv) {
+    if (weekHrvHistory) {
+      for (const entry of weekHrvHistory) {
         if (entry.value?.dailyRmssd) {
           hrvValues.push(entry.value.dailyRmssd);
         }
@@ -244,16 +300,195 @@ summaryRouter.get("/morning-report", async (_req: Request, res: Response) => {
 
   res.json({
     report_generated_at: now.toISOString(),
+    date,
     last_night_sleep: lastNightSleep,
+    yesterday_sleep: yesterdaySleep,
     sleep_comparison: sleepComparison,
     yesterday_activity: yesterdayActivity,
+    exercise_summary: exerciseSummary,
     recovery,
     resting_heart_rate: restingHeartRate,
     trends,
-    insights,
+    insights: buildInsights(client.userId, series),
     data_summary: {
-      day_of_week: now.toLocaleDateString("en-US", { weekday: "long" }),
-      is_weekend: now.getDay() === 0 || now.getDay() === 6,
+      day_of_week: dayOfWeek(date),
+      is_weekend: ["Saturday", "Sunday"].includes(dayOfWeek(date)),
+      timezone: currentTimeZone(),
+    },
+  });
+});
+
+interface WeekDay {
+  date: string;
+  day_of_week: string;
+  sleep_hours: number | null;
+  sleep_efficiency: number | null;
+  steps: number | null;
+  calories_out: number | null;
+  active_zone_minutes: number | null;
+  resting_hr: number | null;
+  hrv_rmssd: number | null;
+}
+
+type WeekMetric = Exclude<keyof WeekDay, "date" | "day_of_week">;
+
+// Metrics compared week over week; higher_is_better decides best/worst days
+const WEEK_METRICS: Array<{ metric: WeekMetric; higher_is_better: boolean; decimals: number }> = [
+  { metric: "sleep_hours", higher_is_better: true, decimals: 2 },
+  { metric: "sleep_efficiency", higher_is_better: true, decimals: 1 },
+  { metric: "steps", higher_is_better: true, decimals: 0 },
+  { metric: "calories_out", higher_is_better: true, decimals: 0 },
+  { metric: "active_zone_minutes", higher_is_better: true, decimals: 0 },
+  { metric: "resting_hr", higher_is_better: false, decimals: 1 },
+  { metric: "hrv_rmssd", higher_is_better: true, decimals: 1 },
+];
+
+function weekAverages(days: WeekDay[]): Record<WeekMetric, number | null> {
+  const averages = {} as Record<WeekMetric, number | null>;
+  for (const { metric, decimals } of WEEK_METRICS) {
+    const values = days.filter((d) => d[metric] !== null).map((d) => d[metric]!);
+    averages[metric] = average(values, decimals);
+  }
+  return averages;
+}
+
+// GET /summary/week?end= - The 7 days ending on end (default yesterday) with week-over-week comparison
+summaryRouter.get("/week", async (req: Request, res: Response) => {
+  const client = getFitbitClient();
+  const endDate = parseDate(req, "end", yesterday());
+  // Fetch 14 days in one go so the previous week costs no extra requests
+  const startDate = addDays(endDate, -13);
+
+  const days = new Map<string, WeekDay>();
+  for (let i = 13; i >= 0; i--) {
+    const key = addDays(endDate, -i);
+    days.set(key, {
+      date: key,
+      day_of_week: dayOfWeek(key),
+      sleep_hours: null,
+      sleep_efficiency: null,
+      steps: null,
+      calories_out: null,
+      active_zone_minutes: null,
+      resting_hr: null,
+      hrv_rmssd: null,
+    });
+  }
+
+  // Sleep
+  try {
+    const sleepRaw = await client.getSleepRange(startDate, endDate) as SleepRangeResponse;
+    for (const sleepDay of groupSleepDays(sleepRaw.sleep || [], startDate, endDate)) {
+      const day = days.get(sleepDay.date);
+      if (day && sleepDay.main_sleep) {
+        day.sleep_hours = sleepDay.main_sleep.duration_hours;
+        day.sleep_efficiency = sleepDay.main_sleep.efficiency;
+      }
+    }
+  } catch (e) { /* ignore */ }
+
+  // Steps
+  try {
+    const stepsRaw = await client.getActivityTimeSeries("steps", startDate, endDate) as { "activities-steps"?: Array<{ dateTime: string; value: string }> };
+    for (const entry of stepsRaw["activities-steps"] || []) {
+      const day = days.get(entry.dateTime);
+      if (day) day.steps = parseInt(entry.value) || null;
+    }
+  } catch (e) { /* ignore */ }
+
+  // Calories
+  try {
+    const caloriesRaw = await client.getActivityTimeSeries("calories", startDate, endDate) as { "activities-calories"?: Array<{ dateTime: string; value: string }> };
+    for (const entry of caloriesRaw["activities-calories"] || []) {
+      const day = days.get(entry.dateTime);
+      if (day) day.calories_out = parseInt(entry.value) || null;
+    }
+  } catch (e) { /* ignore */ }
+
+  // Active Zone Minutes
+  try {
+    const azmRaw = await client.getActiveZoneMinutesRange(startDate, endDate) as { "activities-active-zone-minutes"?: Array<{ dateTime: string; value: { activeZoneMinutes?: number } }> };
+    for (const entry of azmRaw["activities-active-zone-minutes"] || []) {
+      const day = days.get(entry.dateTime);
+      if (day) day.active_zone_minutes = entry.value?.activeZoneMinutes ?? null;
+    }
+  } catch (e) { /* ignore */ }
+
+  // Resting HR
+  try {
+    const hrRaw = await client.getHeartRateRange(startDate, endDate) as { "activities-heart"?: Array<{ dateTime: string; value: { restingHeartRate?: number } }> };
+    for (const entry of hrRaw["activities-heart"] || []) {
+      const day = days.get(entry.dateTime);
+      if (day) day.resting_hr = entry.value?.restingHeartRate || null;
+    }
+  } catch (e) { /* ignore */ }
+
+  // HRV
+  try {
+    const hrvRaw = await client.getHrvRange(startDate, endDate) as HrvRangeResponse;
+    for (const entry of hrvRaw.hrv || []) {
+      const day = days.get(entry.dateTime);
+      if (day) day.hrv_rmssd = entry.value?.dailyRmssd || null;
+    }
+  } catch (e) { /* ignore */ }
+
+  const allDays = [...days.values()];
+  const previousWeek = allDays.slice(0, 7);
+  const thisWeek = allDays.slice(7);
+
+  const averages = weekAverages(thisWeek);
+  const previousAverages = weekAverages(previousWeek);
+
+  const weekOverWeek: Record<string, { current: number | null; previous: number | null; change: number | null; change_percent: number | null }> = {};
+  const bestDays: Record<string, { date: string; value: number } | null> = {};
+  const worstDays: Record<string, { date: string; value: number } | null> = {};
+
+  for (const { metric, higher_is_better, decimals } of WEEK_METRICS) {
+    const current = averages[metric];
+    const previous = previousAverages[metric];
+    weekOverWeek[metric] = {
+      current,
+      previous,
+      change: current !== null && previous !== null ? round(current - previous, decimals) : null,
+      change_percent: current !== null && previous ? round(((current - previous) / previous) * 100, 1) : null,
+    };
+
+    const withData = thisWeek.filter((d) => d[metric] !== null);
+    if (withData.length) {
+      const sorted = [...withData].sort((a, b) => (b[metric]! - a[metric]!) * (higher_is_better ? 1 : -1));
+      bestDays[metric] = { date: sorted[0].date, value: sorted[0][metric]! };
+      worstDays[metric] = { date: sorted[sorted.length - 1].date, value: sorted[sorted.length - 1][metric]! };
+    } else {
+      bestDays[metric] = null;
+      worstDays[metric] = null;
+    }
+  }
+
+  // This week's averages against last week's days
+  const insightMetrics: Array<WeekMetric & InsightMetric> = ["sleep_hours", "sleep_efficiency", "steps", "active_zone_minutes", "resting_hr", "hrv_rmssd"];
+  const series: MetricSeries[] = insightMetrics.map((metric) => ({
+    metric,
+    date: thisWeek[0].date,
+    current: averages[metric],
+    history: previousWeek.map((d) => ({ date: d.date, value: d[metric] })),
+  }));
+
+  const sum = (metric: WeekMetric) => thisWeek.reduce((total, d) => total + (d[metric] || 0), 0);
+
+  res.json({
+    period: { start: thisWeek[0].date, end: thisWeek[thisWeek.length - 1].date },
+    previous_period: { start: previousWeek[0].date, end: previousWeek[previousWeek.length - 1].date },
+    days: thisWeek,
+    averages,
+    previous_averages: previousAverages,
+    totals: {
+      steps: sum("steps"),
+      calories_out: sum("calories_out"),
+      active_zone_minutes: sum("active_zone_minutes"),
     },
+    week_over_week: weekOverWeek,
+    best_days: bestDays,
+    worst_days: worstDays,
+    insights: buildInsights(client.userId, series),
   });
 });
@@ -0,0 +1,30 @@
+import { Router, Request, Response } from "express";
+import { getFitbitClient } from "../fitbit-client.js";
+import { getMetricStore, MetricName, METRICS } from "../metric-store.js";
+import { runSync, getSyncStatus, defaultBackfillFrom } from "../sync.js";
+
+export const syncRouter = Router();
+
+// GET /sync/status
+syncRouter.get("/status", (_req: Request, res: Response) => {
+  const client = getFitbitClient();
+  const store = getMetricStore();
+
+  res.json({
+    user_id: client.userId,
+    ...getSyncStatus(client.userId),
+    backfill_from: defaultBackfillFrom(),
+    metrics: store.getAllSyncStates(client.userId),
+  });
+});
+
+// POST /sync/run - Run one sync pass (incremental, then backfill)
+syncRouter.post("/run", async (req: Request, res: Response) => {
+  const maxRequests = parseInt(req.query.max_requests as string) || undefined;
+  const metrics = req.query.metrics
+    ? (req.query.metrics as string).split(",").filter((m): m is MetricName => m in METRICS)
+    : undefined;
+
+  const result = await runSync(getFitbitClient(), getMetricStore(), { maxRequests, metrics });
+  res.json(result);
+});
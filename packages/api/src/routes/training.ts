@@ -0,0 +1,99 @@
+import { Router, Request, Response } from "express";
+import { getFitbitClient } from "../fitbit-client.js";
+import { addDays } from "../utils.js";
+import { readRange, servedRange } from "../metric-store.js";
+import { parseDateRange } from "../query.js";
+import { Exercise, getExercises } from "../exercises.js";
+import { ACUTE_DAYS, CHRONIC_DAYS, ZoneMinutes, assessLoad, computeLoadMetrics, dailyLoad } from "../training-load.js";
+
+export const trainingRouter = Router();
+
+type HeartRateDay = { dateTime: string; value?: { heartRateZones?: Array<{ name: string; minutes?: number }> } };
+type AzmDay = { dateTime: string; value?: { fatBurnActiveZoneMinutes?: number; cardioActiveZoneMinutes?: number; peakActiveZoneMinutes?: number } };
+
+function parseZoneMinutes(zones: Array<{ name: string; minutes?: number }> | undefined): ZoneMinutes | null {
+  if (!zones?.length || zones.every((z) => z.minutes === undefined)) return null;
+  const minutes = (name: string) => zones.find((z) => z.name === name)?.minutes || 0;
+  return { fat_burn: minutes("Fat Burn"), cardio: minutes("Cardio"), peak: minutes("Peak") };
+}
+
+// GET /training/load?days= or ?start=&end= - Daily load, ACWR, monotony and strain
+trainingRouter.get("/load", async (req: Request, res: Response) => {
+  const { start: startDate, end: endDate, days } = parseDateRange(req, { defaultDays: 28, maxDays: 60 });
+  const client = getFitbitClient();
+
+  // Metrics for the first day need a full chronic window before it
+  const { start_date: fetchStart, truncated } = servedRange(client.userId, ["resting_hr", "azm"], addDays(startDate, -(CHRONIC_DAYS - 1)), endDate);
+  const sources: Array<"store" | "live"> = [];
+
+  const zonesByDate = new Map<string, ZoneMinutes | null>();
+  try {
+    const { data, source } = await readRange<{ "activities-heart"?: HeartRateDay[] }>(client, "resting_hr", fetchStart, endDate);
+    sources.push(source);
+    for (const entry of data["activities-heart"] || []) {
+      zonesByDate.set(entry.dateTime, parseZoneMinutes(entry.value?.heartRateZones));
+    }
+  } catch (e) {
+    console.log("Heart rate zones fetch failed:", e);
+  }
+
+  const azmByDate = new Map<string, ZoneMinutes>();
+  try {
+    const { data, source } = await readRange<{ "activities-active-zone-minutes"?: AzmDay[] }>(client, "azm", fetchStart, endDate);
+    sources.push(source);
+    for (const entry of data["activities-active-zone-minutes"] || []) {
+      azmByDate.set(entry.dateTime, {
+        fat_burn: entry.value?.fatBurnActiveZoneMinutes || 0,
+        cardio: entry.value?.cardioActiveZoneMinutes || 0,
+        peak: entry.value?.peakActiveZoneMinutes || 0,
+      });
+    }
+  } catch (e) {
+    console.log("Active Zone Minutes fetch failed:", e);
+  }
+
+  const exercisesByDate = new Map<string, Exercise[]>();
+  try {
+    const { exercises } = await getExercises(client, fetchStart, addDays(endDate, 1));
+    for (const exercise of exercises) {
+      if (!exercisesByDate.has(exercise.date)) exercisesByDate.set(exercise.date, []);
+      exercisesByDate.get(exercise.date)!.push(exercise);
+    }
+  } catch (e) {
+    console.log("Exercise log fetch failed:", e);
+  }
+
+  // Every calendar day is listed; computeLoadMetrics leaves days without data out of the averages
+  const loads = [];
+  for (let date = fetchStart; date <= endDate; date = addDays(date, 1)) {
+    loads.push(
+      dailyLoad({
+        date,
+        zone_minutes: zonesByDate.get(date) ?? null,
+        active_zone_minutes: azmByDate.get(date) ?? null,
+        exercises: exercisesByDate.get(date) || [],
+      })
+    );
+  }
+
+  const metrics = computeLoadMetrics(loads);
+  const records = loads
+    .map((load, i) => ({ ...load, ...metrics[i] }))
+    .filter((r) => r.date >= startDate)
+    .sort((a, b) => b.date.localeCompare(a.date));
+
+  const latest = metrics[metrics.length - 1];
+
+  res.json({
+    days_requested: days,
+    start_date: startDate,
+    end_date: endDate,
+    truncated,
+    source: sources.length && sources.every((s) => s === "store") ? "store" : "live",
+    acute_days: ACUTE_DAYS,
+    chronic_days: CHRONIC_DAYS,
+    days_with_data: loads.filter((l) => l.source !== "none").length,
+    latest: { ...latest, ...assessLoad(latest) },
+    records,
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Sleep timing and circadian analytics over a run of main sleeps.
+ * Clock times are averaged on a circle, so bedtimes either side of midnight
+ * average to around midnight rather than midday.
+ */
+import { addDays, dayOfWeek, round } from "./utils.js";
+
+export const DEFAULT_SLEEP_NEED_HOURS = 8;
+
+const MINUTES_PER_DAY = 1440;
+const SRI_EPOCH_MINUTES = 5;
+const MIN_NIGHTS_PER_GROUP = 2; // Work and free nights needed for social jet lag and chronotype
+
+export interface SleepPeriod {
+  date: string; // dateOfSleep: the date the sleep ended on
+  start_time: string; // Local time, e.g. 2024-01-14T23:10:30.000
+  end_time: string;
+  minutes_asleep: number;
+  nap_minutes: number; // Naps that day, counted in sleep debt but not in timing
+}
+
+export interface ClockStats {
+  mean: string | null; // HH:MM
+  sd_minutes: number | null;
+}
+
+export type Chronotype = "early" | "intermediate" | "late";
+
+export interface ConsistencyNight {
+  date: string;
+  is_free_day: boolean;
+  bedtime: string;
+  wake_time: string;
+  midpoint: string;
+  duration_hours: number;
+  nap_hours: number;
+  debt_hours: number; // Sleep need minus sleep and naps, negative when sleeping more
+}
+
+export interface SleepConsistency {
+  nights: number;
+  sleep_need_hours: number;
+  bedtime: ClockStats;
+  wake_time: ClockStats;
+  midpoint: ClockStats;
+  duration: { mean_hours: number | null; sd_minutes: number | null };
+  sleep_regularity_index: number | null;
+  social_jet_lag_hours: number | null;
+  sleep_debt: {
+    last_7_days_hours: number | null;
+    last_14_days_hours: number | null;
+    last_7_days_missing_nights: number | null;
+    last_14_days_missing_nights: number | null;
+  };
+  chronotype: { category: Chronotype | null; corrected_free_day_midpoint: string | null; based_on: "free_days" | "all_days" | null };
+  notes: string[];
+  records: ConsistencyNight[];
+}
+
+// Fitbit times are local and carry no offset, so they're read as UTC to keep them as-is
+function toEpochMinutes(localTime: string): number {
+  return Math.floor(Date.parse(`${localTime.slice(0, 19)}Z`) / 60000);
+}
+
+function clockMinutes(epochMinutes: number): number {
+  return ((epochMinutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+}
+
+export function formatClock(minutes: number): string {
+  const m = Math.round(clockMinutes(minutes)) % MINUTES_PER_DAY;
+  return `${String(Math.floor(m / 60)).padStart(2, "0")}:${String(m % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Circular mean and standard deviation of clock times, in minutes
+ */
+export function circularStats(minutes: number[]): { mean: number; sd: number } | null {
+  if (!minutes.length) return null;
+  const angles = minutes.map((m) => (m / MINUTES_PER_DAY) * 2 * Math.PI);
+  const sin = angles.reduce((sum, a) => sum + Math.sin(a), 0) / angles.length;
+  const cos = angles.reduce((sum, a) => sum + Math.cos(a), 0) / angles.length;
+  const mean = clockMinutes(Math.round((Math.atan2(sin, cos) / (2 * Math.PI)) * MINUTES_PER_DAY));
+  const resultant = Math.min(1, Math.sqrt(sin * sin + cos * cos));
+  const sd = (Math.sqrt(-2 * Math.log(resultant)) / (2 * Math.PI)) * MINUTES_PER_DAY;
+  return { mean, sd: Math.round(sd) };
+}
+
+function clockStats(minutes: number[]): ClockStats {
+  const stats = circularStats(minutes);
+  return stats ? { mean: formatClock(stats.mean), sd_minutes: stats.sd } : { mean: null, sd_minutes: null };
+}
+
+// Signed difference a - b between clock times, in -720..720 minutes
+function clockDifference(a: number, b: number): number {
+  return ((a - b + MINUTES_PER_DAY * 1.5) % MINUTES_PER_DAY) - MINUTES_PER_DAY / 2;
+}
+
+// Nights before a day off: sleep ending on Saturday or Sunday
+function isFreeDay(date: string): boolean {
+  return ["Saturday", "Sunday"].includes(dayOfWeek(date));
+}
+
+/**
+ * Sleep Regularity Index (Phillips et al. 2017): how likely the user is in the
+ * same state (asleep or awake) at any moment and 24 hours later, scaled so 100
+ * is perfectly regular and 0 is random. Only pairs of days that both have a
+ * recorded sleep count.
+ */
+export function sleepRegularityIndex(periods: SleepPeriod[]): number | null {
+  if (periods.length < 2) return null;
+
+  const asleep = new Set<number>();
+  const coveredDays = new Set<number>();
+  for (const period of periods) {
+    const start = toEpochMinutes(period.start_time);
+    const end = toEpochMinutes(period.end_time);
+    for (let t = Math.ceil(start / SRI_EPOCH_MINUTES) * SRI_EPOCH_MINUTES; t < end; t += SRI_EPOCH_MINUTES) asleep.add(t);
+    coveredDays.add(Math.floor(end / MINUTES_PER_DAY));
+  }
+
+  // Days run noon to noon so each holds one night
+  let same = 0;
+  let total = 0;
+  for (const day of coveredDays) {
+    if (!coveredDays.has(day + 1)) continue;
+    const from = day * MINUTES_PER_DAY - MINUTES_PER_DAY / 2;
+    for (let t = from; t < from + MINUTES_PER_DAY; t += SRI_EPOCH_MINUTES) {
+      if (asleep.has(t) === asleep.has(t + MINUTES_PER_DAY)) same++;
+      total++;
+    }
+  }
+  return total ? Math.round(200 * (same / total) - 100) : null;
+}
+
+/**
+ * Net sleep debt over the last `days` calendar days of the range; surplus nights pay some back, never below zero.
+ * Days without a recorded sleep are reported as missing rather than guessed, and the
+ * debt is null when the range is shorter than the window.
+ */
+function sleepDebt(nights: ConsistencyNight[], range: { start: string; end: string }, days: number): { hours: number | null; missing: number | null } {
+  const from = addDays(range.end, -(days - 1));
+  if (from < range.start) return { hours: null, missing: null };
+  const recent = nights.filter((n) => n.date >= from && n.date <= range.end);
+  const hours = recent.length ? round(Math.max(0, recent.reduce((sum, n) => sum + n.debt_hours, 0)), 1) : null;
+  return { hours, missing: days - recent.length };
+}
+
+/**
+ * Timing, regularity and sleep debt of the main sleeps dated start..end (YYYY-MM-DD)
+ */
+export function analyzeSleepConsistency(
+  periods: SleepPeriod[],
+  range: { start: string; end: string },
+  sleepNeedHours = DEFAULT_SLEEP_NEED_HOURS
+): SleepConsistency {
+  const sorted = [...periods].sort((a, b) => a.start_time.localeCompare(b.start_time));
+
+  const nights: ConsistencyNight[] = [];
+  const midpoints: Array<{ minutes: number; free: boolean; duration: number }> = [];
+  for (const period of sorted) {
+    const start = toEpochMinutes(period.start_time);
+    const end = toEpochMinutes(period.end_time);
+    const midpoint = start + (end - start) / 2;
+    const hours = period.minutes_asleep / 60;
+    const free = isFreeDay(period.date);
+    midpoints.push({ minutes: clockMinutes(midpoint), free, duration: hours });
+    nights.push({
+      date: period.date,
+      is_free_day: free,
+      bedtime: formatClock(start),
+      wake_time: formatClock(end),
+      midpoint: formatClock(midpoint),
+      duration_hours: round(hours, 2),
+      nap_hours: round(period.nap_minutes / 60, 2),
+      debt_hours: round(sleepNeedHours - hours - period.nap_minutes / 60, 2),
+    });
+  }
+
+  const durations = nights.map((n) => n.duration_hours);
+  const meanDuration = durations.length ? durations.reduce((a, b) => a + b, 0) / durations.length : null;
+  const durationSd =
+    meanDuration !== null ? Math.round(Math.sqrt(durations.reduce((sum, d) => sum + (d - meanDuration) ** 2, 0) / durations.length) * 60) : null;
+
+  // Social jet lag: shift of the sleep midpoint on free days vs work days
+  const free = midpoints.filter((m) => m.free);
+  const work = midpoints.filter((m) => !m.free);
+  const freeStats = circularStats(free.map((m) => m.minutes));
+  const workStats = circularStats(work.map((m) => m.minutes));
+  const hasGroups = free.length >= MIN_NIGHTS_PER_GROUP && work.length >= MIN_NIGHTS_PER_GROUP;
+  const socialJetLag = hasGroups ? round(Math.abs(clockDifference(freeStats!.mean, workStats!.mean)) / 60, 2) : null;
+
+  // Chronotype from the free-day midpoint, corrected for catch-up sleep (MSFsc, Roenneberg)
+  let chronotypeMinutes: number | null = null;
+  let basedOn: SleepConsistency["chronotype"]["based_on"] = null;
+  if (hasGroups) {
+    const freeDuration = free.reduce((sum, m) => sum + m.duration, 0) / free.length;
+    const workDuration = work.reduce((sum, m) => sum + m.duration, 0) / work.length;
+    const weekDuration = (5 * workDuration + 2 * freeDuration) / 7;
+    const correction = freeDuration > workDuration ? ((freeDuration - weekDuration) / 2) * 60 : 0;
+    chronotypeMinutes = clockMinutes(freeStats!.mean - correction);
+    basedOn = "free_days";
+  } else if (midpoints.length) {
+    chronotypeMinutes = circularStats(midpoints.map((m) => m.minutes))!.mean;
+    basedOn = "all_days";
+  }
+
+  let chronotype: Chronotype | null = null;
+  if (chronotypeMinutes !== null) {
+    // Midpoint relative to midnight, so 23:30 is -30 rather than 1410
+    const relative = clockDifference(chronotypeMinutes, 0);
+    chronotype = relative < 3.5 * 60 ? "early" : relative <= 5 * 60 ? "intermediate" : "late";
+  }
+
+  const week = sleepDebt(nights, range, 7);
+  const fortnight = sleepDebt(nights, range, 14);
+
+  const result: SleepConsistency = {
+    nights: nights.length,
+    sleep_need_hours: sleepNeedHours,
+    bedtime: clockStats(sorted.map((p) => clockMinutes(toEpochMinutes(p.start_time)))),
+    wake_time: clockStats(sorted.map((p) => clockMinutes(toEpochMinutes(p.end_time)))),
+    midpoint: clockStats(midpoints.map((m) => m.minutes)),
+    duration: { mean_hours: meanDuration !== null ? round(meanDuration, 2) : null, sd_minutes: durationSd },
+    sleep_regularity_index: sleepRegularityIndex(sorted),
+    social_jet_lag_hours: socialJetLag,
+    sleep_debt: {
+      last_7_days_hours: week.hours,
+      last_14_days_hours: fortnight.hours,
+      last_7_days_missing_nights: week.missing,
+      last_14_days_missing_nights: fortnight.missing,
+    },
+    chronotype: {
+      category: chronotype,
+      corrected_free_day_midpoint: chronotypeMinutes !== null ? formatClock(chronotypeMinutes) : null,
+      based_on: basedOn,
+    },
+    notes: [],
+    records: nights.reverse(),
+  };
+  result.notes = consistencyNotes(result);
+  return result;
+}
+
+function consistencyNotes(result: SleepConsistency): string[] {
+  const notes: string[] = [];
+  if (result.bedtime.sd_minutes !== null && result.bedtime.sd_minutes > 60) {
+    notes.push(`Bedtime varies by about ${result.bedtime.sd_minutes} minutes night to night; a steadier bedtime around ${result.bedtime.mean} would help`);
+  }
+  if (result.social_jet_lag_hours !== null && result.social_jet_lag_hours >= 1) {
+    notes.push(`Weekend sleep is shifted ${result.social_jet_lag_hours}h from weekdays (social jet lag)`);
+  }
+  if (result.sleep_regularity_index !== null && result.sleep_regularity_index < 60) {
+    notes.push(`Sleep regularity index ${result.sleep_regularity_index} is low; sleep and wake times are irregular`);
+  }
+  const { last_7_days_hours: weekDebt, last_7_days_missing_nights: weekMissing } = result.sleep_debt;
+  if (weekDebt !== null && weekDebt >= 5) {
+    const missing = weekMissing ? ` (${weekMissing} of 7 nights have no sleep recorded)` : "";
+    notes.push(`About ${weekDebt}h short of your ${result.sleep_need_hours}h sleep need over the last week${missing}`);
+  }
+  return notes;
+}
@@ -0,0 +1,206 @@
+/**
+ * Sleep records and how they make up a day's sleep.
+ * Fitbit logs every sleep period separately. Periods less than 90 minutes
+ * apart are joined into one block (split sleep), and each block belongs to
+ * the sleep day it ends in. Sleep days start at 18:00 the evening before, so
+ * a night worker's morning sleep and an afternoon nap count towards the same
+ * day. The main sleep is the day's longest block that covers part of the
+ * night or lasts 3 hours; the rest are naps. Fitbit's isMainSleep isn't used,
+ * as it marks a lone nap as main sleep too.
+ */
+import { addDays, round } from "./utils.js";
+
+export const SPLIT_SLEEP_GAP_MINUTES = 90;
+const MIN_MAIN_SLEEP_MINUTES = 180; // Shorter blocks are naps unless they cover part of the night
+const NIGHT_END_HOUR = 6; // The night runs from midnight to 06:00
+const DAY_BOUNDARY_HOUR = 18;
+
+export interface SleepStages {
+  deep: number | null;
+  deep_percent: number | null;
+  light: number | null;
+  light_percent: number | null;
+  rem: number | null;
+  rem_percent: number | null;
+  wake: number | null;
+}
+
+export interface SleepRecord {
+  date: string;
+  start_time: string | null;
+  end_time: string | null;
+  duration_hours: number | null;
+  time_in_bed_minutes: number | null;
+  minutes_asleep: number | null;
+  minutes_awake: number | null;
+  efficiency: number | null;
+  stages: SleepStages | null;
+  is_main_sleep: boolean;
+  segments: number; // Sleep periods joined into this record, more than 1 for split sleep
+}
+
+export interface SleepDay {
+  date: string;
+  main_sleep: SleepRecord | null;
+  naps: SleepRecord[];
+  nap_minutes: number;
+  total_minutes_asleep: number; // Main sleep and naps
+  total_hours: number;
+}
+
+function sleepStages(deep: number | null, light: number | null, rem: number | null, wake: number | null): SleepStages {
+  const totalSleep = (deep || 0) + (light || 0) + (rem || 0);
+  return {
+    deep,
+    deep_percent: deep && totalSleep ? Math.round((deep / totalSleep) * 1000) / 10 : null,
+    light,
+    light_percent: light && totalSleep ? Math.round((light / totalSleep) * 1000) / 10 : null,
+    rem,
+    rem_percent: rem && totalSleep ? Math.round((rem / totalSleep) * 1000) / 10 : null,
+    wake,
+  };
+}
+
+export function parseSleepRecord(entry: Record<string, unknown>): SleepRecord {
+  let stages: SleepStages | null = null;
+
+  const levels = entry.levels as Record<string, unknown> | undefined;
+  if (levels?.summary) {
+    const summary = levels.summary as Record<string, { minutes?: number }>;
+    stages = sleepStages(summary.deep?.minutes ?? null, summary.light?.minutes ?? null, summary.rem?.minutes ?? null, summary.wake?.minutes ?? null);
+  }
+
+  const minutesAsleep = (entry.minutesAsleep as number) || 0;
+  const durationHours = minutesAsleep ? Math.round((minutesAsleep / 60) * 100) / 100 : null;
+
+  return {
+    date: (entry.dateOfSleep as string) || "",
+    start_time: (entry.startTime as string) || null,
+    end_time: (entry.endTime as string) || null,
+    duration_hours: durationHours,
+    time_in_bed_minutes: (entry.timeInBed as number) || null,
+    minutes_asleep: (entry.minutesAsleep as number) || null,
+    minutes_awake: (entry.minutesAwake as number) || null,
+    efficiency: (entry.efficiency as number) || null,
+    stages,
+    is_main_sleep: (entry.isMainSleep as boolean) ?? true,
+    segments: 1,
+  };
+}
+
+/**
+ * One record for the periods of a split sleep: minutes and stages are summed,
+ * efficiency is weighted by time in bed
+ */
+export function combineSleepRecords(records: SleepRecord[]): SleepRecord {
+  if (records.length === 1) return records[0];
+
+  const sum = (values: Array<number | null>) => values.reduce<number>((a, b) => a + (b || 0), 0);
+  const minutesAsleep = sum(records.map((r) => r.minutes_asleep));
+  const timeInBed = sum(records.map((r) => r.time_in_bed_minutes));
+  const weighted = records.filter((r) => r.efficiency && r.time_in_bed_minutes);
+  const weightedBed = sum(weighted.map((r) => r.time_in_bed_minutes));
+
+  // Stages only when every period has them; classic-only periods have none
+  let stages: SleepStages | null = null;
+  if (records.every((r) => r.stages)) {
+    const stageSum = (stage: "deep" | "light" | "rem" | "wake") => sum(records.map((r) => r.stages![stage]));
+    stages = sleepStages(stageSum("deep"), stageSum("light"), stageSum("rem"), stageSum("wake"));
+  }
+
+  const last = records[records.length - 1];
+  return {
+    date: last.date,
+    start_time: records[0].start_time,
+    end_time: last.end_time,
+    duration_hours: minutesAsleep ? Math.round((minutesAsleep / 60) * 100) / 100 : null,
+    time_in_bed_minutes: timeInBed || null,
+    minutes_asleep: minutesAsleep || null,
+    minutes_awake: sum(records.map((r) => r.minutes_awake)) || null,
+    efficiency: weightedBed ? Math.round(sum(weighted.map((r) => r.efficiency! * r.time_in_bed_minutes!)) / weightedBed) : null,
+    stages,
+    is_main_sleep: records.some((r) => r.is_main_sleep),
+    segments: records.reduce((a, r) => a + r.segments, 0),
+  };
+}
+
+// Fitbit times are local without an offset; reading them as UTC keeps them as-is
+function toEpochMinutes(localTime: string): number {
+  return Math.floor(Date.parse(`${localTime.slice(0, 19)}Z`) / 60000);
+}
+
+// Whether a block overlaps midnight to 06:00 on the day it ends
+function coversNight(sleep: SleepRecord): boolean {
+  const midnight = toEpochMinutes(`${sleep.end_time!.slice(0, 10)}T00:00:00`);
+  return toEpochMinutes(sleep.start_time!) < midnight + NIGHT_END_HOUR * 60 && toEpochMinutes(sleep.end_time!) > midnight;
+}
+
+function sleepDayOf(endTime: string): string {
+  const date = endTime.slice(0, 10);
+  return Number(endTime.slice(11, 13)) >= DAY_BOUNDARY_HOUR ? addDays(date, 1) : date;
+}
+
+/**
+ * Group raw Fitbit sleep entries into sleep days, oldest first.
+ * Only days with sleep are included; pass start and end to drop days that
+ * are only partly covered by the entries.
+ */
+export function groupSleepDays(entries: Array<Record<string, unknown>>, start?: string, end?: string): SleepDay[] {
+  const records = entries
+    .map((entry) => parseSleepRecord(entry))
+    .filter((r) => r.start_time && r.end_time)
+    .sort((a, b) => a.start_time!.localeCompare(b.start_time!));
+
+  // Join periods separated by short awakenings
+  const blocks: SleepRecord[][] = [];
+  let blockEnd = -Infinity;
+  for (const record of records) {
+    const startMinutes = toEpochMinutes(record.start_time!);
+    if (blocks.length && startMinutes - blockEnd <= SPLIT_SLEEP_GAP_MINUTES) {
+      blocks[blocks.length - 1].push(record);
+    } else {
+      blocks.push([record]);
+    }
+    blockEnd = Math.max(blockEnd, toEpochMinutes(record.end_time!));
+  }
+
+  const byDay = new Map<string, SleepRecord[]>();
+  for (const block of blocks) {
+    const sleep = combineSleepRecords(block);
+    const date = sleepDayOf(sleep.end_time!);
+    if (!byDay.has(date)) byDay.set(date, []);
+    byDay.get(date)!.push(sleep);
+  }
+
+  const days: SleepDay[] = [];
+  for (const [date, sleeps] of byDay) {
+    if ((start && date < start) || (end && date > end)) continue;
+
+    const candidates = sleeps.filter((s) => coversNight(s) || (s.minutes_asleep || 0) >= MIN_MAIN_SLEEP_MINUTES);
+    const main = candidates.reduce<SleepRecord | null>((best, s) => (!best || (s.minutes_asleep || 0) > (best.minutes_asleep || 0) ? s : best), null);
+    // Dated by sleep day rather than Fitbit's dateOfSleep, which follows the end time
+    const naps = sleeps.filter((s) => s !== main).map((s) => ({ ...s, date, is_main_sleep: false }));
+
+    const napMinutes = naps.reduce((sum, s) => sum + (s.minutes_asleep || 0), 0);
+    const totalMinutes = napMinutes + (main?.minutes_asleep || 0);
+    days.push({
+      date,
+      main_sleep: main ? { ...main, date, is_main_sleep: true } : null,
+      naps,
+      nap_minutes: napMinutes,
+      total_minutes_asleep: totalMinutes,
+      total_hours: round(totalMinutes / 60, 2),
+    });
+  }
+
+  return days.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * The sleep day for one date; entries should cover the date and the day before
+ */
+export function sleepDayFor(entries: Array<Record<string, unknown>>, date: string): SleepDay {
+  return (
+    groupSleepDays(entries, date, date)[0] || { date, main_sleep: null, naps: [], nap_minutes: 0, total_minutes_asleep: 0, total_hours: 0 }
+  );
+}
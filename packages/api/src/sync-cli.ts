@@ -0,0 +1,31 @@
+/**
+ * Run a sync pass from the command line:
+ *   npm run sync -w @fitbitbot/api -- [--user ID] [--max-requests N] [--from YYYY-MM-DD]
+ */
+import "dotenv/config";
+import { parseArgs } from "util";
+import { DEFAULT_USER_ID, getFitbitClient, normalizeUserId } from "./fitbit-client.js";
+import { getMetricStore } from "./metric-store.js";
+import { runSync } from "./sync.js";
+
+const { values } = parseArgs({
+  options: {
+    user: { type: "string" },
+    "max-requests": { type: "string" },
+    from: { type: "string" },
+  },
+});
+
+const userId = normalizeUserId(values.user ?? DEFAULT_USER_ID);
+if (!userId) {
+  console.error("User ID may only contain letters, digits and - (max 64)");
+  process.exit(1);
+}
+
+const result = await runSync(getFitbitClient(userId), getMetricStore(), {
+  maxRequests: values["max-requests"] ? parseInt(values["max-requests"]) : undefined,
+  backfillFrom: values.from,
+});
+
+console.log(JSON.stringify(result, null, 2));
+process.exit(result.stopped_reason === "error" ? 1 : 0);
@@ -0,0 +1,171 @@
+/**
+ * Backfill and incremental sync of Fitbit metrics into the local store.
+ * Each run spends a bounded number of requests so it never eats the whole
+ * 150 requests/hour quota; progress is kept in the store so runs resume.
+ */
+import { FitbitClient, FitbitRateLimitError } from "./fitbit-client.js";
+import { METRICS, MetricName, MetricStore, SyncState } from "./metric-store.js";
+import { addDays, daysAgo, today } from "./utils.js";
+import { resolveTimeZone } from "./timezone.js";
+
+// Days re-fetched on every incremental sync to pick up late device syncs
+const RESYNC_DAYS = 3;
+
+export interface SyncOptions {
+  maxRequests?: number;
+  backfillFrom?: string;
+  metrics?: MetricName[];
+}
+
+export interface SyncResult {
+  started_at: string;
+  finished_at: string;
+  requests_made: number;
+  stopped_reason: "complete" | "budget_exhausted" | "rate_limited" | "error";
+  error?: string;
+  metrics: Array<SyncState & { backfill_complete: boolean }>;
+}
+
+class BudgetExhausted extends Error {
+  constructor() {
+    super("Sync request budget exhausted");
+    this.name = "BudgetExhausted";
+  }
+}
+
+export function defaultBackfillFrom(): string {
+  return process.env.SYNC_BACKFILL_FROM || daysAgo(3 * 365);
+}
+
+export class SyncJob {
+  private requestsMade = 0;
+
+  constructor(
+    private client: FitbitClient,
+    private store: MetricStore,
+    private options: SyncOptions = {}
+  ) {}
+
+  private get maxRequests(): number {
+    return this.options.maxRequests ?? (parseInt(process.env.SYNC_MAX_REQUESTS || "") || 100);
+  }
+
+  private get backfillFrom(): string {
+    return this.options.backfillFrom ?? defaultBackfillFrom();
+  }
+
+  private get metrics(): MetricName[] {
+    return this.options.metrics ?? (Object.keys(METRICS) as MetricName[]);
+  }
+
+  private async syncChunk(metric: MetricName, startDate: string, endDate: string): Promise<void> {
+    if (this.requestsMade >= this.maxRequests) {
+      throw new BudgetExhausted();
+    }
+    this.requestsMade++;
+    const raw = await METRICS[metric].fetch(this.client, startDate, endDate);
+    this.store.replaceRange(this.client.userId, metric, startDate, endDate, METRICS[metric].extract(raw));
+    this.store.markSynced(this.client.userId, metric, startDate, endDate);
+  }
+
+  /**
+   * Bring a metric up to the user's today, re-fetching the last few days
+   */
+  private async syncRecent(metric: MetricName): Promise<void> {
+    const end = today((await resolveTimeZone(this.client.userId)).timezone);
+    const state = this.store.getSyncState(this.client.userId, metric);
+    const { chunkDays } = METRICS[metric];
+
+    let start = state ? addDays(state.newest_date, -(RESYNC_DAYS - 1)) : addDays(end, -(chunkDays - 1));
+    if (start < this.backfillFrom) start = this.backfillFrom;
+
+    while (start <= end) {
+      const chunkEnd = [addDays(start, chunkDays - 1), end].sort()[0];
+      await this.syncChunk(metric, start, chunkEnd);
+      start = addDays(chunkEnd, 1);
+    }
+  }
+
+  /**
+   * Walk one chunk further back in time, returns false once backfill is done
+   */
+  private async backfillChunk(metric: MetricName): Promise<boolean> {
+    const state = this.store.getSyncState(this.client.userId, metric);
+    if (!state || state.oldest_date <= this.backfillFrom) return false;
+
+    const end = addDays(state.oldest_date, -1);
+    const start = [addDays(end, -(METRICS[metric].chunkDays - 1)), this.backfillFrom].sort().reverse()[0];
+    await this.syncChunk(metric, start, end);
+    return true;
+  }
+
+  async run(): Promise<SyncResult> {
+    const startedAt = new Date().toISOString();
+    let stoppedReason: SyncResult["stopped_reason"] = "complete";
+    let error: string | undefined;
+
+    try {
+      // Recent data first, it matters most to the coach
+      for (const metric of this.metrics) {
+        await this.syncRecent(metric);
+      }
+
+      // Then backfill round-robin so every metric makes progress
+      let pending = [...this.metrics];
+      while (pending.length) {
+        const stillPending: MetricName[] = [];
+        for (const metric of pending) {
+          if (await this.backfillChunk(metric)) stillPending.push(metric);
+        }
+        pending = stillPending;
+      }
+    } catch (e) {
+      if (e instanceof BudgetExhausted) {
+        stoppedReason = "budget_exhausted";
+      } else if (e instanceof FitbitRateLimitError) {
+        stoppedReason = "rate_limited";
+      } else {
+        stoppedReason = "error";
+        error = e instanceof Error ? e.message : String(e);
+        console.error("Sync failed:", e);
+      }
+    }
+
+    return {
+      started_at: startedAt,
+      finished_at: new Date().toISOString(),
+      requests_made: this.requestsMade,
+      stopped_reason: stoppedReason,
+      ...(error && { error }),
+      metrics: this.store.getAllSyncStates(this.client.userId).map((state) => ({
+        ...state,
+        backfill_complete: state.oldest_date <= this.backfillFrom,
+      })),
+    };
+  }
+}
+
+// Only one sync may run at a time per user
+const running = new Map<string, Promise<SyncResult>>();
+const lastResults = new Map<string, SyncResult>();
+
+export function runSync(client: FitbitClient, store: MetricStore, options?: SyncOptions): Promise<SyncResult> {
+  let run = running.get(client.userId);
+  if (!run) {
+    run = new SyncJob(client, store, options)
+      .run()
+      .then((result) => {
+        lastResults.set(client.userId, result);
+        return result;
+      })
+      .finally(() => {
+        running.delete(client.userId);
+      });
+    running.set(client.userId, run);
+  }
+  return run;
+}
+
+export function getSyncStatus(userId: string): { running: boolean; last_result: SyncResult | null } {
+  return { running: running.has(userId), last_result: lastResults.get(userId) ?? null };
+}
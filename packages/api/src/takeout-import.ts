@@ -0,0 +1,265 @@
+/**
+ * Import of a Fitbit data export (Google Takeout, or the older Fitbit account
+ * export) into the metric store, so history doesn't have to be backfilled
+ * through the rate-limited API.
+ *
+ * Files become the same entries sync stores, so parseSleepRecord and the
+ * recovery routes normalize imported and synced data alike. Dates the store
+ * already has from sync are left alone, the API being the source of truth.
+ */
+import { readdir, readFile, stat } from "fs/promises";
+import { basename, join } from "path";
+import { METRICS, MetricName, MetricStore, StoredEntry } from "./metric-store.js";
+import { addDays } from "./utils.js";
+import { openZip } from "./zip.js";
+
+export interface ImportedMetric {
+  metric: MetricName;
+  oldest_date: string;
+  newest_date: string;
+  entries: number;
+  imported: number;
+  skipped: number; // Already synced or imported before
+}
+
+export interface ImportResult {
+  user_id: string;
+  files_read: number;
+  unreadable_files: string[];
+  metrics: ImportedMetric[];
+}
+
+interface TakeoutFile {
+  name: string;
+  read(): Promise<string>;
+}
+
+type ParsedEntry = StoredEntry & { metric: MetricName };
+
+interface FileParser {
+  pattern: RegExp; // Matched against the file name without its folder
+  parse(text: string): ParsedEntry[];
+}
+
+/**
+ * "01/31/20 00:00:00" in Global Export Data, ISO timestamps in the CSV files.
+ * Null for anything else, including missing values and impossible dates.
+ */
+function takeoutDate(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const us = value.match(/^(\d{2})\/(\d{2})\/(\d{2})\b/);
+  const date = us ? `20${us[3]}-${us[1]}-${us[2]}` : value.match(/^\d{4}-\d{2}-\d{2}/)?.[0];
+  if (!date) return null;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date) ? date : null;
+}
+
+function parseCsv(text: string): Array<Record<string, string>> {
+  const [header, ...lines] = text.trim().split(/\r?\n/);
+  const columns = header.split(",").map((column) => column.trim());
+  return lines
+    .filter((line) => line.trim())
+    .map((line) => {
+      const cells = line.split(",");
+      return Object.fromEntries(columns.map((column, i) => [column, (cells[i] ?? "").trim()]));
+    });
+}
+
+function parseNumber(value: string | undefined): number | null {
+  const parsed = parseFloat(value ?? "");
+  return isNaN(parsed) ? null : parsed;
+}
+
+type TakeoutRecord<T> = Array<{ dateTime: string; value: T }>;
+
+/**
+ * Sum a value per date, for files with a row per minute or per zone
+ */
+function sumByDate(rows: Array<{ date: string | null; value: number | null }>): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const { date, value } of rows) {
+    if (date && value !== null) totals.set(date, (totals.get(date) ?? 0) + value);
+  }
+  return totals;
+}
+
+const PARSERS: FileParser[] = [
+  // The API's sleep logs, except that the export calls isMainSleep mainSleep
+  {
+    pattern: /^sleep-\d{4}-\d{2}-\d{2}\.json$/,
+    parse: (text) =>
+      (JSON.parse(text) as Array<Record<string, unknown>>).flatMap(({ mainSleep, ...log }): ParsedEntry[] => {
+        const date = takeoutDate(log.dateOfSleep);
+        if (!date) return [];
+        return [{ metric: "sleep", date, key: String(log.logId ?? log.startTime), data: { ...log, isMainSleep: mainSleep ?? log.isMainSleep ?? true } }];
+      }),
+  },
+  {
+    pattern: /^resting_heart_rate-\d{4}-\d{2}-\d{2}\.json$/,
+    parse: (text) =>
+      (JSON.parse(text) as TakeoutRecord<{ value?: number }>).flatMap((record): ParsedEntry[] => {
+        const date = takeoutDate(record.dateTime);
+        const restingHeartRate = record.value?.value;
+        if (!date || !restingHeartRate) return [];
+        return [{ metric: "resting_hr", date, key: "", data: { dateTime: date, value: { restingHeartRate: Math.round(restingHeartRate) } } }];
+      }),
+  },
+  // Merged with resting HR into the API's activities-heart entries
+  {
+    pattern: /^time_in_heart_rate_zones-\d{4}-\d{2}-\d{2}\.json$/,
+    parse: (text) =>
+      (JSON.parse(text) as TakeoutRecord<{ valuesInZones?: Record<string, number> }>).flatMap((record): ParsedEntry[] => {
+        const date = takeoutDate(record.dateTime);
+        if (!date) return [];
+        const zones = record.value?.valuesInZones ?? {};
+        const minutes = (zone: string) => Math.round(zones[zone] ?? 0);
+        const heartRateZones = [
+          { name: "Out of Range", minutes: minutes("BELOW_DEFAULT_ZONE_1") },
+          { name: "Fat Burn", minutes: minutes("IN_DEFAULT_ZONE_1") },
+          { name: "Cardio", minutes: minutes("IN_DEFAULT_ZONE_2") },
+          { name: "Peak", minutes: minutes("IN_DEFAULT_ZONE_3") },
+        ];
+        return [{ metric: "resting_hr", date, key: "", data: { dateTime: date, value: { heartRateZones } } }];
+      }),
+  },
+  {
+    pattern: /^steps-\d{4}-\d{2}-\d{2}\.json$/,
+    parse: (text) => {
+      const rows = (JSON.parse(text) as TakeoutRecord<string>).map((record) => ({ date: takeoutDate(record.dateTime), value: parseNumber(record.value) }));
+      return [...sumByDate(rows)].map(([date, steps]) => ({ metric: "steps", date, key: "", data: { dateTime: date, value: String(Math.round(steps)) } }));
+    },
+  },
+  {
+    pattern: /^Active Zone Minutes - .*\.csv$/,
+    parse: (text) => {
+      const rows = parseCsv(text);
+      const zone = (id: string) => sumByDate(rows.filter((row) => row.heart_zone_id === id).map((row) => ({ date: takeoutDate(row.date_time), value: parseNumber(row.total_minutes) })));
+      const fatBurn = zone("FAT_BURN");
+      const cardio = zone("CARDIO");
+      const peak = zone("PEAK");
+      const dates = new Set([...fatBurn.keys(), ...cardio.keys(), ...peak.keys()]);
+      return [...dates].map((date) => {
+        const value = { fatBurnActiveZoneMinutes: fatBurn.get(date) ?? 0, cardioActiveZoneMinutes: cardio.get(date) ?? 0, peakActiveZoneMinutes: peak.get(date) ?? 0 };
+        const total = value.fatBurnActiveZoneMinutes + value.cardioActiveZoneMinutes + value.peakActiveZoneMinutes;
+        return { metric: "azm", date, key: "", data: { dateTime: date, value: { activeZoneMinutes: total, ...value } } };
+      });
+    },
+  },
+  // Only the nightly RMSSD, the export has no deep sleep value
+  {
+    pattern: /^Daily Heart Rate Variability Summary - .*\.csv$/,
+    parse: (text) =>
+      parseCsv(text).flatMap((row): ParsedEntry[] => {
+        const date = takeoutDate(row.timestamp);
+        const dailyRmssd = parseNumber(row.rmssd);
+        if (!date || dailyRmssd === null) return [];
+        return [{ metric: "hrv", date, key: "", data: { dateTime: date, value: { dailyRmssd } } }];
+      }),
+  },
+  {
+    pattern: /^Daily SpO2 - .*\.csv$/,
+    parse: (text) =>
+      parseCsv(text).flatMap((row): ParsedEntry[] => {
+        const date = takeoutDate(row.timestamp);
+        const avg = parseNumber(row.average_value);
+        if (!date || avg === null) return [];
+        const value = { avg, min: parseNumber(row.lower_bound), max: parseNumber(row.upper_bound) };
+        return [{ metric: "spo2", date, key: "", data: { dateTime: date, value } }];
+      }),
+  },
+];
+
+/**
+ * Files of a zip archive or an extracted export folder
+ */
+async function listFiles(path: string): Promise<{ files: TakeoutFile[]; close(): Promise<void> }> {
+  if ((await stat(path)).isDirectory()) {
+    const names = (await readdir(path, { recursive: true })) as string[];
+    return {
+      files: names.map((name) => ({ name, read: () => readFile(join(path, name), "utf-8") })),
+      close: async () => {},
+    };
+  }
+
+  const zip = await openZip(path);
+  return {
+    files: zip.entries.map((entry) => ({ name: entry.name, read: async () => (await entry.read()).toString("utf-8") })),
+    close: () => zip.close(),
+  };
+}
+
+/**
+ * Parse the recognised files into store entries per metric. Files with
+ * parts of the same entry (resting HR and heart rate zones) are merged.
+ */
+export async function readTakeout(path: string): Promise<{ files_read: number; unreadable_files: string[]; entries: Map<MetricName, StoredEntry[]> }> {
+  const { files, close } = await listFiles(path);
+  const byKey = new Map<string, ParsedEntry>();
+  const unreadable: string[] = [];
+  let filesRead = 0;
+
+  try {
+    for (const file of files) {
+      const parser = PARSERS.find((p) => p.pattern.test(basename(file.name)));
+      if (!parser) continue;
+
+      let parsed: ParsedEntry[];
+      try {
+        parsed = parser.parse(await file.read());
+      } catch (e) {
+        console.log(`Takeout file ${file.name} unreadable:`, e);
+        unreadable.push(file.name);
+        continue;
+      }
+      filesRead++;
+
+      for (const entry of parsed) {
+        const key = `${entry.metric}:${entry.date}:${entry.key}`;
+        const existing = byKey.get(key);
+        if (existing) {
+          const data = existing.data as { value: object };
+          existing.data = { ...data, value: { ...data.value, ...(entry.data as { value: object }).value } };
+        } else {
+          byKey.set(key, entry);
+        }
+      }
+    }
+  } finally {
+    await close();
+  }
+
+  const entries = new Map<MetricName, StoredEntry[]>();
+  for (const { metric, ...entry } of byKey.values()) {
+    entries.set(metric, [...(entries.get(metric) ?? []), entry]);
+  }
+  return { files_read: filesRead, unreadable_files: unreadable, entries };
+}
+
+/**
+ * Import an export into the store for a user, skipping dates sync has covered
+ */
+export async function importTakeout(path: string, userId: string, store: MetricStore): Promise<ImportResult> {
+  const takeout = await readTakeout(path);
+  const metrics: ImportedMetric[] = [];
+
+  for (const metric of Object.keys(METRICS) as MetricName[]) {
+    const entries = takeout.entries.get(metric);
+    if (!entries?.length) continue;
+
+    const dates = entries.map((entry) => entry.date).sort();
+    const oldest = dates[0];
+    const newest = dates[dates.length - 1];
+    const state = store.getSyncState(userId, metric);
+    const unsynced = state ? entries.filter((entry) => entry.date < state.oldest_date || entry.date > state.newest_date) : entries;
+    const imported = store.insertMissing(userId, metric, unsynced);
+
+    // The store tracks one covered range per metric, which an import can only extend without leaving a gap
+    if (!state || (oldest <= addDays(state.newest_date, 1) && newest >= addDays(state.oldest_date, -1))) {
+      store.markSynced(userId, metric, oldest, newest);
+    }
+
+    metrics.push({ metric, oldest_date: oldest, newest_date: newest, entries: entries.length, imported, skipped: entries.length - imported });
+  }
+
+  return { user_id: userId, files_read: takeout.files_read, unreadable_files: takeout.unreadable_files, metrics };
+}
@@ -0,0 +1,69 @@
+/**
+ * The timezone used for a user's date math ("today", "yesterday", weekdays).
+ * Comes from the user's settings, else their Fitbit profile, else the
+ * DEFAULT_TIMEZONE / server timezone.
+ */
+import { Request, Response, NextFunction } from "express";
+import { getFitbitClient } from "./fitbit-client.js";
+import { getRequestContext } from "./request-context.js";
+import { getUserSettings } from "./user-settings.js";
+import { defaultTimeZone, isValidTimeZone } from "./utils.js";
+
+// Failed profile lookups (no token yet, missing scope) are retried after this
+const PROFILE_RETRY_MS = 60 * 60 * 1000;
+// Found timezones are looked up again after this, so a change in Fitbit (e.g. after travel) is picked up
+const PROFILE_REFRESH_MS = 6 * 60 * 60 * 1000;
+
+export type TimeZoneSource = "settings" | "fitbit_profile" | "default";
+
+const profileTimeZones = new Map<string, { timezone: string | null; fetched_at: number }>();
+
+async function profileTimeZone(userId: string): Promise<string | null> {
+  const cached = profileTimeZones.get(userId);
+  if (cached && Date.now() - cached.fetched_at < (cached.timezone ? PROFILE_REFRESH_MS : PROFILE_RETRY_MS)) {
+    return cached.timezone;
+  }
+
+  let timezone: string | null = null;
+  try {
+    const profile = await getFitbitClient(userId).getProfile() as { user?: { timezone?: string } };
+    const candidate = profile.user?.timezone;
+    if (candidate && isValidTimeZone(candidate)) timezone = candidate;
+  } catch (e) {
+    console.log(`Profile timezone lookup for ${userId} failed:`, e instanceof Error ? e.message : e);
+    // A failed refresh keeps the timezone found before
+    timezone = cached?.timezone ?? null;
+  }
+  profileTimeZones.set(userId, { timezone, fetched_at: Date.now() });
+  return timezone;
+}
+
+export async function resolveTimeZone(userId: string): Promise<{ timezone: string; source: TimeZoneSource }> {
+  const configured = getUserSettings(userId).timezone;
+  if (configured) return { timezone: configured, source: "settings" };
+
+  const fromProfile = await profileTimeZone(userId);
+  if (fromProfile) return { timezone: fromProfile, source: "fitbit_profile" };
+
+  return { timezone: defaultTimeZone(), source: "default" };
+}
+
+/**
+ * Drop a cached profile lookup, e.g. once the user has connected their account
+ */
+export function forgetProfileTimeZone(userId: string): void {
+  profileTimeZones.delete(userId);
+}
+
+/**
+ * Express middleware: resolves the request user's timezone into the request context
+ */
+export async function userTimeZone(_req: Request, _res: Response, next: NextFunction): Promise<void> {
+  const context = getRequestContext();
+  if (context) {
+    const { timezone, source } = await resolveTimeZone(context.userId);
+    context.timezone = timezone;
+    context.timezone_source = source;
+  }
+  next();
+}
@@ -0,0 +1,164 @@
+/**
+ * Training load model.
+ * Daily load is a TRIMP-style sum of heart rate zone minutes weighted by
+ * zone; days without zone data fall back to Active Zone Minutes. Workouts
+ * logged without heart rate add duration weighted by their intensity.
+ * Acute (7-day) and chronic (28-day) averages give the acute:chronic
+ * workload ratio, and the last week's spread gives monotony and strain.
+ */
+import type { Exercise, ExerciseIntensity } from "./exercises.js";
+import { round } from "./utils.js";
+
+export const ACUTE_DAYS = 7;
+export const CHRONIC_DAYS = 28;
+
+// Load per minute in each Fitbit heart rate zone
+const ZONE_WEIGHTS = { fat_burn: 1, cardio: 3, peak: 5 };
+
+// Load per minute for workouts without heart rate data
+const INTENSITY_WEIGHTS: Record<ExerciseIntensity, number> = { low: 1, moderate: 2, high: 3 };
+
+// ACWR bands, checked in order
+const ACWR_BANDS: Array<{ status: AcwrStatus; min: number; note: string }> = [
+  { status: "spike", min: 1.5, note: "This week's load is well above what you're used to; injury risk is higher" },
+  { status: "elevated", min: 1.3, note: "Load is building faster than usual; keep the next days moderate" },
+  { status: "optimal", min: 0.8, note: "Load is in line with what you're used to" },
+  { status: "detraining", min: 0, note: "Load is well below your usual; fitness may start to drop" },
+];
+
+const HIGH_MONOTONY = 2.0;
+
+export type AcwrStatus = "spike" | "elevated" | "optimal" | "detraining";
+
+export interface ZoneMinutes {
+  fat_burn: number;
+  cardio: number;
+  peak: number;
+}
+
+export interface DailyLoadInputs {
+  date: string;
+  zone_minutes: ZoneMinutes | null; // From the daily heart rate summary
+  active_zone_minutes: ZoneMinutes | null; // AZM per zone (cardio and peak already count double)
+  exercises: Exercise[];
+}
+
+export interface DailyLoad {
+  date: string;
+  load: number;
+  source: "heart_rate_zones" | "active_zone_minutes" | "exercises" | "none";
+  zone_minutes: ZoneMinutes | null;
+  exercise_load: number; // From workouts without heart rate data
+  exercises: Array<{ name: string; active_minutes: number; intensity: ExerciseIntensity }>;
+}
+
+export interface LoadMetrics {
+  date: string;
+  load: number;
+  acute_load: number | null; // Average daily load over the days with data in the last 7
+  chronic_load: number | null; // Average daily load over the days with data in the last 28
+  acwr: number | null;
+  weekly_load: number | null; // Sum over the last 7 days
+  monotony: number | null; // Mean / standard deviation of the last 7 days
+  strain: number | null; // weekly_load * monotony
+}
+
+export interface LoadAssessment {
+  acwr_status: AcwrStatus | null;
+  high_monotony: boolean;
+  notes: string[];
+}
+
+export function zoneLoad(zones: ZoneMinutes): number {
+  return zones.fat_burn * ZONE_WEIGHTS.fat_burn + zones.cardio * ZONE_WEIGHTS.cardio + zones.peak * ZONE_WEIGHTS.peak;
+}
+
+export function dailyLoad(inputs: DailyLoadInputs): DailyLoad {
+  // Workouts with heart rate are already inside the day's zone minutes
+  const unmeasured = inputs.exercises.filter((e) => !e.heart_rate_zones && !e.active_zone_minutes);
+  const exerciseLoad = unmeasured.reduce((sum, e) => sum + e.active_minutes * INTENSITY_WEIGHTS[e.intensity], 0);
+
+  let zoneMinutes = inputs.zone_minutes;
+  let source: DailyLoad["source"] = "heart_rate_zones";
+  if (!zoneMinutes && inputs.active_zone_minutes) {
+    // AZM counts cardio and peak minutes double, so halve them back to minutes
+    const azm = inputs.active_zone_minutes;
+    zoneMinutes = { fat_burn: azm.fat_burn, cardio: azm.cardio / 2, peak: azm.peak / 2 };
+    source = "active_zone_minutes";
+  }
+  if (!zoneMinutes) source = unmeasured.length ? "exercises" : "none";
+
+  return {
+    date: inputs.date,
+    load: Math.round((zoneMinutes ? zoneLoad(zoneMinutes) : 0) + exerciseLoad),
+    source,
+    zone_minutes: zoneMinutes,
+    exercise_load: exerciseLoad,
+    exercises: inputs.exercises.map((e) => ({ name: e.name, active_minutes: e.active_minutes, intensity: e.intensity })),
+  };
+}
+
+function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+/**
+ * Rolling load metrics for each day, given consecutive daily loads oldest first.
+ * Days without data (before the user's first, or gaps in the store) are left
+ * out of the averages rather than counted as rest. Metrics need a full window
+ * of days before them, and ACWR CHRONIC_DAYS days with data, otherwise they're null.
+ */
+export function computeLoadMetrics(days: DailyLoad[]): LoadMetrics[] {
+  let daysWithData = 0;
+  return days.map((day, i) => {
+    if (day.source !== "none") daysWithData++;
+    const loadsWithData = (windowDays: number) => {
+      if (i + 1 < windowDays) return null;
+      const loads = days.slice(i + 1 - windowDays, i + 1).filter((d) => d.source !== "none").map((d) => d.load);
+      return loads.length ? loads : null;
+    };
+    const acute = loadsWithData(ACUTE_DAYS);
+    const chronic = daysWithData >= CHRONIC_DAYS ? loadsWithData(CHRONIC_DAYS) : null;
+
+    const acuteLoad = acute ? mean(acute) : null;
+    const chronicLoad = chronic ? mean(chronic) : null;
+    const weeklyLoad = acute ? acute.reduce((a, b) => a + b, 0) : null;
+
+    let monotony: number | null = null;
+    if (acute && acuteLoad) {
+      const sd = Math.sqrt(mean(acute.map((v) => (v - acuteLoad) ** 2)));
+      monotony = sd > 0 ? round(acuteLoad / sd, 2) : null;
+    }
+
+    return {
+      date: day.date,
+      load: day.load,
+      acute_load: acuteLoad !== null ? round(acuteLoad, 1) : null,
+      chronic_load: chronicLoad !== null ? round(chronicLoad, 1) : null,
+      acwr: acuteLoad !== null && chronicLoad ? round(acuteLoad / chronicLoad, 2) : null,
+      weekly_load: weeklyLoad,
+      monotony,
+      strain: weeklyLoad !== null && monotony !== null ? Math.round(weeklyLoad * monotony) : null,
+    };
+  });
+}
+
+export function assessLoad(metrics: LoadMetrics): LoadAssessment {
+  const notes: string[] = [];
+  let acwrStatus: AcwrStatus | null = null;
+
+  if (metrics.acwr !== null) {
+    const band = ACWR_BANDS.find((b) => metrics.acwr! >= b.min)!;
+    acwrStatus = band.status;
+    notes.push(`ACWR ${metrics.acwr}: ${band.note}`);
+  } else {
+    notes.push(`Not enough history for ACWR (needs ${CHRONIC_DAYS} days with data)`);
+  }
+
+  const highMonotony = metrics.monotony !== null && metrics.monotony > HIGH_MONOTONY;
+  if (highMonotony) {
+    notes.push(`Monotony ${metrics.monotony}: training has been very uniform; mix in easier and harder days`);
+  }
+
+  return { acwr_status: acwrStatus, high_monotony: highMonotony, notes };
+}
@@ -0,0 +1,85 @@
+/**
+ * Per-user settings, stored as JSON next to the user's tokens.
+ */
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from "fs";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+import { z } from "zod";
+import { demoPath, isDemoMode } from "./demo-data.js";
+import { isValidTimeZone } from "./utils.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const SETTINGS_DIR = join(__dirname, "..", "..", "..", "output", "settings");
+
+export const insightRuleOverrideSchema = z
+  .object({
+    enabled: z.boolean(),
+    threshold: z.number().nonnegative(),
+    baseline_days: z.number().int().min(1).max(365),
+    severity: z.enum(["info", "warning", "alert"]),
+  })
+  .partial()
+  .strict();
+
+// bpm thresholds for time-above on /heart-rate/intraday, from settings or ?thresholds=
+export const heartRateThresholdsSchema = z.array(z.number().int().min(30).max(250)).min(1).max(10);
+
+export const userSettingsSchema = z
+  .object({
+    // Keyed by insight rule id, see insights.ts
+    insight_rules: z.record(insightRuleOverrideSchema),
+    heart_rate_thresholds: heartRateThresholdsSchema,
+    // IANA name, e.g. "Europe/Helsinki"; overrides the Fitbit profile timezone
+    timezone: z.string().refine(isValidTimeZone, "Unknown timezone"),
+    // Nightly sleep need in hours, for sleep debt on /sleep/consistency
+    sleep_need_hours: z.number().min(4).max(12),
+  })
+  .partial()
+  .strict();
+
+export type UserSettings = z.infer<typeof userSettingsSchema>;
+
+const cache = new Map<string, UserSettings>();
+
+function settingsFile(userId: string): string {
+  const dir = process.env.USER_SETTINGS_DIR || SETTINGS_DIR;
+  return join(isDemoMode() ? demoPath(dir) : dir, `${userId}.json`);
+}
+
+export function getUserSettings(userId: string): UserSettings {
+  const cached = cache.get(userId);
+  if (cached) return cached;
+
+  let settings: UserSettings = {};
+  const file = settingsFile(userId);
+  if (existsSync(file)) {
+    try {
+      settings = userSettingsSchema.parse(JSON.parse(readFileSync(file, "utf-8")));
+    } catch (e) {
+      console.warn(`Ignoring invalid settings file ${file}:`, e);
+    }
+  }
+  cache.set(userId, settings);
+  return settings;
+}
+
+/**
+ * Merge a validated partial update into the user's settings and persist them
+ */
+export function updateUserSettings(userId: string, update: UserSettings): UserSettings {
+  const current = getUserSettings(userId);
+  const settings: UserSettings = { ...current, ...update };
+
+  if (update.insight_rules) {
+    settings.insight_rules = { ...current.insight_rules };
+    for (const [ruleId, override] of Object.entries(update.insight_rules)) {
+      settings.insight_rules[ruleId] = { ...current.insight_rules?.[ruleId], ...override };
+    }
+  }
+
+  const file = settingsFile(userId);
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(file, JSON.stringify(settings, null, 2));
+  cache.set(userId, settings);
+  return settings;
+}
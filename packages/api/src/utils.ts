@@ -1,32 +1,146 @@
+import { getRequestContext } from "./request-context.js";
+
+export function defaultTimeZone(): string {
+  return process.env.DEFAULT_TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Timezone for date math: the current user's (see timezone.ts), else
+ * DEFAULT_TIMEZONE, else the server's own
+ */
+export function currentTimeZone(): string {
+  return getRequestContext()?.timezone || defaultTimeZone();
+}
+
 /**
- * Format a date as YYYY-MM-DD using local timezone
+ * Format an instant as YYYY-MM-DD in the given timezone
  */
-export function formatDate(date: Date): string {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, "0");
-  const day = String(date.getDate()).padStart(2, "0");
-  return `${year}-${month}-${day}`;
+export function formatDate(date: Date, timeZone = currentTimeZone()): string {
+  const parts = new Intl.DateTimeFormat("en-US", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).formatToParts(date);
+  const part = (type: string) => parts.find((p) => p.type === type)!.value;
+  return `${part("year")}-${part("month")}-${part("day")}`;
 }
 
 /**
- * Get a date N days ago
+ * Hour of the day (0-23) of an instant in the given timezone
  */
-export function daysAgo(n: number): Date {
-  const date = new Date();
-  date.setDate(date.getDate() - n);
-  return date;
+export function hourOf(date: Date, timeZone = currentTimeZone()): number {
+  const hour = new Intl.DateTimeFormat("en-US", { timeZone, hour: "numeric", hourCycle: "h23" }).format(date);
+  return parseInt(hour);
+}
+
+/**
+ * Get the date string N calendar days before today.
+ * Calendar math rather than 24-hour steps, so DST changes can't skip or repeat a day.
+ */
+export function daysAgo(n: number, timeZone = currentTimeZone()): string {
+  return addDays(today(timeZone), -n);
 }
 
 /**
  * Get today's date string
  */
-export function today(): string {
-  return formatDate(new Date());
+export function today(timeZone = currentTimeZone()): string {
+  return formatDate(new Date(), timeZone);
 }
 
 /**
  * Get yesterday's date string
  */
-export function yesterday(): string {
-  return formatDate(daysAgo(1));
+export function yesterday(timeZone = currentTimeZone()): string {
+  return daysAgo(1, timeZone);
+}
+
+/**
+ * Whether a string is an IANA timezone name this runtime knows, e.g. "Europe/Helsinki"
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Round a number to the given number of decimal places
+ */
+export function round(value: number, decimals = 1): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+export interface CardioFitness {
+  vo2_max: number | null; // Midpoint when Fitbit reports a range
+  vo2_max_low: number | null;
+  vo2_max_high: number | null;
+}
+
+/**
+ * Fitbit reports VO2 max as "44" or, without GPS runs, as a range like "44-48"
+ */
+export function parseVo2Max(value: string | undefined): CardioFitness {
+  const [low, high] = (value || "").split("-").map((v) => parseFloat(v));
+  if (isNaN(low)) return { vo2_max: null, vo2_max_low: null, vo2_max_high: null };
+  const top = isNaN(high) ? low : high;
+  return { vo2_max: round((low + top) / 2, 1), vo2_max_low: low, vo2_max_high: top };
+}
+
+/**
+ * Average of a list of numbers, or null when the list is empty
+ */
+export function average(values: number[], decimals = 1): number | null {
+  if (!values.length) return null;
+  return round(values.reduce((a, b) => a + b, 0) / values.length, decimals);
+}
+
+/**
+ * Add days to a YYYY-MM-DD date string (calendar math, unaffected by DST)
+ */
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Number of days from start to end (YYYY-MM-DD), inclusive of both
+ */
+export function daysBetween(startDate: string, endDate: string): number {
+  const ms = Date.parse(`${endDate}T00:00:00Z`) - Date.parse(`${startDate}T00:00:00Z`);
+  return Math.round(ms / 86400000) + 1;
+}
+
+/**
+ * Trailing average over the last N calendar days (inclusive) for each dated value.
+ * Days without data are skipped rather than counted as zero.
+ */
+export function rollingAverage(
+  values: Array<{ date: string; value: number | null }>,
+  windowDays: number,
+  decimals = 1
+): Map<string, number | null> {
+  const known = values.filter((v) => v.value !== null) as Array<{ date: string; value: number }>;
+  const result = new Map<string, number | null>();
+  for (const { date } of values) {
+    const windowStart = addDays(date, -(windowDays - 1));
+    result.set(date, average(known.filter((v) => v.date >= windowStart && v.date <= date).map((v) => v.value), decimals));
+  }
+  return result;
+}
+
+/**
+ * Min and max of a list of numbers, or nulls when the list is empty
+ */
+export function minMax(values: number[]): { min: number | null; max: number | null } {
+  if (!values.length) return { min: null, max: null };
+  return { min: Math.min(...values), max: Math.max(...values) };
+}
+
+/**
+ * Weekday name of a YYYY-MM-DD date string, e.g. "Tuesday"
+ */
+export function dayOfWeek(date: string): string {
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString("en-US", { weekday: "long", timeZone: "UTC" });
 }
@@ -0,0 +1,148 @@
+/**
+ * Minimal zip reader for Takeout archives: lists entries from the central
+ * directory and inflates only the ones asked for, so large archives aren't
+ * read into memory. Supports stored and deflated entries and zip64.
+ */
+import { open, FileHandle } from "fs/promises";
+import { inflateRawSync } from "zlib";
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const MAX_COMMENT_LENGTH = 0xffff;
+const MAX_ENTRY_SIZE = 256 * 1024 * 1024; // Larger entries aren't inflated, whatever the archive claims
+
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ZipError";
+  }
+}
+
+export interface ZipEntry {
+  name: string;
+  size: number;
+  read(): Promise<Buffer>;
+}
+
+export interface ZipArchive {
+  entries: ZipEntry[];
+  close(): Promise<void>;
+}
+
+/**
+ * Read length bytes at position. Sizes and offsets come from the archive's own
+ * headers, so they're checked against the file before anything is allocated.
+ */
+async function readAt(file: FileHandle, fileSize: number, position: number, length: number): Promise<Buffer> {
+  if (!Number.isSafeInteger(position) || !Number.isSafeInteger(length) || position < 0 || length < 0 || position + length > fileSize) {
+    throw new ZipError("Archive points past its end");
+  }
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await file.read(buffer, 0, length, position);
+  if (bytesRead < length) throw new ZipError("Unexpected end of archive");
+  return buffer;
+}
+
+/**
+ * Central directory location, from the end of central directory record
+ */
+async function findCentralDirectory(file: FileHandle, fileSize: number): Promise<{ offset: number; size: number }> {
+  const tailLength = Math.min(fileSize, 22 + MAX_COMMENT_LENGTH);
+  const tail = await readAt(file, fileSize, fileSize - tailLength, tailLength);
+
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tail.readUInt32LE(i) !== EOCD_SIGNATURE) continue;
+
+    let size = tail.readUInt32LE(i + 12);
+    let offset = tail.readUInt32LE(i + 16);
+    if (offset === 0xffffffff || size === 0xffffffff) {
+      const locatorAt = fileSize - tailLength + i - 20;
+      const locator = await readAt(file, fileSize, locatorAt, 20);
+      if (locator.readUInt32LE(0) !== ZIP64_LOCATOR_SIGNATURE) throw new ZipError("Missing zip64 locator");
+      const record = await readAt(file, fileSize, Number(locator.readBigUInt64LE(8)), 56);
+      if (record.readUInt32LE(0) !== ZIP64_EOCD_SIGNATURE) throw new ZipError("Missing zip64 end of central directory");
+      size = Number(record.readBigUInt64LE(40));
+      offset = Number(record.readBigUInt64LE(48));
+    }
+    return { offset, size };
+  }
+  throw new ZipError("Not a zip archive");
+}
+
+export async function openZip(path: string): Promise<ZipArchive> {
+  const file = await open(path, "r");
+  try {
+    const { size: fileSize } = await file.stat();
+    const directory = await findCentralDirectory(file, fileSize);
+    const central = await readAt(file, fileSize, directory.offset, directory.size);
+
+    const entries: ZipEntry[] = [];
+    for (let at = 0; at + 46 <= central.length && central.readUInt32LE(at) === CENTRAL_HEADER_SIGNATURE; ) {
+      const method = central.readUInt16LE(at + 10);
+      let compressedSize = central.readUInt32LE(at + 20);
+      let size = central.readUInt32LE(at + 24);
+      const nameLength = central.readUInt16LE(at + 28);
+      const extraLength = central.readUInt16LE(at + 30);
+      const commentLength = central.readUInt16LE(at + 32);
+      let headerOffset = central.readUInt32LE(at + 42);
+      const name = central.toString("utf-8", at + 46, at + 46 + nameLength);
+
+      // Zip64 extra field: 64-bit values for whichever fields are maxed out, in this order
+      const extra = central.subarray(at + 46 + nameLength, at + 46 + nameLength + extraLength);
+      try {
+        for (let e = 0; e + 4 <= extra.length; e += 4 + extra.readUInt16LE(e + 2)) {
+          if (extra.readUInt16LE(e) !== 0x0001) continue;
+          let field = e + 4;
+          const next = () => {
+            const value = Number(extra.readBigUInt64LE(field));
+            field += 8;
+            return value;
+          };
+          if (size === 0xffffffff) size = next();
+          if (compressedSize === 0xffffffff) compressedSize = next();
+          if (headerOffset === 0xffffffff) headerOffset = next();
+        }
+      } catch (e) {
+        if (e instanceof RangeError) throw new ZipError(`Truncated zip64 extra field for ${name}`);
+        throw e;
+      }
+
+      if (!name.endsWith("/")) {
+        entries.push({
+          name,
+          size,
+          read: async () => {
+            if (size > MAX_ENTRY_SIZE || compressedSize > MAX_ENTRY_SIZE) throw new ZipError(`${name} is too large to read`);
+            if (headerOffset + compressedSize > fileSize) throw new ZipError(`${name} points past the end of the archive`);
+            const header = await readAt(file, fileSize, headerOffset, 30);
+            if (header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) throw new ZipError(`Bad local header for ${name}`);
+            const dataAt = headerOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+            const data = await readAt(file, fileSize, dataAt, compressedSize);
+            if (method === 0) return data;
+            if (method === 8) {
+              // Capped at the size the directory gives, so a zip bomb can't inflate past it
+              let inflated: Buffer;
+              try {
+                inflated = inflateRawSync(data, { maxOutputLength: Math.max(size, 1) });
+              } catch (e) {
+                throw new ZipError(`${name} doesn't inflate to its stated size: ${e instanceof Error ? e.message : e}`);
+              }
+              if (inflated.length !== size) throw new ZipError(`${name} doesn't inflate to its stated size`);
+              return inflated;
+            }
+            throw new ZipError(`Unsupported compression method ${method} for ${name}`);
+          },
+        });
+      }
+      at += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return { entries, close: () => file.close() };
+  } catch (e) {
+    await file.close();
+    throw e;
+  }
+}
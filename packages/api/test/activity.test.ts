@@ -0,0 +1,89 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestApi, TestApi } from "./api-harness.js";
+import { fakeFitbitData } from "../src/fake-fitbit-server.js";
+
+const DATE = "2025-06-18";
+
+interface ActivityDay {
+  steps: number | null;
+  calories_out: number | null;
+  very_active_minutes: number | null;
+  insights: unknown[];
+}
+
+interface ActivityHistory {
+  records: Array<{ date: string; steps: number }>;
+  averages: { steps: number | null };
+}
+
+interface ExerciseList {
+  exercises: Array<{ log_id: number; name: string; intensity: string; heart_rate_zones: unknown }>;
+  summary: { count: number };
+}
+
+let api: TestApi;
+
+before(async () => {
+  api = await startTestApi();
+});
+
+after(async () => {
+  await api.close();
+});
+
+describe("GET /activity/today", () => {
+  it("returns the day's activity summary", async () => {
+    const { status, body } = await api.get<ActivityDay>(`/activity/today?date=${DATE}`);
+    const expected = fakeFitbitData.activity(DATE);
+
+    assert.equal(status, 200);
+    assert.equal(body.steps, expected.steps);
+    assert.equal(body.calories_out, expected.caloriesOut);
+    assert.equal(body.very_active_minutes, expected.veryActiveMinutes);
+    // A past day is complete, so steps are compared to the week before
+    assert.ok(Array.isArray(body.insights));
+  });
+});
+
+describe("GET /activity/history", () => {
+  it("returns daily steps newest first with the average", async () => {
+    const { status, body } = await api.get<ActivityHistory>("/activity/history?start=2025-06-05&end=2025-06-18");
+
+    assert.equal(status, 200);
+    assert.equal(body.records.length, 14);
+    assert.equal(body.records[0].date, DATE);
+    assert.equal(body.records[0].steps, fakeFitbitData.activity(DATE).steps);
+    const total = body.records.reduce((sum, r) => sum + r.steps, 0);
+    assert.equal(body.averages.steps, Math.round(total / 14));
+  });
+});
+
+describe("GET /activity/exercises", () => {
+  it("returns the logged workouts in the range with intensity", async () => {
+    const { status, body } = await api.get<ExerciseList>("/activity/exercises?start=2025-06-01&end=2025-06-18");
+
+    const expected = [];
+    for (let day = 18; day >= 1; day--) {
+      const log = fakeFitbitData.activityLog(`2025-06-${String(day).padStart(2, "0")}`);
+      if (log) expected.push(log);
+    }
+
+    assert.equal(status, 200);
+    assert.deepEqual(
+      body.exercises.map((e) => e.log_id),
+      expected.map((log) => log.logId)
+    );
+    assert.equal(body.summary.count, expected.length);
+    for (const exercise of body.exercises) {
+      assert.ok(["low", "moderate", "high"].includes(exercise.intensity));
+      // Weights sessions are logged by hand, without heart rate
+      if (exercise.name === "Weights") assert.equal(exercise.heart_rate_zones, null);
+    }
+  });
+
+  it("rejects ranges over 30 days", async () => {
+    const { status } = await api.get("/activity/exercises?start=2025-05-01&end=2025-06-18");
+    assert.equal(status, 400);
+  });
+});
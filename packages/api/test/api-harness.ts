@@ -0,0 +1,94 @@
+/**
+ * Runs the API against the fake Fitbit and OAuth servers for integration tests.
+ * The environment has to be set before the app is imported, so there is one
+ * API per test file; node --test runs every file in its own process.
+ */
+import { mkdtempSync, rmSync } from "fs";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { tmpdir } from "os";
+import { join } from "path";
+import { FakeFitbitOptions, FakeFitbitServer, startFakeFitbitServer } from "../src/fake-fitbit-server.js";
+import { FakeOAuthServer, startFakeOAuthServer } from "../src/fake-oauth-server.js";
+import { FITBIT_SCOPES } from "../src/oauth.js";
+
+export const TIMEZONE = "Europe/Helsinki";
+export const ACCESS_TOKEN = "test-access-token";
+export const REFRESH_TOKEN = "test-refresh-token";
+
+// body is the parsed JSON, typed by the caller, or the text of other responses
+export interface ApiResponse<T = unknown> {
+  status: number;
+  headers: Headers;
+  body: T;
+}
+
+// The error handler's body, see app.ts
+export interface ApiError {
+  error: string;
+  message: string;
+  issues?: Array<{ param: string; message: string }>;
+}
+
+export interface TestApi {
+  url: string;
+  fitbit: FakeFitbitServer;
+  oauth: FakeOAuthServer;
+  get<T = unknown>(path: string, headers?: Record<string, string>): Promise<ApiResponse<T>>;
+  send<T = unknown>(method: string, path: string, body?: unknown): Promise<ApiResponse<T>>;
+  close(): Promise<void>;
+}
+
+export async function startTestApi(options: FakeFitbitOptions = {}): Promise<TestApi> {
+  const dir = mkdtempSync(join(tmpdir(), "fitbitbot-test-"));
+  const fitbit = await startFakeFitbitServer({ timezone: TIMEZONE, ...options });
+  const oauth = await startFakeOAuthServer({ refreshTokens: [REFRESH_TOKEN] });
+
+  Object.assign(process.env, {
+    FITBIT_API_URL: fitbit.url,
+    FITBIT_AUTHORIZE_URL: oauth.authorizeUrl,
+    FITBIT_TOKEN_URL: oauth.tokenUrl,
+    FITBIT_TOKEN: JSON.stringify({ access_token: ACCESS_TOKEN, refresh_token: REFRESH_TOKEN, scope: FITBIT_SCOPES.join(" "), user_id: "FAKE01" }),
+    FITBIT_REQUEST_TIMEOUT_MS: "500",
+    FITBIT_CACHE: "none",
+    CLIENT_ID: "TESTCLIENT",
+    CLIENT_SECRET: "test-secret",
+    METRIC_STORE_PATH: join(dir, "metrics.db"),
+    USER_SETTINGS_DIR: join(dir, "settings"),
+  });
+  for (const name of ["API_KEY", "DEFAULT_TIMEZONE", "FITBIT_REDIRECT_URI", "GOOGLE_CLOUD_PROJECT", "GCP_PROJECT", "SYNC_BACKFILL_FROM"]) {
+    delete process.env[name];
+  }
+
+  const { app } = await import("../src/app.js");
+  const server: Server = await new Promise((resolve) => {
+    const s = app.listen(0, "127.0.0.1", () => resolve(s));
+  });
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const send = async <T,>(method: string, path: string, body?: unknown, headers: Record<string, string> = {}): Promise<ApiResponse<T>> => {
+    const response = await fetch(`${url}${path}`, {
+      method,
+      headers: body === undefined ? headers : { "Content-Type": "application/json", ...headers },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      redirect: "manual",
+    });
+    const json = response.headers.get("content-type")?.includes("application/json");
+    return { status: response.status, headers: response.headers, body: (json ? await response.json() : await response.text()) as T };
+  };
+
+  return {
+    url,
+    fitbit,
+    oauth,
+    get: <T,>(path: string, headers?: Record<string, string>) => send<T>("GET", path, undefined, headers),
+    send: <T,>(method: string, path: string, body?: unknown) => send<T>(method, path, body),
+    close: async () => {
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      await fitbit.close();
+      await oauth.close();
+      rmSync(dir, { recursive: true, force: true });
+    },
+  };
+}
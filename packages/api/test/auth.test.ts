@@ -0,0 +1,93 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestApi, TestApi, ApiError } from "./api-harness.js";
+
+interface AuthStatus {
+  authenticated: boolean;
+  fitbit_user_id: string | null;
+  required_scopes: string[];
+  missing_scopes: string[];
+}
+
+interface Connected {
+  user_id: string;
+  authenticated: boolean;
+}
+
+let api: TestApi;
+
+before(async () => {
+  api = await startTestApi();
+});
+
+after(async () => {
+  await api.close();
+});
+
+describe("GET /auth/status", () => {
+  it("reports the token and its scopes", async () => {
+    const { status, body } = await api.get<AuthStatus>("/auth/status");
+
+    assert.equal(status, 200);
+    assert.equal(body.authenticated, true);
+    assert.equal(body.fitbit_user_id, "FAKE01");
+    assert.deepEqual(body.missing_scopes, []);
+  });
+
+  it("reports users who haven't connected", async () => {
+    const { body } = await api.get<AuthStatus>("/auth/status?user=nobody");
+    assert.equal(body.authenticated, false);
+    assert.deepEqual(body.missing_scopes, body.required_scopes);
+  });
+});
+
+describe("GET /auth/login and /auth/callback", () => {
+  it("connects a new user through the OAuth flow", async () => {
+    const login = await api.get("/auth/login?user=alice");
+    assert.equal(login.status, 302);
+
+    // The fake OAuth server approves straight away and redirects back with a code
+    const authorize = await fetch(login.headers.get("location")!, { redirect: "manual" });
+    assert.equal(authorize.status, 302);
+    const callback = new URL(authorize.headers.get("location")!);
+    assert.equal(callback.pathname, "/auth/callback");
+
+    const { status, body } = await api.get<Connected>(`${callback.pathname}${callback.search}`);
+    assert.equal(status, 200);
+    assert.equal(body.user_id, "alice");
+    assert.equal(body.authenticated, true);
+
+    // alice's requests now carry the newly issued token
+    await api.get("/sleep/last-night?date=2025-06-18&user=alice");
+    const issued = api.oauth.issuedTokens.at(-1)!;
+    assert.equal(api.fitbit.requests.at(-1)!.token, issued.access_token);
+  });
+
+  it("rejects an unknown state", async () => {
+    const { status, body } = await api.get<ApiError>("/auth/callback?code=abc&state=forged");
+    assert.equal(status, 400);
+    assert.equal(body.error, "invalid_state");
+  });
+
+  it("reports a denied authorization", async () => {
+    const { status, body } = await api.get<ApiError>("/auth/callback?error=access_denied&error_description=Denied");
+    assert.equal(status, 400);
+    assert.equal(body.error, "authorization_denied");
+  });
+});
+
+describe("User IDs", () => {
+  it("are case-insensitive, so each has one token env var", async () => {
+    const { body } = await api.get<AuthStatus>("/auth/status?user=ALICE");
+    assert.equal(body.authenticated, true);
+
+    const header = await api.get<AuthStatus>("/auth/status", { "X-User-Id": "Alice" });
+    assert.equal(header.body.authenticated, true);
+  });
+
+  it("rejects _, which would share FITBIT_TOKEN_<USER_ID> with -", async () => {
+    const { status, body } = await api.get<ApiError>("/auth/status?user=a_b");
+    assert.equal(status, 400);
+    assert.equal(body.error, "invalid_user");
+  });
+});
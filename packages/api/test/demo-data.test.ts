@@ -0,0 +1,134 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestApi, TestApi } from "./api-harness.js";
+import { createDemoDataSource } from "../src/demo-data.js";
+import { MetricStore } from "../src/metric-store.js";
+import { addDays, today } from "../src/utils.js";
+
+const START = "2024-01-01";
+const DAYS = 730;
+
+function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+describe("demo data", () => {
+  const source = createDemoDataSource("default", "1");
+  const dates = Array.from({ length: DAYS }, (_, i) => addDays(START, i));
+
+  it("is the same for the same seed and differs between seeds", () => {
+    const again = createDemoDataSource("default", "1");
+    const other = createDemoDataSource("default", "2");
+    assert.deepEqual(again.day("2024-05-14").hrv, source.day("2024-05-14").hrv);
+    assert.deepEqual(again.day("2024-05-14").heart_rate(), source.day("2024-05-14").heart_rate());
+    assert.ok(dates.slice(0, 30).some((date) => other.day(date).resting_hr !== source.day(date).resting_hr));
+  });
+
+  it("raises resting HR and lowers HRV in the last building week of a block", () => {
+    const healthy = dates.filter((date) => source.story(date).illness === 0);
+    const inWeek = (week: number) => healthy.filter((date) => source.story(date).block_week === week).map((date) => source.day(date));
+    const peak = inWeek(2);
+    const afterDeload = inWeek(0);
+
+    assert.ok(mean(peak.map((d) => d.resting_hr)) > mean(afterDeload.map((d) => d.resting_hr)) + 1);
+    assert.ok(mean(peak.map((d) => d.hrv.daily)) < mean(afterDeload.map((d) => d.hrv.daily)) - 2);
+  });
+
+  it("shows illness in skin temperature, resting HR and training", () => {
+    const sick = dates.filter((date) => source.story(date).illness >= 0.5);
+    const healthy = dates.filter((date) => source.story(date).illness === 0);
+    assert.ok(sick.length > 0);
+
+    assert.ok(mean(sick.map((date) => source.day(date).skin_temp)) > 0.8);
+    assert.ok(Math.abs(mean(healthy.map((date) => source.day(date).skin_temp))) < 0.1);
+    assert.ok(mean(sick.map((date) => source.day(date).resting_hr)) > mean(healthy.map((date) => source.day(date).resting_hr)) + 3);
+    assert.ok(sick.every((date) => source.day(date).workout === null));
+  });
+
+  it("gives bad nights lower efficiency and less sleep", () => {
+    const main = (date: string) => source.day(date).sleep.find((p) => p.main)!;
+    const efficiency = (date: string) => 1 - main(date).awake / main(date).minutes;
+    const bad = dates.filter((date) => source.story(date).bad_night && source.story(date).illness === 0);
+    const good = dates.filter((date) => !source.story(date).bad_night && source.story(date).illness === 0);
+
+    assert.ok(bad.every((date) => efficiency(date) < 0.81));
+    assert.ok(good.every((date) => efficiency(date) > 0.85));
+    assert.ok(mean(bad.map((date) => main(date).minutes)) < mean(good.map((date) => main(date).minutes)) - 45);
+  });
+
+  it("derives zone minutes from the intraday heart rate", () => {
+    const date = dates.find((d) => source.story(d).session?.intensity === "hard")!;
+    const day = source.day(date);
+    const aboveCardio = day.heart_rate().filter((bpm) => bpm >= 123).length;
+    assert.equal(day.zone_minutes.cardio + day.zone_minutes.peak, aboveCardio);
+    assert.ok(day.workout!.average_hr! > 120);
+  });
+});
+
+describe("routes in demo mode", () => {
+  let api: TestApi;
+
+  before(async () => {
+    process.env.FITBIT_DEMO = "1";
+    api = await startTestApi();
+  });
+
+  after(async () => {
+    await api.close();
+    delete process.env.FITBIT_DEMO;
+  });
+
+  it("reports the demo account as connected", async () => {
+    const { body } = await api.get<{ authenticated: boolean; fitbit_user_id: string; missing_scopes: string[] }>("/auth/status");
+    assert.equal(body.authenticated, true);
+    assert.equal(body.fitbit_user_id, "DEMO1");
+    assert.deepEqual(body.missing_scopes, []);
+  });
+
+  it("answers every route without calling Fitbit", async () => {
+    const date = addDays(today(), -1);
+    const paths = [
+      `/sleep/last-night?date=${date}`,
+      "/sleep/history?days=30",
+      "/sleep/stages-history",
+      "/sleep/consistency?days=28",
+      `/activity/today?date=${date}`,
+      "/activity/history?days=14",
+      "/activity/exercises?days=14",
+      `/heart-rate/today?date=${date}`,
+      "/heart-rate/resting/history?days=30",
+      "/heart-rate/intraday?detail=5min",
+      `/recovery/today?date=${date}`,
+      "/recovery/history?days=30",
+      `/recovery/readiness?date=${date}`,
+      `/recovery/alerts?date=${date}`,
+      "/summary/grafana-snapshot",
+      `/summary/morning-report?date=${date}`,
+      "/summary/week",
+      "/training/load?days=28",
+      "/export?days=30&format=fhir",
+    ];
+    for (const path of paths) {
+      const { status } = await api.get(path);
+      assert.equal(status, 200, path);
+    }
+    assert.equal(api.fitbit.requests.length, 0);
+  });
+
+  it("keeps demo data and real data apart", async () => {
+    // Real history in the store the API would use outside demo mode
+    const real = new MetricStore(process.env.METRIC_STORE_PATH);
+    const start = addDays(today(), -9);
+    const entries = Array.from({ length: 10 }, (_, i) => ({ date: addDays(start, i), key: "", data: { dateTime: addDays(start, i), value: { dailyRmssd: 999 } } }));
+    real.replaceRange("default", "hrv", start, today(), entries);
+    real.markSynced("default", "hrv", start, today());
+
+    const { body } = await api.get<{ hrv_records: Array<{ daily_rmssd: number | null }> }>(`/recovery/history?start=${start}&end=${today()}`);
+    assert.ok(body.hrv_records.every((r) => r.daily_rmssd !== 999));
+
+    process.env.SYNC_BACKFILL_FROM = addDays(today(), -20);
+    await api.send("POST", "/sync/run?metrics=hrv,spo2");
+    assert.equal(real.getSyncState("default", "spo2"), null);
+    assert.equal(real.getSyncState("default", "hrv")!.oldest_date, start);
+  });
+});
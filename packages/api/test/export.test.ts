@@ -0,0 +1,114 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestApi, TestApi, ApiError } from "./api-harness.js";
+import { fakeFitbitData } from "../src/fake-fitbit-server.js";
+
+const RANGE = "start=2025-06-16&end=2025-06-22";
+
+interface Observation {
+  effectiveDateTime: string;
+  code: { text: string; coding?: Array<{ system: string; code: string }> };
+  category: Array<{ coding: Array<{ code: string }> }>;
+  valueQuantity: { value: number; unit: string; code: string };
+}
+
+interface Bundle {
+  resourceType: string;
+  type: string;
+  entry: Array<{ resource: Observation }>;
+}
+
+let api: TestApi;
+
+before(async () => {
+  api = await startTestApi();
+});
+
+after(async () => {
+  await api.close();
+});
+
+describe("GET /export", () => {
+  it("streams NDJSON with a line per day and sleep", async () => {
+    const { status, headers, body } = await api.get<string>(`/export?metrics=hrv,sleep&${RANGE}`);
+
+    assert.equal(status, 200);
+    assert.match(headers.get("content-type")!, /application\/x-ndjson/);
+    assert.match(headers.get("content-disposition")!, /fitbit-2025-06-16-2025-06-22\.ndjson/);
+
+    const lines = body.trim().split("\n").map((line) => JSON.parse(line));
+    const hrv = lines.filter((line) => line.metric === "hrv");
+    assert.equal(hrv.length, 7);
+    assert.equal(hrv.find((line) => line.date === "2025-06-18").daily_rmssd, fakeFitbitData.hrv("2025-06-18").value.dailyRmssd);
+
+    // Seven nights, the split night as one record, plus Saturday's nap
+    const sleep = lines.filter((line) => line.metric === "sleep");
+    assert.equal(sleep.length, 8);
+    assert.equal(sleep.find((line) => line.date === "2025-06-18" && line.is_main_sleep).segments, 2);
+    assert.equal(sleep.filter((line) => line.date === "2025-06-21").length, 2);
+  });
+
+  it("streams CSV in long format with units", async () => {
+    const { status, headers, body } = await api.get<string>(`/export?metrics=resting_hr,steps&format=csv&${RANGE}`);
+
+    assert.equal(status, 200);
+    assert.match(headers.get("content-type")!, /text\/csv/);
+    const [header, ...rows] = body.trim().split("\n");
+    assert.equal(header, "date,metric,start_time,field,value,unit");
+    assert.equal(rows.length, 14);
+    assert.ok(rows.includes(`2025-06-18,resting_hr,,resting_heart_rate,${fakeFitbitData.heartRate("2025-06-18").value.restingHeartRate},/min`));
+    assert.ok(rows.some((row) => /^2025-06-18,steps,,steps,\d+,\{steps\}$/.test(row)));
+  });
+
+  it("builds a FHIR bundle with LOINC-coded vital signs", async () => {
+    const { status, headers, body } = await api.get<string>(`/export?metrics=resting_hr,spo2,breathing_rate,hrv&format=fhir&${RANGE}`);
+
+    assert.equal(status, 200);
+    assert.match(headers.get("content-type")!, /application\/fhir\+json/);
+    const bundle: Bundle = JSON.parse(body);
+    assert.equal(bundle.resourceType, "Bundle");
+    assert.equal(bundle.type, "collection");
+
+    const observations = bundle.entry.map((entry) => entry.resource);
+    const coded = (code: string) => observations.filter((o) => o.code.coding?.some((c) => c.system === "http://loinc.org" && c.code === code));
+    assert.equal(coded("8867-4").length, 7);
+    assert.equal(coded("59408-5").length, 7);
+    assert.equal(coded("9279-1").length, 7);
+
+    const spo2 = coded("59408-5").find((o) => o.effectiveDateTime === "2025-06-18")!;
+    assert.equal(spo2.valueQuantity.value, fakeFitbitData.spo2("2025-06-18").value.avg);
+    assert.equal(spo2.valueQuantity.code, "%");
+    assert.equal(spo2.category[0].coding[0].code, "vital-signs");
+
+    // HRV has no LOINC code, only text
+    const hrv = observations.find((o) => o.code.text === "Heart rate variability (RMSSD)")!;
+    assert.equal(hrv.code.coding, undefined);
+    assert.equal(hrv.valueQuantity.unit, "ms");
+  });
+
+  it("rejects unknown metrics and formats", async () => {
+    const metric = await api.get(`/export?metrics=hrv,mood&${RANGE}`);
+    assert.equal(metric.status, 400);
+
+    const format = await api.get(`/export?format=xml&${RANGE}`);
+    assert.equal(format.status, 400);
+  });
+
+  it("rejects ranges over 90 days the store doesn't cover instead of cutting them short", async () => {
+    const { status, body } = await api.get<ApiError>("/export?metrics=hrv,spo2&start=2024-06-01&end=2025-05-31");
+    assert.equal(status, 400);
+    assert.match(body.issues![0].message, /not synced for this range: hrv, spo2/);
+  });
+
+  it("answers with an error status when the first metric fails", async () => {
+    api.fitbit.setScenario("server_error");
+    try {
+      const { status, headers, body } = await api.get<ApiError>(`/export?metrics=hrv&format=csv&${RANGE}`);
+      assert.equal(status, 503);
+      assert.match(headers.get("content-type")!, /application\/json/);
+      assert.equal(body.error, "fitbit_api_error");
+    } finally {
+      api.fitbit.setScenario("normal");
+    }
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, before, after, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { ACCESS_TOKEN, startTestApi, TestApi, ApiError } from "./api-harness.js";
+
+const DATE = "2025-06-18";
+
+let api: TestApi;
+
+before(async () => {
+  api = await startTestApi();
+});
+
+afterEach(() => {
+  api.fitbit.setScenario("normal");
+});
+
+after(async () => {
+  await api.close();
+});
+
+describe("Fitbit API failures", () => {
+  it("answers 429 when Fitbit rate limits", async () => {
+    api.fitbit.setScenario("rate_limited");
+    const { status, body } = await api.get<ApiError>(`/sleep/last-night?date=${DATE}`);
+
+    assert.equal(status, 429);
+    assert.equal(body.error, "rate_limit_exceeded");
+  });
+
+  it("answers 504 when Fitbit doesn't respond in time", async () => {
+    api.fitbit.setScenario("timeout", 1);
+    const { status, body } = await api.get<ApiError>(`/sleep/last-night?date=${DATE}`);
+
+    assert.equal(status, 504);
+    assert.match(body.message, /timed out/);
+  });
+
+  it("passes Fitbit server errors through", async () => {
+    api.fitbit.setScenario("server_error", 1);
+    const { status, body } = await api.get<ApiError>(`/activity/today?date=${DATE}`);
+
+    assert.equal(status, 503);
+    assert.equal(body.error, "fitbit_api_error");
+  });
+});
+
+describe("expired access token", () => {
+  it("refreshes the token once and retries the request", async () => {
+    api.fitbit.setScenario("expired_token", 1);
+    const before = api.fitbit.requests.length;
+    const { status, body } = await api.get<{ steps: number }>(`/activity/today?date=${DATE}`);
+
+    assert.equal(status, 200);
+    assert.ok(body.steps > 0);
+
+    const [expired, retried] = api.fitbit.requests.slice(before);
+    assert.equal(expired.token, ACCESS_TOKEN);
+    assert.equal(expired.status, 401);
+    assert.equal(api.oauth.issuedTokens.length, 1);
+    assert.equal(retried.token, api.oauth.issuedTokens[0].access_token);
+    assert.equal(retried.status, 200);
+  });
+
+  it("uses the rotated refresh token next time", async () => {
+    api.fitbit.setScenario("expired_token", 1);
+    const { status } = await api.get(`/activity/today?date=${DATE}`);
+
+    assert.equal(status, 200);
+    // The fake OAuth server only accepts the refresh token it issued last
+    assert.equal(api.oauth.issuedTokens.length, 2);
+  });
+
+  it("answers 401 when the retried request is rejected too", async () => {
+    api.fitbit.setScenario("expired_token", 2);
+    const { status } = await api.get(`/activity/today?date=${DATE}`);
+    assert.equal(status, 401);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestApi, TestApi, ApiError } from "./api-harness.js";
+import { fakeFitbitData } from "../src/fake-fitbit-server.js";
+
+const DATE = "2025-06-13"; // A run at 17:30 in the simulator
+
+interface HeartRateDay {
+  resting_heart_rate: number | null;
+  zones: Array<{ name: string; minutes: number }>;
+}
+
+interface RestingHistory {
+  records: Array<{ date: string; value: number }>;
+  min_value: number | null;
+  max_value: number | null;
+}
+
+interface Intraday {
+  samples: number;
+  series: unknown[];
+  bout_threshold_bpm: number;
+  bouts: Array<{ start_time: string }>;
+  time_above: Array<{ threshold_bpm: number }>;
+}
+
+let api: TestApi;
+
+before(async () => {
+  api = await startTestApi();
+});
+
+after(async () => {
+  await api.close();
+});
+
+describe("GET /heart-rate/today", () => {
+  it("returns resting heart rate and zones", async () => {
+    const { status, body } = await api.get<HeartRateDay>(`/heart-rate/today?date=${DATE}`);
+    const expected = fakeFitbitData.heartRate(DATE).value;
+
+    assert.equal(status, 200);
+    assert.equal(body.resting_heart_rate, expected.restingHeartRate);
+    assert.deepEqual(
+      body.zones.map((z) => [z.name, z.minutes]),
+      expected.heartRateZones.map((z) => [z.name, z.minutes])
+    );
+  });
+});
+
+describe("GET /heart-rate/resting/history", () => {
+  it("returns resting heart rate per day with min, max and average", async () => {
+    const { status, body } = await api.get<RestingHistory>("/heart-rate/resting/history?start=2025-06-01&end=2025-06-30");
+
+    assert.equal(status, 200);
+    assert.equal(body.records.length, 30);
+    const values = body.records.map((r) => r.value);
+    assert.equal(body.min_value, Math.min(...values));
+    assert.equal(body.max_value, Math.max(...values));
+  });
+});
+
+describe("GET /heart-rate/intraday", () => {
+  it("finds the workout as a bout above the cardio zone", async () => {
+    const { status, body } = await api.get<Intraday>(`/heart-rate/intraday?date=${DATE}&detail=15min`);
+
+    assert.equal(status, 200);
+    assert.equal(body.samples, 1440);
+    assert.equal(body.series.length, 96);
+    assert.equal(body.bout_threshold_bpm, 123);
+    assert.equal(body.bouts.length, 1);
+    assert.equal(body.bouts[0].start_time, "17:30:00");
+  });
+
+  it("uses thresholds from the query", async () => {
+    const { body } = await api.get<Intraday>(`/heart-rate/intraday?date=${DATE}&thresholds=90,150`);
+    assert.deepEqual(
+      body.time_above.map((t) => t.threshold_bpm),
+      [90, 150]
+    );
+  });
+
+  it("rejects malformed thresholds", async () => {
+    const { status, body } = await api.get<ApiError>(`/heart-rate/intraday?date=${DATE}&thresholds=fast`);
+    assert.equal(status, 400);
+    assert.equal(body.error, "invalid_query");
+  });
+
+  it("rejects thresholds outside 30-250 bpm, as settings do", async () => {
+    for (const thresholds of ["-5,100000", "100,100000", "20"]) {
+      const { status, body } = await api.get<ApiError>(`/heart-rate/intraday?date=${DATE}&thresholds=${thresholds}`);
+      assert.equal(status, 400, thresholds);
+      assert.equal(body.error, "invalid_query");
+    }
+  });
+});
@@ -0,0 +1,339 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { crc32, deflateRawSync } from "zlib";
+import { startTestApi, TestApi, ApiError, ApiResponse } from "./api-harness.js";
+import { getMetricStore } from "../src/metric-store.js";
+import { importTakeout, ImportResult } from "../src/takeout-import.js";
+import { addDays, today } from "../src/utils.js";
+
+const NIGHTS = ["2024-03-01", "2024-03-02", "2024-03-03"];
+
+let api: TestApi;
+let dir: string;
+
+before(async () => {
+  api = await startTestApi();
+  dir = mkdtempSync(join(tmpdir(), "fitbitbot-takeout-"));
+});
+
+after(async () => {
+  await api.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+// "03/01/24 00:00:00", as in Global Export Data
+function usDate(date: string): string {
+  const [year, month, day] = date.split("-");
+  return `${month}/${day}/${year.slice(2)} 00:00:00`;
+}
+
+function sleepLog(date: string, i: number) {
+  return {
+    logId: 44000 + i,
+    dateOfSleep: date,
+    startTime: `${addDays(date, -1)}T23:05:00.000`,
+    endTime: `${date}T06:50:00.000`,
+    duration: 465 * 60000,
+    minutesAsleep: 420,
+    minutesAwake: 45,
+    timeInBed: 465,
+    efficiency: 92,
+    type: "stages",
+    levels: { summary: { deep: { minutes: 80 }, light: { minutes: 230 }, rem: { minutes: 110 }, wake: { minutes: 45 } } },
+    mainSleep: true,
+  };
+}
+
+interface SleepHistory {
+  source: string;
+  records: Array<{ date: string; is_main_sleep: boolean; efficiency: number; duration_hours: number; stages: Record<string, number> }>;
+}
+
+interface RestingHistory {
+  source: string;
+  records: Array<{ value: number }>;
+  raw_data: { "activities-heart": Array<{ value: { heartRateZones: Array<{ minutes: number }> } }> };
+}
+
+interface RecoveryHistory {
+  hrv_records: Array<{ date: string; daily_rmssd: number | null; deep_rmssd: number | null }>;
+  spo2_records: Array<{ avg: number; min: number; max: number }>;
+}
+
+// Store entries as Fitbit returns them, e.g. { dateTime, value }
+type StoredEntry<T> = { dateTime: string; value: T };
+
+const TAKEOUT: Record<string, string> = {
+  "Takeout/Fitbit/Global Export Data/sleep-2024-03-01.json": JSON.stringify(NIGHTS.map(sleepLog)),
+  "Takeout/Fitbit/Global Export Data/resting_heart_rate-2024-03-01.json": JSON.stringify(
+    NIGHTS.map((date, i) => ({ dateTime: usDate(date), value: { date: usDate(date).slice(0, 8), value: 55.4 + i, error: 6.2 } }))
+  ),
+  "Takeout/Fitbit/Global Export Data/time_in_heart_rate_zones-2024-03-01.json": JSON.stringify(
+    NIGHTS.map((date) => ({
+      dateTime: usDate(date),
+      value: { valuesInZones: { BELOW_DEFAULT_ZONE_1: 1380, IN_DEFAULT_ZONE_1: 40, IN_DEFAULT_ZONE_2: 15, IN_DEFAULT_ZONE_3: 5 } },
+    }))
+  ),
+  "Takeout/Fitbit/Global Export Data/steps-2024-03-01.json": JSON.stringify(
+    NIGHTS.flatMap((date) => [
+      { dateTime: usDate(date).replace("00:00:00", "08:00:00"), value: "1200" },
+      { dateTime: usDate(date).replace("00:00:00", "12:00:00"), value: "3400" },
+    ])
+  ),
+  "Takeout/Fitbit/Physical Activity/Active Zone Minutes - 2024-03-01.csv": [
+    "date_time,heart_zone_id,total_minutes",
+    "2024-03-01T17:40,FAT_BURN,1",
+    "2024-03-01T17:41,CARDIO,2",
+    "2024-03-01T17:42,CARDIO,2",
+  ].join("\n"),
+  "Takeout/Fitbit/Heart Rate Variability/Daily Heart Rate Variability Summary - 2024-03-01.csv": [
+    "timestamp,rmssd,nremhr,entropy",
+    ...NIGHTS.map((date, i) => `${date}T00:00:00,${40 + i}.5,58.2,2.6`),
+  ].join("\n"),
+  "Takeout/Fitbit/Oxygen Saturation (SpO2)/Daily SpO2 - 2024-03-01-2024-03-31.csv": [
+    "timestamp,average_value,lower_bound,upper_bound",
+    ...NIGHTS.map((date) => `${date}T00:00:00,95.8,93.1,98.2`),
+  ].join("\n"),
+  "Takeout/Fitbit/Global Export Data/heart_rate-2024-03-01.json": "[]",
+};
+
+function writeFolder(files: Record<string, string>): string {
+  const root = mkdtempSync(join(dir, "folder-"));
+  for (const [name, content] of Object.entries(files)) {
+    mkdirSync(join(root, name, ".."), { recursive: true });
+    writeFileSync(join(root, name), content);
+  }
+  return root;
+}
+
+// statedSize lets a test claim less than an entry inflates to, like a zip bomb
+function zip(files: Record<string, string>, statedSize?: (data: Buffer) => number): Buffer {
+  const parts: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(files)) {
+    const data = Buffer.from(content);
+    const compressed = deflateRawSync(data);
+    const fileName = Buffer.from(name);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(crc32(data), 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(statedSize?.(data) ?? data.length, 22);
+    local.writeUInt16LE(fileName.length, 26);
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(20, 6);
+    header.writeUInt16LE(8, 10);
+    header.writeUInt32LE(crc32(data), 16);
+    header.writeUInt32LE(compressed.length, 20);
+    header.writeUInt32LE(statedSize?.(data) ?? data.length, 24);
+    header.writeUInt16LE(fileName.length, 28);
+    header.writeUInt32LE(offset, 42);
+
+    parts.push(local, fileName, compressed);
+    central.push(header, fileName);
+    offset += 30 + fileName.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(central.length / 2, 8);
+  end.writeUInt16LE(central.length / 2, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...parts, directory, end]);
+}
+
+async function upload<T = ImportResult>(body: Buffer, user = "default"): Promise<Omit<ApiResponse<T>, "headers">> {
+  const response = await fetch(`${api.url}/import?user=${user}`, { method: "POST", headers: { "Content-Type": "application/zip" }, body: new Uint8Array(body) });
+  return { status: response.status, body: await response.json() as T };
+}
+
+describe("Takeout import", () => {
+  it("imports an extracted export folder into the store", async () => {
+    const result = await importTakeout(writeFolder(TAKEOUT), "default", getMetricStore());
+
+    assert.equal(result.files_read, 7);
+    assert.deepEqual(result.unreadable_files, []);
+    const byMetric = Object.fromEntries(result.metrics.map((m) => [m.metric, m]));
+    assert.deepEqual(Object.keys(byMetric).sort(), ["azm", "hrv", "resting_hr", "sleep", "spo2", "steps"]);
+    assert.equal(byMetric.sleep.imported, 3);
+    assert.equal(byMetric.azm.entries, 1);
+    assert.equal(byMetric.hrv.oldest_date, "2024-03-01");
+  });
+
+  it("serves imported sleep like synced sleep, without calling Fitbit", async () => {
+    const requestsBefore = api.fitbit.requests.length;
+    const { body } = await api.get<SleepHistory>("/sleep/history?start=2024-03-01&end=2024-03-03");
+
+    assert.equal(body.source, "store");
+    assert.equal(body.records.length, 3);
+    const night = body.records.find((r) => r.date === "2024-03-02")!;
+    assert.equal(night.is_main_sleep, true);
+    assert.equal(night.efficiency, 92);
+    assert.equal(night.duration_hours, 7);
+    assert.equal(night.stages.deep, 80);
+    assert.ok(api.fitbit.requests.slice(requestsBefore).every((r) => !r.path.includes("/sleep/")));
+  });
+
+  it("combines resting HR and zone files and sums minute files per day", async () => {
+    const resting = await api.get<RestingHistory>("/heart-rate/resting/history?start=2024-03-01&end=2024-03-03");
+    assert.equal(resting.body.source, "store");
+    assert.deepEqual(resting.body.records.map((r) => r.value), [57, 56, 55]);
+    const zones = resting.body.raw_data["activities-heart"][0].value.heartRateZones;
+    assert.deepEqual(zones.map((z) => z.minutes), [1380, 40, 15, 5]);
+
+    const steps = getMetricStore().getEntries("default", "steps", "2024-03-01", "2024-03-01") as StoredEntry<string>[];
+    assert.equal(steps[0].value, "4600");
+    const azm = getMetricStore().getEntries("default", "azm", "2024-03-01", "2024-03-01") as StoredEntry<Record<string, number>>[];
+    assert.deepEqual(azm[0].value, { activeZoneMinutes: 5, fatBurnActiveZoneMinutes: 1, cardioActiveZoneMinutes: 4, peakActiveZoneMinutes: 0 });
+  });
+
+  it("normalizes imported HRV and SpO2 in the recovery routes", async () => {
+    const { body } = await api.get<RecoveryHistory>("/recovery/history?start=2024-03-01&end=2024-03-03");
+    const hrv = body.hrv_records.find((r) => r.date === "2024-03-02")!;
+    assert.equal(hrv.daily_rmssd, 41.5);
+    assert.equal(hrv.deep_rmssd, null);
+    assert.deepEqual(
+      body.spo2_records.map((r) => [r.avg, r.min, r.max]),
+      NIGHTS.map(() => [95.8, 93.1, 98.2])
+    );
+  });
+
+  it("skips rows whose date is missing or doesn't parse", async () => {
+    const files = {
+      "Takeout/Fitbit/Global Export Data/sleep-2024-07-01.json": JSON.stringify([
+        sleepLog("2024-07-01", 0),
+        { ...sleepLog("2024-07-02", 1), dateOfSleep: undefined },
+        { ...sleepLog("2024-07-03", 2), dateOfSleep: "last night" },
+      ]),
+      "Takeout/Fitbit/Global Export Data/resting_heart_rate-2024-07-01.json": JSON.stringify([
+        { dateTime: usDate("2024-07-01"), value: { value: 55 } },
+        { dateTime: "13/45/24 00:00:00", value: { value: 56 } },
+        { value: { value: 57 } },
+      ]),
+      "Takeout/Fitbit/Global Export Data/time_in_heart_rate_zones-2024-07-01.json": JSON.stringify([{ value: { valuesInZones: { IN_DEFAULT_ZONE_1: 40 } } }]),
+      "Takeout/Fitbit/Global Export Data/steps-2024-07-01.json": JSON.stringify([{ dateTime: usDate("2024-07-01"), value: "100" }, { value: "200" }]),
+      "Takeout/Fitbit/Heart Rate Variability/Daily Heart Rate Variability Summary - 2024-07-01.csv": [
+        "timestamp,rmssd,nremhr,entropy",
+        "2024-07-01T00:00:00,40.5,58.2,2.6",
+        "2024-02-30T00:00:00,41.5,58.2,2.6",
+        "yesterday,42.5,58.2,2.6",
+      ].join("\n"),
+    };
+    const result = await importTakeout(writeFolder(files), "dates", getMetricStore());
+
+    assert.deepEqual(result.unreadable_files, []);
+    const byMetric = Object.fromEntries(result.metrics.map((m) => [m.metric, m]));
+    for (const metric of ["sleep", "resting_hr", "steps", "hrv"]) {
+      assert.equal(byMetric[metric].entries, 1, metric);
+      assert.equal(byMetric[metric].oldest_date, "2024-07-01", metric);
+      assert.equal(byMetric[metric].newest_date, "2024-07-01", metric);
+    }
+  });
+});
+
+describe("POST /import", () => {
+  it("imports an uploaded zip and skips what it already has the second time", async () => {
+    const archive = zip({ "Takeout/Fitbit/Global Export Data/sleep-2024-04-01.json": JSON.stringify(["2024-04-01", "2024-04-02"].map(sleepLog)) });
+
+    const first = await upload(archive);
+    assert.equal(first.status, 200);
+    assert.equal(first.body.files_read, 1);
+    assert.equal(first.body.metrics[0].imported, 2);
+
+    const second = await upload(archive);
+    assert.equal(second.body.metrics[0].imported, 0);
+    assert.equal(second.body.metrics[0].skipped, 2);
+  });
+
+  it("keeps synced days and adds the days around them", async () => {
+    // A user without the earlier imports, which sync would resume from
+    process.env.FITBIT_TOKEN_BOB = process.env.FITBIT_TOKEN;
+    process.env.SYNC_BACKFILL_FROM = addDays(today(), -9);
+    await api.send("POST", "/sync/run?metrics=hrv&user=bob");
+    const synced = getMetricStore().getEntries("bob", "hrv", addDays(today(), -7), addDays(today(), -7));
+
+    const dates = Array.from({ length: 8 }, (_, i) => addDays(today(), i - 12));
+    const archive = zip({
+      "Takeout/Fitbit/Heart Rate Variability/Daily Heart Rate Variability Summary - export.csv": [
+        "timestamp,rmssd,nremhr,entropy",
+        ...dates.map((date) => `${date}T00:00:00,11.1,60,2.5`),
+      ].join("\n"),
+    });
+    const { body } = await upload(archive, "bob");
+
+    assert.deepEqual(body.metrics[0], { metric: "hrv", oldest_date: dates[0], newest_date: dates[7], entries: 8, imported: 3, skipped: 5 });
+    const after = getMetricStore().getEntries("bob", "hrv", addDays(today(), -7), addDays(today(), -7));
+    assert.deepEqual(after, synced);
+    // The imported days join the synced range
+    assert.equal(getMetricStore().getSyncState("bob", "hrv")!.oldest_date, dates[0]);
+  });
+
+  it("doesn't inflate an entry past the size the archive states", async () => {
+    const logs = JSON.stringify(["2024-05-01", "2024-05-02"].map(sleepLog));
+    const archive = zip({ "Takeout/Fitbit/Global Export Data/sleep-2024-05-01.json": logs }, () => 100);
+
+    const { status, body } = await upload(archive);
+    assert.equal(status, 200);
+    assert.equal(body.files_read, 0);
+    assert.deepEqual(body.unreadable_files, ["Takeout/Fitbit/Global Export Data/sleep-2024-05-01.json"]);
+  });
+
+  it("checks the sizes an archive states against its length before reading", async () => {
+    const archive = zip({ "Takeout/Fitbit/Global Export Data/sleep-2024-05-01.json": JSON.stringify(["2024-05-01"].map(sleepLog)) });
+    const directoryAt = archive.readUInt32LE(archive.length - 6);
+
+    // An entry claiming more compressed data than the file holds is skipped
+    const entry = Buffer.from(archive);
+    entry.writeUInt32LE(1024 * 1024, directoryAt + 20);
+    const skipped = await upload(entry);
+    assert.equal(skipped.status, 200);
+    assert.deepEqual(skipped.body.unreadable_files, ["Takeout/Fitbit/Global Export Data/sleep-2024-05-01.json"]);
+
+    // A central directory claiming more than the file holds fails the archive
+    const directory = Buffer.from(archive);
+    directory.writeUInt32LE(0xfffffff0, directory.length - 10);
+    const { status, body } = await upload<ApiError>(directory);
+    assert.equal(status, 400);
+    assert.equal(body.error, "invalid_archive");
+  });
+
+  it("refuses uploads over the size limit", async () => {
+    process.env.IMPORT_MAX_BYTES = "1000";
+    try {
+      const archive = zip({ "Takeout/Fitbit/Global Export Data/steps-2024-05-01.json": JSON.stringify(Array.from({ length: 500 }, (_, i) => ({ dateTime: `05/01/24 ${i}`, value: String(i) }))) });
+      assert.ok(archive.length > 1000);
+      const { status, body } = await upload<ApiError>(archive);
+      assert.equal(status, 413);
+      assert.equal(body.error, "payload_too_large");
+
+      // Without Content-Length the limit applies to the bytes received
+      const response = await fetch(`${api.url}/import`, {
+        method: "POST",
+        headers: { "Content-Type": "application/zip" },
+        body: new Blob([new Uint8Array(archive)]).stream(),
+        duplex: "half",
+      } as RequestInit);
+      assert.equal(response.status, 413);
+    } finally {
+      delete process.env.IMPORT_MAX_BYTES;
+    }
+  });
+
+  it("rejects a body that isn't a zip archive", async () => {
+    const { status, body } = await upload<ApiError>(Buffer.from("not a zip"));
+    assert.equal(status, 400);
+    assert.equal(body.error, "invalid_archive");
+  });
+});
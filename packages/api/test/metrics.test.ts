@@ -0,0 +1,116 @@
+import { describe, it, before, after, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { startTestApi, TestApi } from "./api-harness.js";
+import { endpointLabel } from "../src/fitbit-usage.js";
+import { addDays, today } from "../src/utils.js";
+
+const DATE = "2025-06-18";
+
+let api: TestApi;
+
+before(async () => {
+  api = await startTestApi();
+  process.env.SYNC_BACKFILL_FROM = addDays(today(), -13);
+  await api.send("POST", "/sync/run?metrics=sleep,hrv,spo2,skin_temp,resting_hr,steps");
+});
+
+afterEach(() => {
+  api.fitbit.setScenario("normal");
+});
+
+after(async () => {
+  await api.close();
+});
+
+/**
+ * Samples of the exposition by series, e.g. `fitbit_hrv_rmssd_ms{user="default"}`
+ */
+async function scrape(): Promise<Map<string, number>> {
+  const { status, headers, body } = await api.get<string>("/metrics");
+  assert.equal(status, 200);
+  assert.match(headers.get("content-type")!, /^text\/plain;.*version=0\.0\.4/);
+
+  const samples = new Map<string, number>();
+  for (const line of body.split("\n")) {
+    const match = line.match(/^(\S+) (\S+)$/);
+    if (match && !line.startsWith("#")) samples.set(match[1], Number(match[2]));
+  }
+  return samples;
+}
+
+describe("GET /metrics", () => {
+  it("serves the latest synced health values without calling Fitbit", async () => {
+    const requestsBefore = api.fitbit.requests.length;
+    const samples = await scrape();
+    assert.equal(api.fitbit.requests.length, requestsBefore);
+
+    const resting = await api.get<{ records: Array<{ date: string; value: number | null }> }>(`/heart-rate/resting/history?start=${addDays(today(), -13)}&end=${today()}`);
+    const latestRestingHr = resting.body.records.find((r) => r.value)!;
+    assert.equal(samples.get('fitbit_resting_heart_rate_bpm{user="default"}'), latestRestingHr.value);
+    assert.equal(samples.get('fitbit_latest_date_timestamp_seconds{user="default",metric="resting_hr"}'), Date.parse(`${latestRestingHr.date}T00:00:00Z`) / 1000);
+
+    const sleep = await api.get<{ records: Array<{ date: string; is_main_sleep: boolean; duration_hours: number; efficiency: number }> }>(
+      `/sleep/history?start=${addDays(today(), -13)}&end=${today()}`
+    );
+    const lastNight = sleep.body.records.filter((r) => r.is_main_sleep).sort((a, b) => a.date.localeCompare(b.date)).pop()!;
+    assert.equal(samples.get('fitbit_sleep_hours{user="default"}'), lastNight.duration_hours);
+    assert.equal(samples.get('fitbit_sleep_efficiency_percent{user="default"}'), lastNight.efficiency);
+
+    const steps = await api.get<{ records: Array<{ date: string; steps: number }> }>(`/activity/history?start=${addDays(today(), -13)}&end=${today()}`);
+    assert.equal(samples.get('fitbit_steps{user="default"}'), steps.body.records[0].steps);
+    assert.equal(samples.get('fitbit_latest_date_timestamp_seconds{user="default",metric="steps"}'), Date.parse(`${steps.body.records[0].date}T00:00:00Z`) / 1000);
+
+    const hrv = await api.get<{ hrv_records: Array<{ date: string; daily_rmssd: number | null }> }>(`/recovery/history?start=${addDays(today(), -13)}&end=${today()}`);
+    const nights = hrv.body.hrv_records.filter((r) => r.daily_rmssd !== null).sort((a, b) => a.date.localeCompare(b.date));
+    const latestHrv = nights.pop()!;
+    const week = nights.filter((r) => r.date >= addDays(latestHrv.date, -7)).map((r) => r.daily_rmssd!);
+    assert.equal(samples.get('fitbit_hrv_baseline_rmssd_ms{user="default"}'), Math.round((week.reduce((a, b) => a + b, 0) / week.length) * 10) / 10);
+
+    for (const gauge of ["fitbit_hrv_rmssd_ms", "fitbit_spo2_percent", "fitbit_skin_temp_deviation_celsius"]) {
+      assert.equal(typeof samples.get(`${gauge}{user="default"}`), "number", gauge);
+    }
+  });
+
+  it("counts Fitbit requests by endpoint, with their latency", async () => {
+    const samples = await scrape();
+    const hrvRequests = samples.get('fitbit_api_requests_total{user="default",endpoint="/1/user/-/hrv/date/{date}/{date}.json",status="200"}');
+    assert.ok(hrvRequests! >= 1);
+    assert.equal([...samples.keys()].filter((series) => /\d{4}-\d{2}-\d{2}/.test(series)).length, 0);
+
+    const count = samples.get('fitbit_api_request_duration_seconds_count{endpoint="/1/user/-/hrv/date/{date}/{date}.json"}');
+    assert.equal(count, hrvRequests);
+    assert.equal(samples.get('fitbit_api_request_duration_seconds_bucket{endpoint="/1/user/-/hrv/date/{date}/{date}.json",le="+Inf"}'), count);
+  });
+
+  it("counts rate limited requests and takes the quota from Fitbit's headers", async () => {
+    const before = (await scrape()).get('fitbit_api_rate_limited_total{user="default"}') ?? 0;
+    api.fitbit.setScenario("rate_limited", 1);
+    await api.get(`/sleep/last-night?date=${DATE}`);
+
+    const samples = await scrape();
+    assert.equal(samples.get('fitbit_api_rate_limited_total{user="default"}'), before + 1);
+    assert.equal(samples.get('fitbit_api_quota_remaining{user="default"}'), 0);
+
+    await api.get(`/activity/today?date=${DATE}`);
+    const remaining = (await scrape()).get('fitbit_api_quota_remaining{user="default"}')!;
+    assert.ok(remaining > 0 && remaining < 150);
+  });
+
+  it("counts token refreshes", async () => {
+    const before = (await scrape()).get('fitbit_token_refreshes_total{user="default",result="success"}') ?? 0;
+    api.fitbit.setScenario("expired_token", 1);
+    const { status } = await api.get(`/activity/today?date=${DATE}`);
+    assert.equal(status, 200);
+
+    const samples = await scrape();
+    assert.equal(samples.get('fitbit_token_refreshes_total{user="default",result="success"}'), before + 1);
+    assert.ok(samples.get('fitbit_api_requests_total{user="default",endpoint="/1/user/-/activities/date/{date}.json",status="401"}')! >= 1);
+  });
+});
+
+describe("endpointLabel", () => {
+  it("replaces dates and IDs", () => {
+    assert.equal(endpointLabel("/1.2/user/-/sleep/date/2025-06-01/2025-06-30.json"), "/1.2/user/-/sleep/date/{date}/{date}.json");
+    assert.equal(endpointLabel("/1/user/-/activities/list/9876543210.json"), "/1/user/-/activities/list/{id}.json");
+  });
+});
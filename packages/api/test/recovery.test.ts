@@ -0,0 +1,125 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestApi, TestApi } from "./api-harness.js";
+import { fakeFitbitData } from "../src/fake-fitbit-server.js";
+
+const DATE = "2025-06-18";
+
+interface RecoveryDay {
+  hrv: { daily_rmssd: number } | null;
+  spo2: { avg: number } | null;
+  breathing_rate: { breathing_rate: number } | null;
+  temperature: { nightly_relative: number } | null;
+  cardio_fitness: { vo2_max_low: number; vo2_max_high: number } | null;
+}
+
+interface RecoveryHistory {
+  source: string;
+  hrv_records: Array<{ date: string }>;
+  spo2_records: unknown[];
+  breathing_rate_records: unknown[];
+  temperature_records: unknown[];
+}
+
+interface Readiness {
+  score: number;
+  components: Record<string, { value: number | null }>;
+  missing_components: string[];
+}
+
+interface Alerts {
+  severity: string;
+  recommendation: string;
+  contributing_signals: string[];
+  signals: Array<{ signal: string; flagged: boolean }>;
+  missing_signals: string[];
+  recent_days: Array<{ date: string; severity: string }>;
+}
+
+let api: TestApi;
+
+before(async () => {
+  api = await startTestApi();
+});
+
+after(async () => {
+  await api.close();
+});
+
+describe("GET /recovery/today", () => {
+  it("returns every recovery signal for the date", async () => {
+    const { status, body } = await api.get<RecoveryDay>(`/recovery/today?date=${DATE}`);
+
+    assert.equal(status, 200);
+    assert.equal(body.hrv!.daily_rmssd, fakeFitbitData.hrv(DATE).value.dailyRmssd);
+    assert.equal(body.spo2!.avg, fakeFitbitData.spo2(DATE).value.avg);
+    assert.equal(body.breathing_rate!.breathing_rate, fakeFitbitData.breathingRate(DATE).value.breathingRate);
+    assert.equal(body.temperature!.nightly_relative, fakeFitbitData.skinTemp(DATE).value.nightlyRelative);
+    assert.equal(body.cardio_fitness!.vo2_max_high - body.cardio_fitness!.vo2_max_low, 4);
+  });
+
+  it("still answers when Fitbit is failing, with the signals missing", async () => {
+    api.fitbit.setScenario("server_error");
+    try {
+      const { status, body } = await api.get<RecoveryDay>(`/recovery/today?date=${DATE}`);
+      assert.equal(status, 200);
+      assert.equal(body.hrv, null);
+      assert.equal(body.spo2, null);
+    } finally {
+      api.fitbit.setScenario("normal");
+    }
+  });
+});
+
+describe("GET /recovery/history", () => {
+  it("returns a record per day for each signal, newest first", async () => {
+    const { status, body } = await api.get<RecoveryHistory>("/recovery/history?start=2025-06-01&end=2025-06-18");
+
+    assert.equal(status, 200);
+    assert.equal(body.source, "live");
+    assert.equal(body.hrv_records.length, 18);
+    assert.equal(body.hrv_records[0].date, DATE);
+    assert.equal(body.spo2_records.length, 18);
+    assert.equal(body.breathing_rate_records.length, 18);
+    assert.equal(body.temperature_records.length, 18);
+  });
+
+  it("splits ranges longer than Fitbit's 30-day limit into chunks", async () => {
+    const before = api.fitbit.requests.length;
+    const { status, body } = await api.get<RecoveryHistory>("/recovery/history?start=2025-04-01&end=2025-06-18");
+
+    assert.equal(status, 200);
+    assert.equal(body.hrv_records.length, 79);
+    const hrvRequests = api.fitbit.requests.slice(before).filter((r) => r.path.startsWith("/1/user/-/hrv/"));
+    assert.equal(hrvRequests.length, 3);
+    assert.ok(hrvRequests.every((r) => r.status === 200));
+  });
+});
+
+describe("GET /recovery/readiness", () => {
+  it("scores readiness from all four components", async () => {
+    const { status, body } = await api.get<Readiness>(`/recovery/readiness?date=${DATE}`);
+
+    assert.equal(status, 200);
+    assert.ok(body.score >= 0 && body.score <= 100);
+    assert.deepEqual(Object.keys(body.components).sort(), ["hrv", "resting_hr", "sleep", "temperature"]);
+    assert.deepEqual(body.missing_components, []);
+    assert.equal(body.components.hrv.value, fakeFitbitData.hrv(DATE).value.dailyRmssd);
+  });
+});
+
+describe("GET /recovery/alerts", () => {
+  it("checks every signal against its baseline", async () => {
+    const { status, body } = await api.get<Alerts>(`/recovery/alerts?date=${DATE}`);
+
+    assert.equal(status, 200);
+    // In the simulator only breathing rate is off its baseline that night
+    assert.equal(body.severity, "info");
+    assert.equal(body.recommendation, "monitor");
+    assert.deepEqual(body.contributing_signals, ["breathing_rate"]);
+    assert.deepEqual(body.signals.filter((s) => s.flagged).map((s) => s.signal), ["breathing_rate"]);
+    assert.equal(body.signals.length, 5);
+    assert.deepEqual(body.missing_signals, []);
+    assert.equal(body.recent_days.at(-1)!.date, DATE);
+  });
+});
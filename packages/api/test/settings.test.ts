@@ -0,0 +1,75 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestApi, TestApi, TIMEZONE, ApiError } from "./api-harness.js";
+
+interface SettingsResponse {
+  user_id: string;
+  settings: Record<string, unknown>;
+  timezone: { timezone: string; source: string };
+  insight_rules: Array<{ id: string; threshold: number }>;
+}
+
+let api: TestApi;
+
+before(async () => {
+  api = await startTestApi();
+});
+
+after(async () => {
+  await api.close();
+});
+
+describe("health checks", () => {
+  // First in the file, before anything has looked up the default user's profile
+  it("don't look up the Fitbit profile", async () => {
+    const requestsBefore = api.fitbit.requests.length;
+    for (const path of ["/", "/health"]) {
+      const { status } = await api.get(path);
+      assert.equal(status, 200);
+    }
+    assert.equal(api.fitbit.requests.length, requestsBefore);
+  });
+});
+
+describe("GET /settings", () => {
+  it("uses the Fitbit profile timezone until one is set", async () => {
+    const { status, body } = await api.get<SettingsResponse>("/settings");
+
+    assert.equal(status, 200);
+    assert.equal(body.user_id, "default");
+    assert.deepEqual(body.settings, {});
+    assert.deepEqual(body.timezone, { timezone: TIMEZONE, source: "fitbit_profile" });
+    assert.ok(body.insight_rules.some((rule) => rule.id === "hrv_low"));
+  });
+});
+
+describe("PATCH /settings", () => {
+  it("merges overrides into the user's settings and rules", async () => {
+    const { status, body } = await api.send<SettingsResponse>("PATCH", "/settings?user=patch-user", {
+      insight_rules: { hrv_low: { threshold: 15 } },
+      sleep_need_hours: 7.5,
+    });
+
+    assert.equal(status, 200);
+    assert.equal(body.settings.sleep_need_hours, 7.5);
+    assert.equal(body.insight_rules.find((rule) => rule.id === "hrv_low")!.threshold, 15);
+
+    const { body: reread } = await api.get<SettingsResponse>("/settings?user=patch-user");
+    assert.deepEqual(reread.settings, body.settings);
+  });
+
+  it("lets the settings timezone override the profile", async () => {
+    const { body } = await api.send<SettingsResponse>("PATCH", "/settings?user=tz-user", { timezone: "America/New_York" });
+    assert.deepEqual(body.timezone, { timezone: "America/New_York", source: "settings" });
+  });
+
+  it("rejects unknown rules and invalid values", async () => {
+    const unknown = await api.send<ApiError>("PATCH", "/settings", { insight_rules: { made_up: { threshold: 1 } } });
+    assert.equal(unknown.status, 400);
+    assert.match(unknown.body.message, /made_up/);
+
+    const invalid = await api.send<ApiError>("PATCH", "/settings", { timezone: "Mars/Olympus_Mons" });
+    assert.equal(invalid.status, 400);
+    assert.equal(invalid.body.error, "invalid_settings");
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestApi, TestApi, ApiError } from "./api-harness.js";
+import { fakeFitbitData } from "../src/fake-fitbit-server.js";
+import { SleepPeriod as ConsistencyPeriod, analyzeSleepConsistency } from "../src/sleep-consistency.js";
+import { addDays } from "../src/utils.js";
+
+const SATURDAY = "2025-06-21"; // The simulator logs an afternoon nap on Saturdays
+const WEDNESDAY = "2025-06-18"; // Split into two periods by the simulator
+
+interface SleepPeriod {
+  minutes_asleep: number;
+  start_time: string;
+  is_main_sleep: boolean;
+  segments: number;
+  stages: { deep_percent: number; light_percent: number; rem_percent: number };
+}
+
+interface LastNight {
+  date: string;
+  sleep: SleepPeriod;
+  naps: SleepPeriod[];
+  nap_minutes: number;
+  total_sleep_hours: number;
+}
+
+interface SleepHistory {
+  days_requested: number;
+  start_date: string;
+  truncated: boolean;
+  source: string;
+  records: Array<{ date: string }>;
+  naps: unknown[];
+  daily_totals: unknown[];
+  averages: { duration_hours: number };
+}
+
+interface StagesHistory {
+  records: Array<{ date: string; deep: number; light: number; rem: number; total_sleep: number; total_sleep_all: number; nap_minutes: number }>;
+}
+
+interface Consistency {
+  nights: number;
+  sleep_need_hours: number;
+  sleep_regularity_index: number;
+  social_jet_lag_hours: number;
+  bedtime: { mean: string };
+  sleep_debt: { last_7_days_hours: number | null; last_7_days_missing_nights: number | null };
+  records: Array<{ date: string; duration_hours: number; nap_hours: number; debt_hours: number }>;
+}
+
+let api: TestApi;
+
+before(async () => {
+  api = await startTestApi();
+});
+
+after(async () => {
+  await api.close();
+});
+
+describe("GET /sleep/last-night", () => {
+  it("returns the night's main sleep with stage percentages", async () => {
+    const { status, body } = await api.get<LastNight>(`/sleep/last-night?date=${SATURDAY}`);
+    const [night] = fakeFitbitData.sleepLogs(SATURDAY);
+
+    assert.equal(status, 200);
+    assert.equal(body.date, SATURDAY);
+    assert.equal(body.sleep.minutes_asleep, night.minutesAsleep);
+    assert.equal(body.sleep.start_time, night.startTime);
+    assert.equal(body.sleep.is_main_sleep, true);
+    const { deep_percent, light_percent, rem_percent } = body.sleep.stages;
+    assert.ok(Math.abs(deep_percent + light_percent + rem_percent - 100) < 0.2);
+  });
+
+  it("lists the afternoon nap separately and counts it in the day's total", async () => {
+    const { body } = await api.get<LastNight>(`/sleep/last-night?date=${SATURDAY}`);
+    const nap = fakeFitbitData.sleepLogs(SATURDAY).find((log) => log.type === "classic")!;
+
+    assert.equal(body.naps.length, 1);
+    assert.equal(body.naps[0].start_time, nap.startTime);
+    assert.equal(body.nap_minutes, nap.minutesAsleep);
+    assert.equal(body.total_sleep_hours, Math.round(((body.sleep.minutes_asleep + body.nap_minutes) / 60) * 100) / 100);
+  });
+
+  it("joins a split night into one record", async () => {
+    const { body } = await api.get<LastNight>(`/sleep/last-night?date=${WEDNESDAY}`);
+    const periods = fakeFitbitData.sleepLogs(WEDNESDAY);
+
+    assert.equal(periods.length, 2);
+    assert.equal(body.sleep.segments, 2);
+    assert.equal(body.sleep.minutes_asleep, (periods[0].minutesAsleep as number) + (periods[1].minutesAsleep as number));
+    assert.deepEqual(body.naps, []);
+  });
+
+  it("rejects dates in the future", async () => {
+    const { status, body } = await api.get<ApiError>("/sleep/last-night?date=2999-01-01");
+    assert.equal(status, 400);
+    assert.equal(body.error, "invalid_query");
+  });
+});
+
+describe("GET /sleep/history", () => {
+  it("returns one main sleep per night, newest first, with naps and daily totals", async () => {
+    const { status, body } = await api.get<SleepHistory>("/sleep/history?start=2025-06-09&end=2025-06-22");
+
+    assert.equal(status, 200);
+    assert.equal(body.days_requested, 14);
+    assert.equal(body.source, "live");
+    assert.equal(body.records.length, 14);
+    assert.equal(body.records[0].date, "2025-06-22");
+    assert.equal(body.naps.length, 2); // 14th and 21st
+    assert.equal(body.daily_totals.length, 14);
+    assert.ok(body.averages.duration_hours > 5 && body.averages.duration_hours < 10);
+  });
+
+  it("reports the shorter range it serves live when the store doesn't cover the request", async () => {
+    const { status, body } = await api.get<SleepHistory>("/sleep/history?start=2024-06-01&end=2025-06-22");
+
+    assert.equal(status, 200);
+    assert.equal(body.days_requested, 387);
+    assert.equal(body.truncated, true);
+    assert.equal(body.start_date, "2025-03-25");
+    assert.ok(body.records.every((r) => r.date >= "2025-03-25"));
+  });
+});
+
+describe("GET /sleep/stages-history", () => {
+  it("returns flat stage minutes oldest first", async () => {
+    const { status, body } = await api.get<StagesHistory>(`/sleep/stages-history?start=2025-06-15&end=${SATURDAY}`);
+
+    assert.equal(status, 200);
+    assert.deepEqual(
+      body.records.map((r) => r.date),
+      ["2025-06-15", "2025-06-16", "2025-06-17", "2025-06-18", "2025-06-19", "2025-06-20", SATURDAY]
+    );
+    for (const record of body.records) {
+      assert.equal(record.deep + record.light + record.rem, record.total_sleep);
+      assert.equal(record.total_sleep_all, record.total_sleep + record.nap_minutes);
+    }
+  });
+});
+
+describe("GET /sleep/consistency", () => {
+  it("scores regularity and uses the sleep_need override", async () => {
+    const { status, body } = await api.get<Consistency>("/sleep/consistency?start=2025-05-26&end=2025-06-22&sleep_need=7.5");
+
+    assert.equal(status, 200);
+    assert.equal(body.nights, 28);
+    assert.equal(body.sleep_need_hours, 7.5);
+    assert.ok(body.sleep_regularity_index > 0 && body.sleep_regularity_index <= 100);
+    assert.ok(body.social_jet_lag_hours > 0); // Weekend nights start an hour later
+    assert.match(body.bedtime.mean, /^\d{2}:\d{2}$/);
+  });
+
+  it("counts naps towards sleep debt", async () => {
+    const { body } = await api.get<Consistency>("/sleep/consistency?start=2025-06-15&end=2025-06-22");
+    const nap = fakeFitbitData.sleepLogs(SATURDAY).find((log) => log.type === "classic")!;
+    const saturday = body.records.find((r) => r.date === SATURDAY)!;
+
+    assert.equal(body.nights, 8);
+    assert.equal(saturday.nap_hours, Math.round(((nap.minutesAsleep as number) / 60) * 100) / 100);
+    assert.ok(Math.abs(saturday.debt_hours - (8 - saturday.duration_hours - saturday.nap_hours)) < 0.02);
+  });
+
+  it("sums sleep debt over the last 7 calendar days of the range", async () => {
+    const { body } = await api.get<Consistency>("/sleep/consistency?start=2025-06-01&end=2025-06-22");
+    const lastWeek = body.records.filter((r) => r.date >= "2025-06-16");
+    const debt = Math.max(0, lastWeek.reduce((sum, r) => sum + r.debt_hours, 0));
+
+    assert.equal(lastWeek.length, 7);
+    assert.ok(Math.abs(body.sleep_debt.last_7_days_hours! - debt) < 0.06);
+    assert.equal(body.sleep_debt.last_7_days_missing_nights, 0);
+  });
+
+  it("rejects an out-of-range sleep_need", async () => {
+    const { status } = await api.get("/sleep/consistency?sleep_need=20");
+    assert.equal(status, 400);
+  });
+});
+
+describe("analyzeSleepConsistency", () => {
+  // Six hours asleep, ending on date
+  function night(date: string): ConsistencyPeriod {
+    return { date, start_time: `${addDays(date, -1)}T23:00:00.000`, end_time: `${date}T05:00:00.000`, minutes_asleep: 360, nap_minutes: 0 };
+  }
+
+  it("windows sleep debt by date, reporting nights without sleep as missing", () => {
+    // Nothing recorded for the last three days, so the last 7 days hold only four nights
+    const periods = ["2025-06-08", "2025-06-09", "2025-06-10", "2025-06-16", "2025-06-17", "2025-06-18", "2025-06-19"].map(night);
+    const result = analyzeSleepConsistency(periods, { start: "2025-06-08", end: "2025-06-22" });
+
+    assert.equal(result.sleep_debt.last_7_days_hours, 8);
+    assert.equal(result.sleep_debt.last_7_days_missing_nights, 3);
+    assert.equal(result.sleep_debt.last_14_days_hours, 12);
+    assert.equal(result.sleep_debt.last_14_days_missing_nights, 8);
+    assert.match(result.notes.join("\n"), /3 of 7 nights have no sleep recorded/);
+  });
+
+  it("has no sleep debt for a window the range doesn't cover", () => {
+    const result = analyzeSleepConsistency(["2025-06-20", "2025-06-21", "2025-06-22"].map(night), { start: "2025-06-20", end: "2025-06-22" });
+
+    assert.equal(result.sleep_debt.last_7_days_hours, null);
+    assert.equal(result.sleep_debt.last_7_days_missing_nights, null);
+  });
+
+  it("leaves the debt unknown when no night in the window has sleep", () => {
+    const result = analyzeSleepConsistency([night("2025-06-01")], { start: "2025-06-01", end: "2025-06-14" });
+
+    assert.equal(result.sleep_debt.last_7_days_hours, null);
+    assert.equal(result.sleep_debt.last_7_days_missing_nights, 7);
+    assert.equal(result.sleep_debt.last_14_days_hours, 2);
+  });
+});
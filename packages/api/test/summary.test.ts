@@ -0,0 +1,98 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestApi, TestApi, TIMEZONE } from "./api-harness.js";
+import { fakeFitbitData } from "../src/fake-fitbit-server.js";
+
+const DATE = "2025-06-18";
+const SUNDAY = "2025-06-22"; // Saturday's nap shows up as yesterday's sleep
+
+interface MorningReport {
+  date: string;
+  last_night_sleep: { date: string };
+  yesterday_activity: { date: string; steps: number };
+  yesterday_sleep: { nap_count: number; nap_minutes: number };
+  recovery: { hrv: { daily_rmssd: number } };
+  resting_heart_rate: number;
+  trends: { days_of_data: number };
+  data_summary: { day_of_week: string; is_weekend: boolean; timezone: string };
+}
+
+interface GrafanaSnapshot {
+  hrv_rmssd: number;
+  spo2_avg: number;
+  breathing_rate: number;
+  temp_deviation: number;
+  sleep_hours: number;
+  sleep_deep_min: number;
+  sleep_light_min: number;
+  sleep_rem_min: number;
+}
+
+interface Week {
+  period: { start: string; end: string };
+  previous_period: { start: string; end: string };
+  days: Array<{ steps: number }>;
+  totals: { steps: number };
+}
+
+let api: TestApi;
+
+before(async () => {
+  api = await startTestApi();
+});
+
+after(async () => {
+  await api.close();
+});
+
+describe("GET /summary/morning-report", () => {
+  it("combines last night's sleep, yesterday's activity and recovery", async () => {
+    const { status, body } = await api.get<MorningReport>(`/summary/morning-report?date=${DATE}`);
+
+    assert.equal(status, 200);
+    assert.equal(body.date, DATE);
+    assert.equal(body.last_night_sleep.date, DATE);
+    assert.equal(body.yesterday_activity.date, "2025-06-17");
+    assert.equal(body.yesterday_activity.steps, fakeFitbitData.activity("2025-06-17").steps);
+    assert.equal(body.recovery.hrv.daily_rmssd, fakeFitbitData.hrv(DATE).value.dailyRmssd);
+    assert.equal(body.resting_heart_rate, fakeFitbitData.heartRate(DATE).value.restingHeartRate);
+    assert.equal(body.trends.days_of_data, 7);
+    assert.deepEqual(body.data_summary, { day_of_week: "Wednesday", is_weekend: false, timezone: TIMEZONE });
+  });
+
+  it("reports yesterday's naps", async () => {
+    const { body } = await api.get<MorningReport>(`/summary/morning-report?date=${SUNDAY}`);
+    const nap = fakeFitbitData.sleepLogs("2025-06-21").find((log) => log.type === "classic")!;
+
+    assert.equal(body.yesterday_sleep.nap_count, 1);
+    assert.equal(body.yesterday_sleep.nap_minutes, nap.minutesAsleep);
+  });
+});
+
+describe("GET /summary/grafana-snapshot", () => {
+  it("returns flat values for the date", async () => {
+    const { status, body } = await api.get<GrafanaSnapshot>(`/summary/grafana-snapshot?date=${DATE}`);
+
+    assert.equal(status, 200);
+    assert.equal(body.hrv_rmssd, fakeFitbitData.hrv(DATE).value.dailyRmssd);
+    assert.equal(body.spo2_avg, fakeFitbitData.spo2(DATE).value.avg);
+    assert.equal(body.breathing_rate, fakeFitbitData.breathingRate(DATE).value.breathingRate);
+    assert.equal(body.temp_deviation, fakeFitbitData.skinTemp(DATE).value.nightlyRelative);
+    assert.equal(body.sleep_deep_min + body.sleep_light_min + body.sleep_rem_min, Math.round(body.sleep_hours * 60));
+  });
+});
+
+describe("GET /summary/week", () => {
+  it("returns the 7 days ending on end and the week before", async () => {
+    const { status, body } = await api.get<Week>(`/summary/week?end=${DATE}`);
+
+    assert.equal(status, 200);
+    assert.deepEqual(body.period, { start: "2025-06-12", end: DATE });
+    assert.deepEqual(body.previous_period, { start: "2025-06-05", end: "2025-06-11" });
+    assert.equal(body.days.length, 7);
+    assert.equal(
+      body.totals.steps,
+      body.days.reduce((sum, d) => sum + d.steps, 0)
+    );
+  });
+});
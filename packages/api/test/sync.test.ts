@@ -0,0 +1,80 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestApi, TestApi } from "./api-harness.js";
+import { addDays, today } from "../src/utils.js";
+
+interface SyncResult {
+  stopped_reason: string;
+  requests_made: number;
+  metrics: Array<{ oldest_date: string; backfill_complete: boolean }>;
+}
+
+interface SyncStatus {
+  backfill_from: string;
+  metrics: unknown[];
+  last_result: SyncResult;
+}
+
+let api: TestApi;
+
+before(async () => {
+  api = await startTestApi();
+  process.env.SYNC_BACKFILL_FROM = addDays(today(), -59);
+});
+
+after(async () => {
+  await api.close();
+});
+
+describe("POST /sync/run", () => {
+  it("stops when Fitbit rate limits the sync", async () => {
+    api.fitbit.setScenario("rate_limited");
+    try {
+      const { status, body } = await api.send<SyncResult>("POST", "/sync/run?metrics=hrv");
+      assert.equal(status, 200);
+      assert.equal(body.stopped_reason, "rate_limited");
+    } finally {
+      api.fitbit.setScenario("normal");
+    }
+  });
+
+  it("backfills every metric into the store", async () => {
+    const { status, body } = await api.send<SyncResult>("POST", "/sync/run");
+
+    assert.equal(status, 200);
+    assert.equal(body.stopped_reason, "complete");
+    assert.equal(body.metrics.length, 9);
+    for (const metric of body.metrics) {
+      assert.equal(metric.oldest_date, process.env.SYNC_BACKFILL_FROM);
+      assert.equal(metric.backfill_complete, true);
+    }
+  });
+
+  it("stops once the request budget is spent", async () => {
+    const { body } = await api.send<SyncResult>("POST", "/sync/run?max_requests=2");
+    assert.equal(body.stopped_reason, "budget_exhausted");
+    assert.equal(body.requests_made, 2);
+  });
+});
+
+describe("GET /sync/status", () => {
+  it("lists the synced range of each metric", async () => {
+    const { status, body } = await api.get<SyncStatus>("/sync/status");
+
+    assert.equal(status, 200);
+    assert.equal(body.backfill_from, process.env.SYNC_BACKFILL_FROM);
+    assert.equal(body.metrics.length, 9);
+    assert.equal(body.last_result.stopped_reason, "budget_exhausted");
+  });
+});
+
+describe("history routes after a sync", () => {
+  it("serve synced ranges from the store without calling Fitbit", async () => {
+    const requestsBefore = api.fitbit.requests.length;
+    const { body } = await api.get<{ source: string; records: unknown[] }>("/sleep/history?days=30");
+
+    assert.equal(body.source, "store");
+    assert.equal(body.records.length, 30);
+    assert.equal(api.fitbit.requests.length, requestsBefore);
+  });
+});
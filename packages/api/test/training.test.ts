@@ -0,0 +1,77 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestApi, TestApi } from "./api-harness.js";
+import { addDays } from "../src/utils.js";
+import { DailyLoad, assessLoad, computeLoadMetrics, dailyLoad } from "../src/training-load.js";
+
+interface TrainingLoad {
+  records: Array<{ date: string; load: number; exercises: Array<{ name: string }> }>;
+  days_with_data: number;
+  latest: { date: string; acwr: number | null; acwr_status: string };
+}
+
+let api: TestApi;
+
+before(async () => {
+  api = await startTestApi();
+});
+
+after(async () => {
+  await api.close();
+});
+
+describe("GET /training/load", () => {
+  it("returns daily load with acute, chronic and ACWR values", async () => {
+    const { status, body } = await api.get<TrainingLoad>("/training/load?start=2025-06-05&end=2025-06-18");
+
+    assert.equal(status, 200);
+    assert.equal(body.records.length, 14);
+    assert.equal(body.records[0].date, "2025-06-18");
+    // The chronic window reaches 27 days before the range
+    assert.equal(body.days_with_data, 14 + 27);
+    assert.equal(body.latest.date, "2025-06-18");
+    // The simulator's last week is lighter than the four before it
+    assert.equal(body.latest.acwr, 0.83);
+    assert.equal(body.latest.acwr_status, "optimal");
+  });
+
+  it("counts logged workouts towards the day's load", async () => {
+    const { body } = await api.get<TrainingLoad>("/training/load?start=2025-06-13&end=2025-06-13");
+    const [day] = body.records;
+
+    assert.deepEqual(day.exercises.map((e) => e.name), ["Run"]);
+    assert.ok(day.load > 100);
+  });
+
+  it("rejects ranges over 60 days", async () => {
+    const { status } = await api.get("/training/load?days=90");
+    assert.equal(status, 400);
+  });
+});
+
+describe("computeLoadMetrics", () => {
+  // Zone minutes giving a load of 100
+  const trainingDay = (date: string): DailyLoad =>
+    dailyLoad({ date, zone_minutes: { fat_burn: 40, cardio: 15, peak: 3 }, active_zone_minutes: null, exercises: [] });
+  const noData = (date: string): DailyLoad => dailyLoad({ date, zone_minutes: null, active_zone_minutes: null, exercises: [] });
+
+  it("doesn't count the days before a new user's first data as rest", () => {
+    const days = Array.from({ length: 40 }, (_, i) => addDays("2025-06-01", i));
+    const loads = days.map((date, i) => (i < 30 ? noData(date) : trainingDay(date)));
+    const latest = computeLoadMetrics(loads).pop()!;
+
+    assert.equal(latest.acute_load, 100);
+    assert.equal(latest.chronic_load, null);
+    assert.equal(latest.acwr, null);
+    assert.deepEqual(assessLoad(latest), { acwr_status: null, high_monotony: false, notes: ["Not enough history for ACWR (needs 28 days with data)"] });
+  });
+
+  it("leaves gaps in the data out of the chronic load", () => {
+    const days = Array.from({ length: 60 }, (_, i) => addDays("2025-06-01", i));
+    const loads = days.map((date, i) => (i >= 35 && i < 50 ? noData(date) : trainingDay(date)));
+    const latest = computeLoadMetrics(loads).pop()!;
+
+    assert.equal(latest.chronic_load, 100);
+    assert.equal(latest.acwr, 1);
+  });
+});
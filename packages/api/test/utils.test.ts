@@ -0,0 +1,100 @@
+import { describe, it, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import { addDays, dayOfWeek, daysAgo, formatDate, hourOf, isValidTimeZone, today, yesterday } from "../src/utils.js";
+
+const HELSINKI = "Europe/Helsinki"; // EET (UTC+2), EEST (UTC+3) from 2026-03-29 to 2026-10-25
+const NEW_YORK = "America/New_York";
+
+function setNow(iso: string): void {
+  mock.timers.enable({ apis: ["Date"], now: new Date(iso) });
+}
+
+afterEach(() => {
+  mock.timers.reset();
+  delete process.env.DEFAULT_TIMEZONE;
+});
+
+describe("formatDate", () => {
+  it("uses the given timezone, not the server's", () => {
+    const instant = new Date("2026-10-18T22:30:00Z");
+    assert.equal(formatDate(instant, "UTC"), "2026-10-18");
+    assert.equal(formatDate(instant, HELSINKI), "2026-10-19");
+    assert.equal(formatDate(instant, NEW_YORK), "2026-10-18");
+  });
+
+  it("handles the spring-forward day", () => {
+    // Helsinki midnight is 22:00Z before the change and 21:00Z after it
+    assert.equal(formatDate(new Date("2026-03-28T21:59:00Z"), HELSINKI), "2026-03-28");
+    assert.equal(formatDate(new Date("2026-03-28T22:00:00Z"), HELSINKI), "2026-03-29");
+    assert.equal(formatDate(new Date("2026-03-29T20:59:00Z"), HELSINKI), "2026-03-29");
+    assert.equal(formatDate(new Date("2026-03-29T21:00:00Z"), HELSINKI), "2026-03-30");
+  });
+
+  it("handles the fall-back day", () => {
+    assert.equal(formatDate(new Date("2026-10-24T20:59:00Z"), HELSINKI), "2026-10-24");
+    assert.equal(formatDate(new Date("2026-10-24T21:00:00Z"), HELSINKI), "2026-10-25");
+    // 03:00-04:00 happens twice; both are still the 25th
+    assert.equal(formatDate(new Date("2026-10-25T00:30:00Z"), HELSINKI), "2026-10-25");
+    assert.equal(formatDate(new Date("2026-10-25T01:30:00Z"), HELSINKI), "2026-10-25");
+    assert.equal(formatDate(new Date("2026-10-25T21:59:00Z"), HELSINKI), "2026-10-25");
+    assert.equal(formatDate(new Date("2026-10-25T22:00:00Z"), HELSINKI), "2026-10-26");
+  });
+});
+
+describe("today and yesterday", () => {
+  it("roll over at the user's midnight", () => {
+    setNow("2026-10-18T21:30:00Z"); // 00:30 in Helsinki, still the 18th in UTC
+    assert.equal(today("UTC"), "2026-10-18");
+    assert.equal(today(HELSINKI), "2026-10-19");
+    assert.equal(yesterday(HELSINKI), "2026-10-18");
+  });
+
+  it("fall back to DEFAULT_TIMEZONE outside a request", () => {
+    setNow("2026-10-18T21:30:00Z");
+    process.env.DEFAULT_TIMEZONE = HELSINKI;
+    assert.equal(today(), "2026-10-19");
+    assert.equal(yesterday(), "2026-10-18");
+  });
+});
+
+describe("daysAgo", () => {
+  it("steps calendar days across spring forward (23-hour day)", () => {
+    setNow("2026-03-29T21:30:00Z"); // 00:30 on the 30th in Helsinki, right after the short day
+    assert.equal(daysAgo(0, HELSINKI), "2026-03-30");
+    assert.equal(daysAgo(1, HELSINKI), "2026-03-29");
+    assert.equal(daysAgo(2, HELSINKI), "2026-03-28");
+  });
+
+  it("steps calendar days across fall back (25-hour day)", () => {
+    setNow("2026-10-26T21:30:00Z"); // 23:30 on the 26th in Helsinki
+    assert.equal(daysAgo(1, HELSINKI), "2026-10-25");
+    assert.equal(daysAgo(2, HELSINKI), "2026-10-24");
+    assert.equal(daysAgo(7, HELSINKI), "2026-10-19");
+  });
+});
+
+describe("calendar helpers", () => {
+  it("addDays is unaffected by DST", () => {
+    assert.equal(addDays("2026-03-28", 1), "2026-03-29");
+    assert.equal(addDays("2026-03-29", 1), "2026-03-30");
+    assert.equal(addDays("2026-10-25", 1), "2026-10-26");
+    assert.equal(addDays("2026-10-26", -2), "2026-10-24");
+  });
+
+  it("dayOfWeek names the calendar date", () => {
+    assert.equal(dayOfWeek("2026-10-25"), "Sunday");
+    assert.equal(dayOfWeek("2026-03-29"), "Sunday");
+    assert.equal(dayOfWeek("2026-10-19"), "Monday");
+  });
+
+  it("hourOf follows the offset change", () => {
+    assert.equal(hourOf(new Date("2026-10-24T15:00:00Z"), HELSINKI), 18); // EEST
+    assert.equal(hourOf(new Date("2026-10-25T15:00:00Z"), HELSINKI), 17); // EET
+  });
+
+  it("isValidTimeZone accepts IANA names only", () => {
+    assert.equal(isValidTimeZone(HELSINKI), true);
+    assert.equal(isValidTimeZone("UTC"), true);
+    assert.equal(isValidTimeZone("Mars/Olympus_Mons"), false);
+  });
+});